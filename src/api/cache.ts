@@ -0,0 +1,86 @@
+/**
+ * In-memory TTL cache for slowly-changing PostProxy resources
+ * (profile groups, profiles, placements, queues)
+ */
+
+/**
+ * Per-call cache control for cached reads. "bypass" skips the cached entry,
+ * fetches fresh data and stores it for later reads.
+ */
+export type CacheMode = "default" | "bypass";
+
+export interface ReadOptions {
+  cache?: CacheMode;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 60_000;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export class TtlCache {
+  private entries = new Map<string, CacheEntry>();
+  // Loads in progress, so concurrent reads of the same key share one request
+  private pending = new Map<string, Promise<unknown>>();
+  // Bumped on invalidation so a load that started before a write doesn't cache stale data
+  private generation = 0;
+
+  constructor(private ttlMs: number = DEFAULT_CACHE_TTL_MS) {}
+
+  /**
+   * Return the cached value for key, or load, cache and return it
+   */
+  async getOrLoad<T>(key: string, load: () => Promise<T>, options: ReadOptions = {}): Promise<T> {
+    if (this.ttlMs <= 0) {
+      return load();
+    }
+
+    if (options.cache !== "bypass") {
+      const entry = this.entries.get(key);
+      if (entry && entry.expiresAt > Date.now()) {
+        return entry.value as T;
+      }
+      const inFlight = this.pending.get(key);
+      if (inFlight) {
+        return inFlight as Promise<T>;
+      }
+    }
+
+    const generation = this.generation;
+    const promise = load().then((value) => {
+      if (generation === this.generation) {
+        this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+      }
+      return value;
+    });
+    this.pending.set(key, promise);
+    try {
+      return await promise;
+    } finally {
+      if (this.pending.get(key) === promise) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop every entry whose key equals or starts with one of the given prefixes
+   */
+  invalidate(...prefixes: string[]): void {
+    this.generation++;
+    for (const key of [...this.entries.keys(), ...this.pending.keys()]) {
+      if (prefixes.some((prefix) => key.startsWith(prefix))) {
+        this.entries.delete(key);
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.generation++;
+    this.entries.clear();
+    this.pending.clear();
+  }
+}
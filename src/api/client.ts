@@ -2,9 +2,6 @@
  * PostProxy API HTTP client
  */
 
-import { readFileSync } from "node:fs";
-import { basename } from "node:path";
-import { homedir } from "node:os";
 import type {
   ProfileGroup,
   Profile,
@@ -38,21 +35,80 @@ import type {
   EditMessageParams,
   ReactMessageParams,
   UploadResponse,
+  ThreadChild,
 } from "../types/index.js";
 import { createError, ErrorCodes, formatError, type ErrorCode } from "../utils/errors.js";
 import { log, logError } from "../utils/logger.js";
 import { isFilePath } from "../utils/validation.js";
-
-const PACKAGE_VERSION = "1.11.0";
-const USER_AGENT = `postproxy-mcp/${PACKAGE_VERSION} (node ${process.version}; ${process.platform})`;
+import { identifyFile, resolveMimeType } from "../utils/media-probe.js";
+import type { ClientRuntime, FetchFn, FileAccess, LocalFileHandle } from "./runtime.js";
+import { inMemoryFile, MultipartBody, uploadTimeoutMs, type UploadOptions } from "./multipart.js";
+import { RateLimiter, type RateLimitStatus } from "./rate-limiter.js";
+import { TtlCache, type ReadOptions } from "./cache.js";
+import { paginate, type PageEnvelope } from "./pagination.js";
+import {
+  DEFAULT_RETRY_OPTIONS,
+  backoffDelay,
+  isRetryableNetworkError,
+  isRetryableRequest,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+  type RetryAttempt,
+  type RetryOptions,
+} from "./retry.js";
+
+export const PACKAGE_VERSION = "1.11.0";
+const DEFAULT_USER_AGENT = `postproxy-mcp/${PACKAGE_VERSION}`;
+
+export interface UpdatePostOptions extends UploadOptions {
+  // Queue the post was in before the update (null for none), when the caller already fetched
+  // the post. Without it, an update that sets queue_id drops every cached queue.
+  previousQueueId?: string | null;
+}
 
 export class PostProxyClient {
   private apiKey: string;
   private baseUrl: string;
-
-  constructor(apiKey: string, baseUrl: string) {
+  private fetchFn: FetchFn;
+  private files: FileAccess | undefined;
+  private userAgent: string;
+  private retryOptions: RetryOptions;
+  private rateLimiter: RateLimiter;
+  private cache: TtlCache;
+
+  constructor(apiKey: string, baseUrl: string, runtime: ClientRuntime = {}) {
     this.apiKey = apiKey;
     this.baseUrl = baseUrl.replace(/\/$/, ""); // Remove trailing slash
+    // Wrap the global fetch rather than storing it unbound (Workers reject unbound calls)
+    this.fetchFn = runtime.fetch ?? ((url, init) => fetch(url, init));
+    this.files = runtime.files;
+    this.userAgent = runtime.userAgent ?? DEFAULT_USER_AGENT;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...runtime.retry };
+    // A slot is waited for no longer than a Retry-After would be
+    this.rateLimiter = new RateLimiter({ maxWaitMs: this.retryOptions.maxRetryAfterMs, ...runtime.rateLimit });
+    this.cache = new TtlCache(runtime.cacheTtlMs);
+  }
+
+  /**
+   * Whether an API key is configured for this client
+   */
+  hasApiKey(): boolean {
+    return this.apiKey.length > 0;
+  }
+
+  /**
+   * Base URL of the PostProxy API this client talks to
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Client-side rate limiter state, including the API quota last reported in X-RateLimit-* headers
+   */
+  getRateLimitStatus(): RateLimitStatus {
+    return this.rateLimiter.getStatus();
   }
 
   /**
@@ -74,39 +130,17 @@ export class PostProxyClient {
   }
 
   /**
-   * Expand ~ to home directory in file paths
-   */
-  private expandPath(filePath: string): string {
-    if (filePath.startsWith("~/")) {
-      return filePath.replace("~", homedir());
-    }
-    return filePath;
-  }
-
-  /**
-   * Get MIME type based on file extension
+   * Check if any media items are file paths (vs URLs)
    */
-  private getMimeType(filePath: string): string {
-    const ext = filePath.toLowerCase().split(".").pop();
-    const mimeTypes: Record<string, string> = {
-      jpg: "image/jpeg",
-      jpeg: "image/jpeg",
-      png: "image/png",
-      gif: "image/gif",
-      webp: "image/webp",
-      mp4: "video/mp4",
-      mov: "video/quicktime",
-      avi: "video/x-msvideo",
-      webm: "video/webm",
-    };
-    return mimeTypes[ext || ""] || "application/octet-stream";
+  private hasFilePaths(media: string[]): boolean {
+    return media.some((item) => isFilePath(item));
   }
 
   /**
-   * Check if any media items are file paths (vs URLs)
+   * Check if any thread child's media items are file paths
    */
-  private hasFilePaths(media: string[]): boolean {
-    return media.some((item) => isFilePath(item));
+  private threadHasFilePaths(thread: ThreadChild[] | undefined): boolean {
+    return !!thread?.some((child) => child.media && this.hasFilePaths(child.media));
   }
 
   /**
@@ -150,13 +184,13 @@ export class PostProxyClient {
   }
 
   /**
-   * Flatten a nested platforms object into bracket-notation FormData entries.
+   * Flatten a nested platforms object into bracket-notation multipart fields.
    * {youtube: {title: "x", tags: ["a","b"]}}
    *   → platforms[youtube][title]=x, platforms[youtube][tags][]=a, platforms[youtube][tags][]=b
    * Skips undefined/null values. Arrays use the Rails-style `[]` suffix.
    */
   private appendPlatformsAsBrackets(
-    formData: FormData,
+    formData: MultipartBody,
     platforms: Record<string, Record<string, any>>
   ): void {
     for (const [platform, params] of Object.entries(platforms)) {
@@ -180,42 +214,147 @@ export class PostProxyClient {
   }
 
   /**
-   * Append a local file to FormData under a given field name.
+   * Open a local file referenced by path in media or cover_url, for streaming.
+   * Runtimes without file access and unreadable files are validation errors.
    */
-  private appendFileField(
-    formData: FormData,
-    fieldName: string,
-    filePath: string
-  ): void {
-    const expandedPath = this.expandPath(filePath);
-    let fileContent: Buffer;
+  async openLocalFile(filePath: string): Promise<LocalFileHandle> {
+    if (!this.files) {
+      throw createError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Local file paths are not supported in this environment: ${filePath}. Use upload_create to upload the file and pass the returned URL instead.`
+      );
+    }
     try {
-      fileContent = readFileSync(expandedPath);
+      return this.files.openFile
+        ? await this.files.openFile(filePath)
+        : inMemoryFile(await this.files.readFile(filePath));
     } catch (error) {
       throw createError(
         ErrorCodes.VALIDATION_ERROR,
         `Failed to read file: ${filePath} - ${(error as Error).message}`
       );
     }
-    const fileName = basename(expandedPath);
-    const mimeType = this.getMimeType(expandedPath);
-    const blob = new Blob([new Uint8Array(fileContent)], { type: mimeType });
-    formData.append(fieldName, blob, fileName);
+  }
+
+  /**
+   * Append a local file to a multipart body under a given field name.
+   * The file is streamed when the request is sent, not read here.
+   */
+  private async appendFileField(
+    formData: MultipartBody,
+    fieldName: string,
+    filePath: string
+  ): Promise<void> {
+    const file = await this.openLocalFile(filePath);
+    const mimeType = resolveMimeType(filePath, await identifyFile(file));
+    formData.appendFile(fieldName, file, mimeType);
     if (process.env.POSTPROXY_MCP_DEBUG === "1") {
-      log(`Adding file to upload: ${fieldName} → ${fileName} (${mimeType}, ${fileContent.length} bytes)`);
+      log(`Adding file to upload: ${fieldName} → ${file.name} (${mimeType}, ${file.size} bytes)`);
+    }
+  }
+
+  /**
+   * Send a request, retrying 429/502/503/504 responses and network resets with backoff.
+   * Only safe methods and POSTs carrying an Idempotency-Key are retried. Each attempt
+   * waits for the rate limiter and gets its own timeout; retried attempts are appended
+   * to `retried` for error details. A multipart body is streamed afresh for each attempt.
+   */
+  private async fetchWithRetry(
+    path: string,
+    init: Omit<RequestInit, "body"> & {
+      method: string;
+      headers: Record<string, string>;
+      body?: BodyInit | null | MultipartBody;
+    },
+    timeoutMs: number,
+    retried: RetryAttempt[],
+    options: UploadOptions = {}
+  ): Promise<Response> {
+    const url = `${this.baseUrl}${path}`;
+    const method = init.method;
+    const maxRetries = isRetryableRequest(method, init.headers) ? this.retryOptions.maxRetries : 0;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      // Hold a rate limiter slot only while the request is in flight, not during backoff
+      const release = await this.rateLimiter.acquire();
+      try {
+        const { body, ...rest } = init;
+        response = await this.fetchFn(url, {
+          ...rest,
+          ...(body instanceof MultipartBody
+            ? {
+                headers: { ...init.headers, "Content-Type": body.contentType, "Content-Length": String(body.length) },
+                body: body.stream(options.onProgress),
+                duplex: "half", // Required by Node's fetch for stream bodies
+              }
+            : { body }),
+          signal: options.signal ? AbortSignal.any([options.signal, AbortSignal.timeout(timeoutMs)]) : AbortSignal.timeout(timeoutMs),
+        } as RequestInit);
+        this.rateLimiter.update(response.headers);
+        release();
+      } catch (error) {
+        release();
+        if (attempt > maxRetries || !isRetryableNetworkError(error)) {
+          throw error;
+        }
+        const delayMs = backoffDelay(attempt, this.retryOptions);
+        const cause = (error as { cause?: { code?: string } }).cause?.code;
+        const message = cause ? `${(error as Error).message} (${cause})` : (error as Error).message;
+        this.recordRetry(method, path, retried, { attempt, error: message, delayMs }, maxRetries);
+        await sleep(delayMs, options.signal);
+        options.signal?.throwIfAborted();
+        continue;
+      }
+
+      if (response.ok || attempt > maxRetries || !isRetryableStatus(response.status)) {
+        return response;
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      if (retryAfterMs !== undefined && retryAfterMs > this.retryOptions.maxRetryAfterMs) {
+        // Server wants us to back off longer than we're willing to block a tool call
+        return response;
+      }
+      const delayMs = retryAfterMs ?? backoffDelay(attempt, this.retryOptions);
+      await response.body?.cancel().catch(() => undefined);
+      this.recordRetry(method, path, retried, { attempt, status: response.status, delayMs }, maxRetries);
+      await sleep(delayMs, options.signal);
+      options.signal?.throwIfAborted();
+    }
+  }
+
+  /**
+   * Error details describing retried attempts (empty when the request wasn't retried)
+   */
+  private retryDetails(retried: RetryAttempt[]): { retries?: RetryAttempt[] } {
+    return retried.length > 0 ? { retries: retried } : {};
+  }
+
+  private recordRetry(
+    method: string,
+    path: string,
+    retried: RetryAttempt[],
+    entry: RetryAttempt,
+    maxRetries: number
+  ): void {
+    retried.push(entry);
+    if (process.env.POSTPROXY_MCP_DEBUG === "1") {
+      const reason = entry.status !== undefined ? `status ${entry.status}` : entry.error;
+      log(`Retrying ${method} ${path} in ${entry.delayMs}ms after ${reason} (retry ${entry.attempt}/${maxRetries})`);
     }
   }
 
   /**
    * Create post using multipart/form-data (for file uploads)
-   * Uses form field names with brackets: post[body], profiles[], media[]
+   * Uses form field names with brackets: post[body], profiles[], media[], thread[0][media][]
    */
   private async createPostWithFiles(
     params: CreatePostParams,
-    extraHeaders: Record<string, string>
+    extraHeaders: Record<string, string>,
+    options: UploadOptions
   ): Promise<CreatePostResponse> {
-    const url = `${this.baseUrl}/posts`;
-    const formData = new FormData();
+    const formData = new MultipartBody();
 
     // Add post body
     formData.append("post[body]", params.content);
@@ -235,11 +374,42 @@ export class PostProxyClient {
       formData.append("profiles[]", profile);
     }
 
+    await this.appendPostMedia(formData, params);
+
+    // Add queue parameters
+    if (params.queue_id) {
+      formData.append("queue_id", params.queue_id);
+      if (params.queue_priority) {
+        formData.append("queue_priority", params.queue_priority);
+      }
+    }
+
+    // Large uploads get longer: 60 seconds plus time to send the body at a slow connection's speed
+    const timeoutMs = uploadTimeoutMs(formData.length);
+
+    if (process.env.POSTPROXY_MCP_DEBUG === "1") {
+      log(`Creating post with file upload (multipart/form-data)`);
+      log(`Profiles: ${params.profiles.join(", ")}`);
+      log(`Media count: ${params.media?.length || 0}`);
+      log(`Upload size: ${formData.length} bytes, timeout ${timeoutMs}ms`);
+    }
+
+    return this.sendMultipart<CreatePostResponse>("POST", "/posts", "/posts", formData, extraHeaders, timeoutMs, options);
+  }
+
+  /**
+   * Append a post's media, platform parameters and thread children to a multipart body,
+   * uploading local files in media, cover_url and thread media. Shared by create and update.
+   */
+  private async appendPostMedia(
+    formData: MultipartBody,
+    params: Pick<CreatePostParams, "media" | "platforms" | "thread">
+  ): Promise<void> {
     // Add media files and URLs
     if (params.media && params.media.length > 0) {
       for (const mediaItem of params.media) {
         if (isFilePath(mediaItem)) {
-          this.appendFileField(formData, "media[]", mediaItem);
+          await this.appendFileField(formData, "media[]", mediaItem);
         } else {
           // It's a URL - pass it as-is
           formData.append("media[]", mediaItem);
@@ -264,54 +434,71 @@ export class PostProxyClient {
     }
 
     for (const [platform, filePath] of Object.entries(coverFiles)) {
-      this.appendFileField(formData, `platforms[${platform}][cover_file]`, filePath);
+      await this.appendFileField(formData, `platforms[${platform}][cover_file]`, filePath);
     }
 
-    // Add thread children
+    // Add thread children. Local media files in them are uploaded as indexed file fields
+    // (thread[<i>][media][]), which can't be mixed with a `thread` JSON blob, so then
+    // every child goes out in bracket notation.
     if (params.thread && params.thread.length > 0) {
-      formData.append("thread", JSON.stringify(params.thread));
-    }
-
-    // Add queue parameters
-    if (params.queue_id) {
-      formData.append("queue_id", params.queue_id);
-      if (params.queue_priority) {
-        formData.append("queue_priority", params.queue_priority);
+      if (this.threadHasFilePaths(params.thread)) {
+        for (const [index, child] of params.thread.entries()) {
+          formData.append(`thread[${index}][body]`, child.body);
+          for (const mediaItem of child.media ?? []) {
+            if (isFilePath(mediaItem)) {
+              await this.appendFileField(formData, `thread[${index}][media][]`, mediaItem);
+            } else {
+              formData.append(`thread[${index}][media][]`, mediaItem);
+            }
+          }
+        }
+      } else {
+        formData.append("thread", JSON.stringify(params.thread));
       }
     }
+  }
 
-    // Build headers (no Content-Type - fetch will set it with boundary for multipart)
+  /**
+   * Send a multipart body and parse the JSON response, mapping failures the way request()
+   * does. `logPath` names the endpoint in logs without IDs, e.g. /posts/:id.
+   */
+  private async sendMultipart<T>(
+    method: string,
+    path: string,
+    logPath: string,
+    formData: MultipartBody,
+    extraHeaders: Record<string, string>,
+    timeoutMs: number,
+    options: UploadOptions
+  ): Promise<T> {
+    // Build headers (Content-Type and Content-Length come from the multipart body)
     const headers: Record<string, string> = {
       Authorization: `Bearer ${this.apiKey}`,
-      "User-Agent": USER_AGENT,
+      "User-Agent": this.userAgent,
       ...extraHeaders,
     };
 
-    if (process.env.POSTPROXY_MCP_DEBUG === "1") {
-      log(`Creating post with file upload (multipart/form-data)`);
-      log(`Profiles: ${params.profiles.join(", ")}`);
-      log(`Media count: ${params.media?.length || 0}`);
-    }
-
+    const retried: RetryAttempt[] = [];
     try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: formData,
-        signal: AbortSignal.timeout(60000), // 60 second timeout for file uploads
-      });
+      const response = await this.fetchWithRetry(
+        path,
+        { method, headers, body: formData },
+        timeoutMs,
+        retried,
+        options
+      );
 
       const requestId = response.headers.get("x-request-id");
 
       if (!response.ok) {
         let errorMessage = `API request failed with status ${response.status}`;
-        let errorDetails: any = { status: response.status, requestId };
+        let errorDetails: any = { status: response.status, requestId, ...this.retryDetails(retried) };
 
         try {
           const errorBody = await response.json();
           if (Array.isArray(errorBody.errors)) {
             errorMessage = errorBody.errors.join("; ");
-            errorDetails = { ...errorDetails, errors: errorBody.errors };
+            errorDetails = { ...errorDetails, ...errorBody };
           } else if (errorBody.message) {
             errorMessage = errorBody.message;
             errorDetails = { ...errorDetails, ...errorBody };
@@ -334,27 +521,35 @@ export class PostProxyClient {
           errorCode = ErrorCodes.VALIDATION_ERROR;
         }
 
-        logError(createError(errorCode, errorMessage, errorDetails), `API POST /posts (multipart)`);
+        logError(createError(errorCode, errorMessage, errorDetails), `API ${method} ${logPath} (multipart)`);
         throw createError(errorCode, errorMessage, errorDetails);
       }
 
       const jsonResponse = await response.json();
       if (process.env.POSTPROXY_MCP_DEBUG === "1") {
-        log(`Response POST /posts (multipart)`, JSON.stringify(jsonResponse, null, 2));
+        log(`Response ${method} ${logPath} (multipart)`, JSON.stringify(jsonResponse, null, 2));
       }
-      return jsonResponse as CreatePostResponse;
+      return jsonResponse as T;
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw createError(ErrorCodes.API_ERROR, "Upload cancelled", this.retryDetails(retried));
+      }
       if (error instanceof Error && error.name === "TimeoutError") {
         throw createError(
           ErrorCodes.API_ERROR,
-          "Request timeout - API did not respond within 60 seconds"
+          `Request timeout - API did not respond within ${Math.round(timeoutMs / 1000)} seconds`,
+          this.retryDetails(retried)
         );
       }
       if (error instanceof Error && "code" in error) {
         throw error;
       }
-      logError(error as Error, `API POST /posts (multipart)`);
-      throw formatError(error as Error, ErrorCodes.API_ERROR, { method: "POST", path: "/posts" });
+      logError(error as Error, `API ${method} ${logPath} (multipart)`);
+      throw formatError(error as Error, ErrorCodes.API_ERROR, {
+        method,
+        path,
+        ...this.retryDetails(retried),
+      });
     }
   }
 
@@ -367,11 +562,10 @@ export class PostProxyClient {
     body?: any,
     extraHeaders?: Record<string, string>
   ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
     const headers: Record<string, string> = {
       Authorization: `Bearer ${this.apiKey}`,
       "Content-Type": "application/json",
-      "User-Agent": USER_AGENT,
+      "User-Agent": this.userAgent,
     };
 
     // Merge extra headers if provided
@@ -379,10 +573,9 @@ export class PostProxyClient {
       Object.assign(headers, extraHeaders);
     }
 
-    const options: RequestInit = {
+    const options: RequestInit & { method: string; headers: Record<string, string> } = {
       method,
       headers,
-      signal: AbortSignal.timeout(30000), // 30 second timeout
     };
 
     if (body && (method === "POST" || method === "PUT" || method === "PATCH")) {
@@ -393,13 +586,14 @@ export class PostProxyClient {
       }
     }
 
+    const retried: RetryAttempt[] = [];
     try {
-      const response = await fetch(url, options);
+      const response = await this.fetchWithRetry(path, options, 30000, retried); // 30 second timeout
       const requestId = response.headers.get("x-request-id");
 
       if (!response.ok) {
         let errorMessage = `API request failed with status ${response.status}`;
-        let errorDetails: any = { status: response.status, requestId };
+        let errorDetails: any = { status: response.status, requestId, ...this.retryDetails(retried) };
 
         try {
           const errorBody = await response.json();
@@ -408,7 +602,7 @@ export class PostProxyClient {
           if (Array.isArray(errorBody.errors)) {
             // 422 validation errors: {"errors": ["...", "..."]}
             errorMessage = errorBody.errors.join("; ");
-            errorDetails = { ...errorDetails, errors: errorBody.errors };
+            errorDetails = { ...errorDetails, ...errorBody };
           } else if (errorBody.message) {
             // 400 errors: {"status":400,"error":"Bad Request","message":"..."}
             errorMessage = errorBody.message;
@@ -459,7 +653,8 @@ export class PostProxyClient {
       if (error instanceof Error && error.name === "TimeoutError") {
         throw createError(
           ErrorCodes.API_ERROR,
-          "Request timeout - API did not respond within 30 seconds"
+          "Request timeout - API did not respond within 30 seconds",
+          this.retryDetails(retried)
         );
       }
 
@@ -468,16 +663,18 @@ export class PostProxyClient {
       }
 
       logError(error as Error, `API ${method} ${path}`);
-      throw formatError(error as Error, ErrorCodes.API_ERROR, { method, path });
+      throw formatError(error as Error, ErrorCodes.API_ERROR, { method, path, ...this.retryDetails(retried) });
     }
   }
 
   /**
-   * Get all profile groups
+   * Get all profile groups (cached)
    */
-  async getProfileGroups(): Promise<ProfileGroup[]> {
-    const response = await this.request<any>("GET", "/profile_groups/");
-    return this.extractArray<ProfileGroup>(response);
+  async getProfileGroups(options?: ReadOptions): Promise<ProfileGroup[]> {
+    return this.cache.getOrLoad("profile_groups", async () => {
+      const response = await this.request<any>("GET", "/profile_groups/");
+      return this.extractArray<ProfileGroup>(response);
+    }, options);
   }
 
   /**
@@ -487,43 +684,55 @@ export class PostProxyClient {
     profileGroupId: string,
     body: Record<string, unknown>
   ): Promise<any> {
-    return this.request<any>(
-      "POST",
-      `/profile_groups/${encodeURIComponent(profileGroupId)}/initialize_connection`,
-      body
-    );
+    try {
+      return await this.request<any>(
+        "POST",
+        `/profile_groups/${encodeURIComponent(profileGroupId)}/initialize_connection`,
+        body
+      );
+    } finally {
+      // Connecting adds a profile to the group, and placements come with it
+      this.cache.invalidate("profile_groups", "profiles:", "placements:");
+    }
   }
 
   /**
-   * Get profiles, optionally filtered by group ID
+   * Get profiles, optionally filtered by group ID (cached)
    */
-  async getProfiles(groupId?: string | number): Promise<Profile[]> {
+  async getProfiles(groupId?: string | number, options?: ReadOptions): Promise<Profile[]> {
     const path = groupId
       ? `/profiles?profile_group_id=${encodeURIComponent(String(groupId))}`
       : "/profiles";
-    const response = await this.request<any>("GET", path);
-    return this.extractArray<Profile>(response);
+    return this.cache.getOrLoad(`profiles:${groupId ?? "*"}`, async () => {
+      const response = await this.request<any>("GET", path);
+      return this.extractArray<Profile>(response);
+    }, options);
   }
 
   /**
    * Create a new post
    * API expects: { post: { body, scheduled_at, draft }, profiles: [...], media: [...], platforms: {...} }
    * Note: draft parameter must be inside the post object, not at the top level
-   * If media contains file paths, uses multipart/form-data for file upload
+   * If media or thread media contain file paths, uses multipart/form-data for file upload, streaming the
+   * files and reporting progress through options.onProgress
    */
-  async createPost(params: CreatePostParams): Promise<CreatePostResponse> {
+  async createPost(params: CreatePostParams, options: UploadOptions = {}): Promise<CreatePostResponse> {
     // Check if we need to use multipart/form-data for file uploads
-    // (either media file paths or local cover_url paths for supported platforms)
+    // (media or thread media file paths, or local cover_url paths for supported platforms)
     const mediaHasFiles = !!(params.media && params.media.length > 0 && this.hasFilePaths(params.media));
     const { coverFiles } = this.extractCoverFiles(params.platforms);
     const hasCoverFiles = Object.keys(coverFiles).length > 0;
 
-    if (mediaHasFiles || hasCoverFiles) {
+    if (mediaHasFiles || hasCoverFiles || this.threadHasFilePaths(params.thread)) {
       const extraHeaders: Record<string, string> = {};
       if (params.idempotency_key) {
         extraHeaders["Idempotency-Key"] = params.idempotency_key;
       }
-      return this.createPostWithFiles(params, extraHeaders);
+      const response = await this.createPostWithFiles(params, extraHeaders, options);
+      if (params.queue_id) {
+        this.invalidateQueues(params.queue_id);
+      }
+      return response;
     }
 
     // Transform to API format (JSON request for URLs only)
@@ -544,7 +753,7 @@ export class PostProxyClient {
       apiPayload.post.draft = params.draft;
     }
 
-    // Thread children (X and Threads only)
+    // Thread children (X, Threads and Bluesky only)
     if (params.thread && params.thread.length > 0) {
       apiPayload.thread = params.thread;
     }
@@ -612,6 +821,10 @@ export class PostProxyClient {
     }
 
     const response = await this.request<CreatePostResponse>("POST", "/posts", apiPayload, extraHeaders);
+    // Queued posts change the queue's post count
+    if (params.queue_id) {
+      this.invalidateQueues(params.queue_id);
+    }
 
     // Log response in debug mode, especially draft status
     if (process.env.POSTPROXY_MCP_DEBUG === "1") {
@@ -661,10 +874,38 @@ export class PostProxyClient {
     return this.extractArray<Post>(response);
   }
 
+  /**
+   * Iterate over every post, newest first, fetching pages as needed
+   */
+  iteratePosts(perPage?: number, startPage?: number): AsyncGenerator<Post, void, undefined> {
+    return paginate(async (page) => {
+      const params = new URLSearchParams({ page: String(page) });
+      if (perPage !== undefined) {
+        params.append("per_page", String(perPage));
+      }
+      const response = await this.request<any>("GET", `/posts?${params.toString()}`);
+      // Older responses are a bare array without the pagination envelope
+      return Array.isArray(response) ? { data: response } : (response as PageEnvelope<Post>);
+    }, startPage);
+  }
+
   /**
    * Update an existing post
+   * Local file paths in media, thread media or a supported platform's cover_url are
+   * uploaded with a multipart PATCH, as createPost does
    */
-  async updatePost(postId: string, params: UpdatePostParams): Promise<PostDetails> {
+  async updatePost(postId: string, params: UpdatePostParams, options: UpdatePostOptions = {}): Promise<PostDetails> {
+    const mediaHasFiles = !!(params.media && params.media.length > 0 && this.hasFilePaths(params.media));
+    const { coverFiles } = this.extractCoverFiles(params.platforms);
+    if (mediaHasFiles || Object.keys(coverFiles).length > 0 || this.threadHasFilePaths(params.thread)) {
+      const response = await this.updatePostWithFiles(postId, params, options);
+      if (params.queue_id !== undefined) {
+        // A post moving between queues changes both
+        this.invalidatePostQueues(params.queue_id, options.previousQueueId);
+      }
+      return response;
+    }
+
     const apiPayload: any = {};
 
     // Build post object (merged fields)
@@ -710,7 +951,60 @@ export class PostProxyClient {
       }
     }
 
-    return this.request<PostDetails>("PATCH", `/posts/${postId}`, apiPayload);
+    const response = await this.request<PostDetails>("PATCH", `/posts/${postId}`, apiPayload);
+    if (params.queue_id !== undefined) {
+      this.invalidatePostQueues(params.queue_id, options.previousQueueId);
+    }
+    return response;
+  }
+
+  /**
+   * Update a post using multipart/form-data (for file uploads), with the same bracket
+   * field names as createPostWithFiles. Only the fields being changed are sent.
+   */
+  private async updatePostWithFiles(
+    postId: string,
+    params: UpdatePostParams,
+    options: UploadOptions
+  ): Promise<PostDetails> {
+    const formData = new MultipartBody();
+
+    if (params.content !== undefined) {
+      formData.append("post[body]", params.content);
+    }
+    if (params.schedule !== undefined) {
+      formData.append("post[scheduled_at]", params.schedule);
+    }
+    if (params.draft !== undefined) {
+      formData.append("post[draft]", String(params.draft));
+    }
+    for (const profile of params.profiles ?? []) {
+      formData.append("profiles[]", profile);
+    }
+
+    await this.appendPostMedia(formData, params);
+    // Empty media or thread clears the post's; appendPostMedia skips them, so send them as JSON
+    if (params.media && params.media.length === 0) {
+      formData.append("media", "[]");
+    }
+    if (params.thread && params.thread.length === 0) {
+      formData.append("thread", "[]");
+    }
+
+    if (params.queue_id !== undefined) {
+      formData.append("queue_id", params.queue_id);
+      if (params.queue_priority) {
+        formData.append("queue_priority", params.queue_priority);
+      }
+    }
+
+    const timeoutMs = uploadTimeoutMs(formData.length);
+    if (process.env.POSTPROXY_MCP_DEBUG === "1") {
+      log(`Updating post ${postId} with file upload (multipart/form-data)`);
+      log(`Upload size: ${formData.length} bytes, timeout ${timeoutMs}ms`);
+    }
+
+    return this.sendMultipart<PostDetails>("PATCH", `/posts/${postId}`, "/posts/:id", formData, {}, timeoutMs, options);
   }
 
   /**
@@ -720,6 +1014,8 @@ export class PostProxyClient {
   async deletePost(postId: string, deleteOnPlatform?: boolean): Promise<void> {
     const query = deleteOnPlatform ? "?delete_on_platform=true" : "";
     await this.request<void>("DELETE", `/posts/${postId}${query}`);
+    // The post may have been queued, and the response doesn't say where
+    this.invalidatePostQueues(undefined);
   }
 
   /**
@@ -742,15 +1038,19 @@ export class PostProxyClient {
    * Only posts with status "draft" can be published using this endpoint
    */
   async publishPost(postId: string): Promise<PostDetails> {
-    return this.request<PostDetails>("POST", `/posts/${postId}/publish`);
+    const response = await this.request<PostDetails>("POST", `/posts/${postId}/publish`);
+    this.invalidatePostQueues(response.queue_id);
+    return response;
   }
 
   /**
-   * Get placements for a profile (Facebook pages, LinkedIn orgs, Pinterest boards)
+   * Get placements for a profile (Facebook pages, LinkedIn orgs, Pinterest boards) (cached)
    */
-  async getPlacements(profileId: string): Promise<Placement[]> {
-    const response = await this.request<any>("GET", `/profiles/${profileId}/placements`);
-    return this.extractArray<Placement>(response);
+  async getPlacements(profileId: string, options?: ReadOptions): Promise<Placement[]> {
+    return this.cache.getOrLoad(`placements:${profileId}`, async () => {
+      const response = await this.request<any>("GET", `/profiles/${profileId}/placements`);
+      return this.extractArray<Placement>(response);
+    }, options);
   }
 
   /**
@@ -802,21 +1102,46 @@ export class PostProxyClient {
   }
 
   /**
-   * List all queues, optionally filtered by profile group
+   * List all queues, optionally filtered by profile group (cached)
    */
-  async listQueues(profileGroupId?: string): Promise<PostQueue[]> {
+  async listQueues(profileGroupId?: string, options?: ReadOptions): Promise<PostQueue[]> {
     const path = profileGroupId
       ? `/post_queues?profile_group_id=${profileGroupId}`
       : "/post_queues";
-    const response = await this.request<any>("GET", path);
-    return this.extractArray<PostQueue>(response);
+    return this.cache.getOrLoad(`queues:${profileGroupId ?? "*"}`, async () => {
+      const response = await this.request<any>("GET", path);
+      return this.extractArray<PostQueue>(response);
+    }, options);
   }
 
   /**
-   * Get a single queue by ID
+   * Get a single queue by ID (cached)
    */
-  async getQueue(queueId: string): Promise<PostQueue> {
-    return this.request<PostQueue>("GET", `/post_queues/${queueId}`);
+  async getQueue(queueId: string, options?: ReadOptions): Promise<PostQueue> {
+    return this.cache.getOrLoad(
+      `queue:${queueId}`,
+      () => this.request<PostQueue>("GET", `/post_queues/${queueId}`),
+      options
+    );
+  }
+
+  /**
+   * Drop cached queue lists and, when given, the cached queues with these IDs
+   */
+  private invalidateQueues(...queueIds: Array<string | null | undefined>): void {
+    this.cache.invalidate("queues:", ...queueIds.filter((id): id is string => !!id).map((id) => `queue:${id}`));
+  }
+
+  /**
+   * Drop cached queue lists and the cached queues a post was or now is in. An undefined ID
+   * means that queue isn't known (null means no queue), so every cached queue goes.
+   */
+  private invalidatePostQueues(...queueIds: Array<string | null | undefined>): void {
+    if (queueIds.includes(undefined)) {
+      this.cache.invalidate("queues:", "queue:");
+    } else {
+      this.invalidateQueues(...queueIds);
+    }
   }
 
   /**
@@ -848,7 +1173,11 @@ export class PostProxyClient {
     if (params.timeslots && params.timeslots.length > 0) {
       apiPayload.post_queue.queue_timeslots_attributes = params.timeslots;
     }
-    return this.request<PostQueue>("POST", "/post_queues", apiPayload);
+    try {
+      return await this.request<PostQueue>("POST", "/post_queues", apiPayload);
+    } finally {
+      this.invalidateQueues();
+    }
   }
 
   /**
@@ -874,14 +1203,22 @@ export class PostProxyClient {
     if (params.timeslots && params.timeslots.length > 0) {
       apiPayload.post_queue.queue_timeslots_attributes = params.timeslots;
     }
-    return this.request<PostQueue>("PATCH", `/post_queues/${queueId}`, apiPayload);
+    try {
+      return await this.request<PostQueue>("PATCH", `/post_queues/${queueId}`, apiPayload);
+    } finally {
+      this.invalidateQueues(queueId);
+    }
   }
 
   /**
    * Delete a queue
    */
   async deleteQueue(queueId: string): Promise<void> {
-    await this.request<void>("DELETE", `/post_queues/${queueId}`);
+    try {
+      await this.request<void>("DELETE", `/post_queues/${queueId}`);
+    } finally {
+      this.invalidateQueues(queueId);
+    }
   }
 
   /**
@@ -907,6 +1244,18 @@ export class PostProxyClient {
     );
   }
 
+  /**
+   * Iterate over every top-level comment (with nested replies) on a post
+   */
+  iterateComments(
+    postId: string,
+    profileId: string,
+    perPage?: number,
+    startPage?: number
+  ): AsyncGenerator<Comment, void, undefined> {
+    return paginate((page) => this.listComments(postId, profileId, page, perPage), startPage);
+  }
+
   /**
    * Get a single comment
    */
@@ -1020,6 +1369,19 @@ export class PostProxyClient {
     );
   }
 
+  /**
+   * Iterate over every profile-scoped comment, starting at params.page
+   */
+  iterateProfileComments(
+    profileId: string,
+    params?: ListProfileCommentsParams
+  ): AsyncGenerator<ProfileComment, void, undefined> {
+    return paginate(
+      (page) => this.listProfileComments(profileId, { ...params, page }),
+      params?.page
+    );
+  }
+
   /**
    * Get a single profile comment by postproxy ID or platform external_id
    */
@@ -1075,6 +1437,13 @@ export class PostProxyClient {
     );
   }
 
+  /**
+   * Iterate over every chat on a profile, starting at params.page
+   */
+  iterateChats(profileId: string, params?: ListChatsParams): AsyncGenerator<Chat, void, undefined> {
+    return paginate((page) => this.listChats(profileId, { ...params, page }), params?.page);
+  }
+
   /**
    * Find or create a chat by participant (idempotent)
    */
@@ -1124,15 +1493,26 @@ export class PostProxyClient {
     );
   }
 
+  /**
+   * Iterate over every message in a chat, starting at params.page
+   */
+  iterateMessages(
+    chatId: string,
+    params?: ListMessagesParams
+  ): AsyncGenerator<DirectMessage, void, undefined> {
+    return paginate((page) => this.listMessages(chatId, { ...params, page }), params?.page);
+  }
+
   /**
    * Send an outbound message. When media contains a local file path the send
-   * goes out as multipart; otherwise (text, or media URLs) it's a JSON request.
+   * goes out as multipart, streaming the file and reporting progress through
+   * options.onProgress; otherwise (text, or media URLs) it's a JSON request.
    */
-  async sendMessage(chatId: string, params: SendMessageParams): Promise<DirectMessage> {
+  async sendMessage(chatId: string, params: SendMessageParams, options: UploadOptions = {}): Promise<DirectMessage> {
     const mediaHasFiles =
       !!(params.media && params.media.length > 0 && this.hasFilePaths(params.media));
     if (mediaHasFiles) {
-      return this.sendMessageWithFiles(chatId, params);
+      return this.sendMessageWithFiles(chatId, params, options);
     }
     const payload: any = {};
     if (params.body !== undefined) payload.body = params.body;
@@ -1152,16 +1532,17 @@ export class PostProxyClient {
    */
   private async sendMessageWithFiles(
     chatId: string,
-    params: SendMessageParams
+    params: SendMessageParams,
+    options: UploadOptions
   ): Promise<DirectMessage> {
-    const url = `${this.baseUrl}/chats/${encodeURIComponent(chatId)}/messages`;
-    const formData = new FormData();
+    const path = `/chats/${encodeURIComponent(chatId)}/messages`;
+    const formData = new MultipartBody();
 
     if (params.body !== undefined) formData.append("body", params.body);
     if (params.media && params.media.length > 0) {
       for (const mediaItem of params.media) {
         if (isFilePath(mediaItem)) {
-          this.appendFileField(formData, "media[]", mediaItem);
+          await this.appendFileField(formData, "media[]", mediaItem);
         } else {
           formData.append("media[]", mediaItem);
         }
@@ -1175,77 +1556,15 @@ export class PostProxyClient {
       formData.append("reply_markup", JSON.stringify(params.reply_markup));
     }
 
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${this.apiKey}`,
-      "User-Agent": USER_AGENT,
-    };
-
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers,
-        body: formData,
-        signal: AbortSignal.timeout(60000), // 60 second timeout for file uploads
-      });
-
-      const requestId = response.headers.get("x-request-id");
-
-      if (!response.ok) {
-        let errorMessage = `API request failed with status ${response.status}`;
-        let errorDetails: any = { status: response.status, requestId };
-
-        try {
-          const errorBody = await response.json();
-          if (Array.isArray(errorBody.errors)) {
-            errorMessage = errorBody.errors.join("; ");
-            errorDetails = { ...errorDetails, errors: errorBody.errors };
-          } else if (errorBody.message) {
-            errorMessage = errorBody.message;
-            errorDetails = { ...errorDetails, ...errorBody };
-          } else if (errorBody.error) {
-            errorMessage = typeof errorBody.error === "string"
-              ? errorBody.error
-              : errorBody.message || errorMessage;
-            errorDetails = { ...errorDetails, ...errorBody };
-          }
-        } catch {
-          errorMessage = response.statusText || errorMessage;
-        }
-
-        let errorCode: ErrorCode = ErrorCodes.API_ERROR;
-        if (response.status === 401) {
-          errorCode = ErrorCodes.AUTH_INVALID;
-        } else if (response.status === 404) {
-          errorCode = ErrorCodes.TARGET_NOT_FOUND;
-        } else if (response.status >= 400 && response.status < 500) {
-          errorCode = ErrorCodes.VALIDATION_ERROR;
-        }
-
-        logError(
-          createError(errorCode, errorMessage, errorDetails),
-          `API POST /chats/:id/messages (multipart)`
-        );
-        throw createError(errorCode, errorMessage, errorDetails);
-      }
-
-      const jsonResponse = await response.json();
-      return jsonResponse as DirectMessage;
-    } catch (error) {
-      if (error instanceof Error && error.name === "TimeoutError") {
-        throw createError(
-          ErrorCodes.API_ERROR,
-          "Request timeout - API did not respond within 60 seconds"
-        );
-      }
-      if (error instanceof Error && "code" in error) {
-        throw error;
-      }
-      logError(error as Error, `API POST /chats/:id/messages (multipart)`);
-      throw formatError(error as Error, ErrorCodes.API_ERROR, {
-        method: "POST",
-        path: `/chats/${chatId}/messages`,
-      });
-    }
+    return this.sendMultipart<DirectMessage>(
+      "POST",
+      path,
+      "/chats/:id/messages",
+      formData,
+      {},
+      uploadTimeoutMs(formData.length),
+      options
+    );
   }
 
   /**
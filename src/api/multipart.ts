@@ -0,0 +1,159 @@
+/**
+ * Streaming multipart/form-data bodies for requests that upload local files.
+ *
+ * FormData needs every file in memory as a Blob. A MultipartBody streams each file from
+ * disk as the request is sent instead, knows its length up front (so it goes out with a
+ * Content-Length), and reports how many bytes have been sent.
+ */
+
+import type { LocalFile, LocalFileHandle } from "./runtime.js";
+
+/**
+ * Called as an upload is sent, with the bytes sent so far and the body's total length
+ */
+export type UploadProgressFn = (sentBytes: number, totalBytes: number) => void;
+
+export interface UploadOptions {
+  onProgress?: UploadProgressFn;
+  signal?: AbortSignal; // Aborts the upload, e.g. when the tool call is cancelled
+}
+
+// An upload gets this long for the API to respond, plus time to send its bytes at the minimum speed
+const UPLOAD_BASE_TIMEOUT_MS = 60000;
+const UPLOAD_MIN_BYTES_PER_SECOND = 256 * 1024;
+// Progress is reported each time another 1% of the body has been sent
+const PROGRESS_STEP = 0.01;
+
+/**
+ * Timeout for a request uploading a body of the given length
+ */
+export function uploadTimeoutMs(totalBytes: number): number {
+  return UPLOAD_BASE_TIMEOUT_MS + Math.ceil((totalBytes / UPLOAD_MIN_BYTES_PER_SECOND) * 1000);
+}
+
+/**
+ * A file already read into memory, for runtimes that can't open files for streaming
+ */
+export function inMemoryFile(file: LocalFile): LocalFileHandle {
+  return {
+    name: file.name,
+    size: file.data.length,
+    read: async (start, end) => file.data.subarray(start, end),
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(file.data);
+          controller.close();
+        },
+      }),
+  };
+}
+
+const encoder = new TextEncoder();
+const CRLF = encoder.encode("\r\n");
+
+interface Part {
+  head: Uint8Array; // Boundary line and part headers
+  value?: Uint8Array;
+  file?: LocalFileHandle;
+}
+
+/**
+ * Quote a field or file name for a Content-Disposition header, as browsers do
+ */
+function quote(name: string): string {
+  return `"${name.replace(/"/g, "%22").replace(/\r/g, "%0D").replace(/\n/g, "%0A")}"`;
+}
+
+export class MultipartBody {
+  readonly boundary = `----postproxy-${Array.from({ length: 24 }, () => Math.floor(Math.random() * 16).toString(16)).join("")}`;
+  private parts: Part[] = [];
+  private reported = 0; // Highest byte count reported, so a retried upload doesn't move progress back
+
+  append(name: string, value: string): void {
+    this.parts.push({ head: this.head(`name=${quote(name)}`), value: encoder.encode(value) });
+  }
+
+  appendFile(name: string, file: LocalFileHandle, type: string): void {
+    this.parts.push({ head: this.head(`name=${quote(name)}; filename=${quote(file.name)}`, type), file });
+  }
+
+  get contentType(): string {
+    return `multipart/form-data; boundary=${this.boundary}`;
+  }
+
+  /**
+   * Length of the whole body in bytes
+   */
+  get length(): number {
+    const parts = this.parts.reduce((n, part) => n + part.head.length + (part.value?.length ?? part.file!.size) + CRLF.length, 0);
+    return parts + this.tail().length;
+  }
+
+  /**
+   * Files in the body, for logging
+   */
+  get files(): LocalFileHandle[] {
+    return this.parts.flatMap((part) => (part.file ? [part.file] : []));
+  }
+
+  /**
+   * The body as a stream. Every call starts a new stream, so a retried request can send it again.
+   */
+  stream(onProgress?: UploadProgressFn): ReadableStream<Uint8Array> {
+    const total = this.length;
+    const chunks = this.chunks();
+    let sent = 0;
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+        sent += value.length;
+        if (onProgress && sent > this.reported && (sent - this.reported >= total * PROGRESS_STEP || sent === total)) {
+          this.reported = sent;
+          onProgress(sent, total);
+        }
+      },
+      cancel: async () => {
+        await chunks.return(undefined);
+      },
+    });
+  }
+
+  private async *chunks(): AsyncGenerator<Uint8Array, void, undefined> {
+    for (const part of this.parts) {
+      yield part.head;
+      if (part.file) {
+        const reader = part.file.stream().getReader();
+        try {
+          for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+            yield chunk.value;
+          }
+        } finally {
+          // Stops reading the file when the request is aborted part way
+          await reader.cancel();
+        }
+      } else {
+        yield part.value!;
+      }
+      yield CRLF;
+    }
+    yield this.tail();
+  }
+
+  private head(disposition: string, type?: string): Uint8Array {
+    const headers = [`--${this.boundary}`, `Content-Disposition: form-data; ${disposition}`];
+    if (type) {
+      headers.push(`Content-Type: ${type}`);
+    }
+    return encoder.encode(`${headers.join("\r\n")}\r\n\r\n`);
+  }
+
+  private tail(): Uint8Array {
+    return encoder.encode(`--${this.boundary}--\r\n`);
+  }
+}
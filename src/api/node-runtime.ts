@@ -0,0 +1,81 @@
+/**
+ * Node runtime for PostProxyClient: global fetch plus local file access
+ */
+
+import { createReadStream } from "node:fs";
+import { open, readFile, stat } from "node:fs/promises";
+import { basename } from "node:path";
+import { homedir } from "node:os";
+import type { ClientRuntime, FileAccess } from "./runtime.js";
+import { PACKAGE_VERSION } from "./client.js";
+
+/**
+ * Expand ~ to home directory in file paths
+ */
+export function expandPath(filePath: string): string {
+  if (filePath.startsWith("~/")) {
+    return filePath.replace("~", homedir());
+  }
+  return filePath;
+}
+
+/**
+ * A file as a web stream, read from disk as the stream is pulled
+ */
+function fileStream(filePath: string): ReadableStream<Uint8Array> {
+  const chunks: AsyncIterator<Buffer> = createReadStream(filePath)[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return?.();
+    },
+  });
+}
+
+export const nodeFileAccess: FileAccess = {
+  async readFile(filePath: string) {
+    const expandedPath = expandPath(filePath);
+    const content = await readFile(expandedPath);
+    return {
+      name: basename(expandedPath),
+      data: new Uint8Array(content),
+    };
+  },
+
+  async openFile(filePath: string) {
+    const expandedPath = expandPath(filePath);
+    const stats = await stat(expandedPath);
+    if (!stats.isFile()) {
+      throw new Error(`Not a file: ${expandedPath}`);
+    }
+    return {
+      name: basename(expandedPath),
+      size: stats.size,
+      async read(start: number, end: number) {
+        const handle = await open(expandedPath, "r");
+        try {
+          const buffer = new Uint8Array(Math.max(0, Math.min(end, stats.size) - start));
+          const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+          return buffer.subarray(0, bytesRead);
+        } finally {
+          await handle.close();
+        }
+      },
+      stream: () => fileStream(expandedPath),
+    };
+  },
+};
+
+export function createNodeRuntime(): ClientRuntime {
+  return {
+    files: nodeFileAccess,
+    userAgent: `postproxy-mcp/${PACKAGE_VERSION} (node ${process.version}; ${process.platform})`,
+  };
+}
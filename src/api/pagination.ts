@@ -0,0 +1,63 @@
+/**
+ * Helpers for walking the API's paginated list endpoints.
+ *
+ * List endpoints return a `{ total, page, per_page, data }` envelope with
+ * zero-indexed pages.
+ */
+
+/**
+ * Hard cap on how many items a single tool call may gather across pages
+ */
+export const MAX_PAGINATED_ITEMS = 1000;
+
+export interface PageEnvelope<T> {
+  total?: number;
+  page?: number;
+  per_page?: number;
+  data: T[];
+}
+
+/**
+ * Yield every item from consecutive pages, starting at startPage, until the
+ * envelope's total is reached or a short/empty page comes back
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<PageEnvelope<T>>,
+  startPage: number = 0
+): AsyncGenerator<T, void, undefined> {
+  for (let page = startPage; ; page++) {
+    const response = await fetchPage(page);
+    const data = Array.isArray(response.data) ? response.data : [];
+    yield* data;
+
+    if (data.length === 0) {
+      return;
+    }
+    const perPage = response.per_page || data.length;
+    if (typeof response.total === "number" && (page + 1) * perPage >= response.total) {
+      return;
+    }
+    if (data.length < perPage) {
+      return;
+    }
+  }
+}
+
+/**
+ * Gather up to maxItems items (never more than MAX_PAGINATED_ITEMS).
+ * `truncated` is true when more items were available.
+ */
+export async function collectItems<T>(
+  items: AsyncIterable<T>,
+  maxItems: number = MAX_PAGINATED_ITEMS
+): Promise<{ data: T[]; truncated: boolean }> {
+  const limit = Math.min(maxItems, MAX_PAGINATED_ITEMS);
+  const data: T[] = [];
+  for await (const item of items) {
+    if (data.length >= limit) {
+      return { data, truncated: true };
+    }
+    data.push(item);
+  }
+  return { data, truncated: false };
+}
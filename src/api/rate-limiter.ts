@@ -0,0 +1,212 @@
+/**
+ * Client-side rate limiting for PostProxy API requests.
+ *
+ * A token bucket caps the request rate and a concurrency limit caps requests in
+ * flight. When the API reports its own quota through X-RateLimit-* headers, the
+ * limiter pauses until the reset once the quota is exhausted, and spreads the
+ * last few requests of a window out until the reset. A request that would have to
+ * wait longer than maxWaitMs fails with RATE_LIMITED instead of blocking the call.
+ */
+
+import { createError, ErrorCodes } from "../utils/errors.js";
+
+export interface RateLimitOptions {
+  requestsPerSecond: number; // Sustained rate; also the burst size
+  maxConcurrency: number; // Requests allowed in flight at once
+  maxWaitMs: number; // Fail instead of waiting longer than this for a slot
+}
+
+/**
+ * Limiter state as reported by auth_status
+ */
+export interface RateLimitStatus {
+  requests_per_second: number;
+  max_concurrency: number;
+  in_flight: number;
+  queued: number;
+  limit?: number; // From X-RateLimit-Limit
+  remaining?: number; // From X-RateLimit-Remaining, minus requests sent since
+  reset_at?: string; // From X-RateLimit-Reset (ISO 8601)
+}
+
+export const DEFAULT_RATE_LIMIT_OPTIONS: RateLimitOptions = {
+  requestsPerSecond: 5,
+  maxConcurrency: 4,
+  maxWaitMs: 60000,
+};
+
+// Below this share of the server quota, spread the remaining requests until the reset
+const LOW_QUOTA_FRACTION = 0.1;
+
+// X-RateLimit-Reset values above this are epoch seconds; smaller ones are seconds from now
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+export class RateLimiter {
+  private options: RateLimitOptions;
+  private tokens: number;
+  private lastRefill: number;
+  private inFlight = 0;
+  private waiters: Array<{ grant: () => void; reject: (error: Error) => void }> = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private limit: number | undefined;
+  private remaining: number | undefined;
+  private resetAt: number | undefined; // Epoch milliseconds
+
+  constructor(options: Partial<RateLimitOptions> = {}) {
+    this.options = { ...DEFAULT_RATE_LIMIT_OPTIONS, ...options };
+    this.tokens = this.options.requestsPerSecond;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a slot to send a request. Resolves with a release function that must be
+   * called once the response has been received (or the request failed).
+   */
+  acquire(): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      this.waiters.push({
+        grant: () => {
+          let released = false;
+          resolve(() => {
+            if (released) return;
+            released = true;
+            this.inFlight--;
+            this.drain();
+          });
+        },
+        reject,
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * Adapt to the server's quota from X-RateLimit-Limit / -Remaining / -Reset headers
+   */
+  update(headers: Headers, now: number = Date.now()): void {
+    const limit = parseHeaderNumber(headers.get("x-ratelimit-limit"));
+    const remaining = parseHeaderNumber(headers.get("x-ratelimit-remaining"));
+    const reset = parseHeaderNumber(headers.get("x-ratelimit-reset"));
+
+    if (limit !== undefined) this.limit = limit;
+    if (remaining !== undefined) this.remaining = remaining;
+    if (reset !== undefined) {
+      this.resetAt = reset > EPOCH_SECONDS_THRESHOLD ? reset * 1000 : now + reset * 1000;
+    }
+  }
+
+  getStatus(now: number = Date.now()): RateLimitStatus {
+    const status: RateLimitStatus = {
+      requests_per_second: this.options.requestsPerSecond,
+      max_concurrency: this.options.maxConcurrency,
+      in_flight: this.inFlight,
+      queued: this.waiters.length,
+    };
+    if (this.limit !== undefined) status.limit = this.limit;
+    if (this.resetAt !== undefined && this.resetAt <= now) {
+      // The window has rolled over; the old remaining count no longer applies
+      return status;
+    }
+    if (this.remaining !== undefined) status.remaining = this.remaining;
+    if (this.resetAt !== undefined) status.reset_at = new Date(this.resetAt).toISOString();
+    return status;
+  }
+
+  /**
+   * Hand out slots to waiters while tokens, concurrency and server quota allow,
+   * otherwise schedule another attempt for when the next token is due
+   */
+  private drain(): void {
+    if (this.timer) {
+      return;
+    }
+    while (this.waiters.length > 0) {
+      if (this.inFlight >= this.options.maxConcurrency) {
+        return; // A release will drain again
+      }
+      const now = Date.now();
+      this.refill(now);
+      const waitMs = this.waitTime(now);
+      if (waitMs > this.options.maxWaitMs) {
+        // Every waiter would wait at least as long, so none of them should block
+        const error = this.waitTooLongError(waitMs);
+        for (const waiter of this.waiters.splice(0)) {
+          waiter.reject(error);
+        }
+        return;
+      }
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, waitMs);
+        return;
+      }
+      this.tokens -= 1;
+      if (this.remaining !== undefined && this.remaining > 0) {
+        this.remaining -= 1;
+      }
+      this.inFlight++;
+      this.waiters.shift()!.grant();
+    }
+  }
+
+  private waitTooLongError(waitMs: number): Error {
+    const seconds = Math.ceil(waitMs / 1000);
+    const quota = this.remaining === 0 && this.resetAt !== undefined
+      ? `the API quota is used up until ${new Date(this.resetAt).toISOString()}`
+      : "the API quota is nearly used up";
+    return createError(
+      ErrorCodes.RATE_LIMITED,
+      `Rate limited: ${quota}, so the request would wait ${seconds}s`,
+      { retry_after_seconds: seconds, ...(this.resetAt !== undefined && { reset_at: new Date(this.resetAt).toISOString() }) }
+    );
+  }
+
+  private refill(now: number): void {
+    if (this.resetAt !== undefined && this.resetAt <= now) {
+      // Server window has reset; forget the stale quota until the next response
+      this.remaining = undefined;
+      this.resetAt = undefined;
+    }
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.requestsPerSecond, this.tokens + elapsed * this.currentRate(now));
+    this.lastRefill = now;
+  }
+
+  private waitTime(now: number): number {
+    if (this.remaining === 0 && this.resetAt !== undefined) {
+      return Math.max(1, this.resetAt - now);
+    }
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.currentRate(now)) * 1000);
+  }
+
+  /**
+   * Token refill rate: the configured rate, slowed down to stretch a nearly exhausted
+   * server quota over the rest of its window
+   */
+  private currentRate(now: number): number {
+    const rate = this.options.requestsPerSecond;
+    if (
+      this.remaining === undefined ||
+      this.limit === undefined ||
+      this.resetAt === undefined ||
+      this.remaining > this.limit * LOW_QUOTA_FRACTION
+    ) {
+      return rate;
+    }
+    const secondsToReset = Math.max(1, (this.resetAt - now) / 1000);
+    return Math.max(0.01, Math.min(rate, this.remaining / secondsToReset));
+  }
+}
+
+function parseHeaderNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
@@ -0,0 +1,110 @@
+/**
+ * Retry policy for PostProxy API requests: which requests may be retried,
+ * and how long to wait between attempts (jittered exponential backoff, or
+ * the server's Retry-After when it sends one).
+ */
+
+export interface RetryOptions {
+  maxRetries: number; // Retries after the first attempt; 0 disables retries
+  baseDelayMs: number; // Backoff before the first retry, doubled on each attempt
+  maxDelayMs: number; // Upper bound for a single backoff
+  maxRetryAfterMs: number; // Give up instead of waiting when Retry-After asks for longer
+}
+
+/**
+ * One failed attempt that was retried, reported in debug logs and error details
+ */
+export interface RetryAttempt {
+  attempt: number; // 1-based attempt that failed
+  status?: number; // HTTP status, when a response was received
+  error?: string; // Network error message, when no response was received
+  delayMs: number; // Wait before the next attempt
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Whether a request can be sent again without risking a duplicate side effect.
+ * Safe methods always can; POSTs only when they carry an Idempotency-Key.
+ */
+export function isRetryableRequest(method: string, headers: Record<string, string>): boolean {
+  const upper = method.toUpperCase();
+  if (SAFE_METHODS.has(upper)) {
+    return true;
+  }
+  return upper === "POST" && Object.keys(headers).some((key) => key.toLowerCase() === "idempotency-key");
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Whether a fetch failure is a transient network error (connection reset, refused, DNS hiccup).
+ * Timeouts and aborts are not retried — the request may still be in flight server-side.
+ */
+export function isRetryableNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === "TimeoutError" || error.name === "AbortError") {
+    return false;
+  }
+  // undici reports network failures as TypeError("fetch failed") with the system error as cause
+  const cause = (error as { cause?: { code?: string } }).cause;
+  const code = cause?.code ?? (error as { code?: string }).code;
+  if (code && ["ECONNRESET", "ECONNREFUSED", "EPIPE", "ETIMEDOUT", "EAI_AGAIN", "UND_ERR_SOCKET"].includes(code)) {
+    return true;
+  }
+  return error instanceof TypeError;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Backoff before retrying after the given (1-based) failed attempt, with jitter
+ * (half fixed, half random) so concurrent sessions don't retry in lockstep
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Wait for `ms`, or less if the signal aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Runtime abstraction for PostProxyClient.
+ *
+ * The client and the tool handlers built on it run both under Node (stdio server)
+ * and inside the Cloudflare Worker. Anything runtime-specific — the HTTP
+ * implementation and access to the local filesystem — is injected through here.
+ */
+
+import type { RateLimitOptions } from "./rate-limiter.js";
+import type { RetryOptions } from "./retry.js";
+
+/**
+ * Minimal fetch signature used by the client
+ */
+export type FetchFn = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * A local file read for a multipart upload
+ */
+export interface LocalFile {
+  name: string; // File name sent with the multipart part
+  data: Uint8Array;
+}
+
+/**
+ * A local file opened for streaming: uploads read it in chunks rather than all at once
+ */
+export interface LocalFileHandle {
+  name: string; // File name sent with the multipart part
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>; // Bytes [start, end), for inspecting headers
+  stream(): ReadableStream<Uint8Array>; // The whole file; a new stream on every call
+}
+
+/**
+ * Access to local files referenced by path in media / cover_url fields.
+ * Runtimes without a filesystem (the Worker) simply don't provide one.
+ */
+export interface FileAccess {
+  readFile(filePath: string): Promise<LocalFile>;
+  openFile?(filePath: string): Promise<LocalFileHandle>; // Without it, files are read into memory
+}
+
+export interface ClientRuntime {
+  fetch?: FetchFn; // Defaults to the global fetch
+  files?: FileAccess; // Omit when local file paths can't be read
+  userAgent?: string;
+  retry?: Partial<RetryOptions>; // Overrides DEFAULT_RETRY_OPTIONS
+  rateLimit?: Partial<RateLimitOptions>; // Overrides DEFAULT_RATE_LIMIT_OPTIONS
+  cacheTtlMs?: number; // TTL for cached profile groups, profiles, placements and queues; 0 disables caching
+}
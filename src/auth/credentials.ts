@@ -2,6 +2,9 @@
  * Credentials management - reading API key from environment variables
  */
 
+import type { RateLimitOptions } from "../api/rate-limiter.js";
+import type { RetryOptions } from "../api/retry.js";
+
 const DEFAULT_BASE_URL = "https://api.postproxy.dev/api";
 
 /**
@@ -21,6 +24,41 @@ export function getBaseUrl(): string {
   return process.env.POSTPROXY_BASE_URL || DEFAULT_BASE_URL;
 }
 
+/**
+ * Get retry overrides from environment variables
+ * @returns Partial retry options; unset or invalid values fall back to the client defaults
+ */
+export function getRetryOptions(): Partial<RetryOptions> {
+  const maxRetries = parseInt(process.env.POSTPROXY_MAX_RETRIES ?? "", 10);
+  return Number.isInteger(maxRetries) && maxRetries >= 0 ? { maxRetries } : {};
+}
+
+/**
+ * Get rate limiter overrides from environment variables
+ * @returns Partial rate limit options; unset or invalid values fall back to the client defaults
+ */
+export function getRateLimitOptions(): Partial<RateLimitOptions> {
+  const options: Partial<RateLimitOptions> = {};
+  const requestsPerSecond = parseFloat(process.env.POSTPROXY_RATE_LIMIT_RPS ?? "");
+  if (Number.isFinite(requestsPerSecond) && requestsPerSecond > 0) {
+    options.requestsPerSecond = requestsPerSecond;
+  }
+  const maxConcurrency = parseInt(process.env.POSTPROXY_MAX_CONCURRENCY ?? "", 10);
+  if (Number.isInteger(maxConcurrency) && maxConcurrency > 0) {
+    options.maxConcurrency = maxConcurrency;
+  }
+  return options;
+}
+
+/**
+ * Get the cache TTL from environment variables (POSTPROXY_CACHE_TTL, in seconds)
+ * @returns TTL in milliseconds, or undefined to use the client default
+ */
+export function getCacheTtlMs(): number | undefined {
+  const seconds = parseFloat(process.env.POSTPROXY_CACHE_TTL ?? "");
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
 /**
  * Validate API key by making a test request (optional)
  * This can be used to verify the key is valid before using it
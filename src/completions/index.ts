@@ -0,0 +1,128 @@
+/**
+ * completion/complete: suggestions for the ID arguments of prompts and resource
+ * templates (profile_id, profile_group_id, queue_id, placement_id).
+ *
+ * Suggestions come from the client's cached reads and match the typed value against
+ * the ID and against human-readable names and usernames, so "acme link" finds the
+ * LinkedIn profile's hashid. Both runtimes answer through completeArgument.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { PostProxyClient } from "../api/client.js";
+import { PROMPT_DEFINITIONS } from "../prompts/index.js";
+import { RESOURCE_TEMPLATE_DEFINITIONS } from "../resources/index.js";
+import { logError } from "../utils/logger.js";
+
+// The most values a completion result may carry, per the MCP specification
+const MAX_VALUES = 100;
+
+export type CompletionReference = { type: "ref/prompt"; name: string } | { type: "ref/resource"; uri: string };
+
+interface Candidate {
+  value: string; // The argument value to suggest (an ID)
+  labels: string[]; // Names the user might type instead of the ID
+}
+
+// Other arguments the client has already filled in, used to narrow the candidates
+type CompletionContext = Record<string, string | undefined>;
+
+const COMPLETERS: Record<string, (client: PostProxyClient, context: CompletionContext) => Promise<Candidate[]>> = {
+  profile_group_id: async (client) =>
+    (await client.getProfileGroups()).map((g) => ({ value: g.id, labels: [g.name] })),
+  profile_id: async (client, context) =>
+    (await client.getProfiles(context.profile_group_id)).map((p) => ({
+      value: p.id,
+      labels: [p.name, p.username ?? "", p.platform],
+    })),
+  queue_id: async (client, context) =>
+    (await client.listQueues(context.profile_group_id)).map((q) => ({ value: q.id, labels: [q.name] })),
+  placement_id: async (client, context) => {
+    // Placements belong to a profile; without one there is nothing to suggest
+    if (!context.profile_id) {
+      return [];
+    }
+    return (await client.getPlacements(context.profile_id))
+      .filter((p): p is { id: string; name: string } => p.id !== null)
+      .map((p) => ({ value: p.id, labels: [p.name] }));
+  },
+};
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/^@/, "");
+}
+
+/**
+ * Rank a candidate against the typed value: 0 for an ID prefix, 1 for a name or word
+ * prefix, 2 for a substring anywhere, or null when it doesn't match
+ */
+function rank(candidate: Candidate, query: string): number | null {
+  if (!query) return 0;
+  const value = candidate.value.toLowerCase();
+  const labels = candidate.labels.filter(Boolean).map(normalize);
+  if (value.startsWith(query)) return 0;
+  if (labels.some((label) => label.startsWith(query) || label.split(/[\s_-]+/).some((word) => word.startsWith(query)))) {
+    return 1;
+  }
+  if (value.includes(query) || labels.some((label) => label.includes(query))) return 2;
+  return null;
+}
+
+/**
+ * Argument names the reference accepts. Unknown prompts and templates are invalid params.
+ */
+function argumentNames(ref: CompletionReference): string[] {
+  if (ref.type === "ref/prompt") {
+    const prompt = PROMPT_DEFINITIONS.find((p) => p.name === ref.name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+    }
+    return prompt.arguments.map((a) => a.name);
+  }
+  const template = RESOURCE_TEMPLATE_DEFINITIONS.find((t) => t.uriTemplate === ref.uri);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+  }
+  return [...template.uriTemplate.matchAll(/\{(\w+)\}/g)].map((m) => m[1]);
+}
+
+/**
+ * Suggest values for one argument of a prompt or resource template. Arguments without
+ * a completer get no suggestions, and lookups that fail are logged and treated the same,
+ * since completion is only ever a convenience.
+ */
+export async function completeArgument(
+  client: PostProxyClient,
+  ref: CompletionReference,
+  argument: { name: string; value: string },
+  context: CompletionContext = {}
+) {
+  const empty = { completion: { values: [] as string[], total: 0, hasMore: false } };
+  const completer = COMPLETERS[argument.name];
+  if (!argumentNames(ref).includes(argument.name) || !completer || !client.hasApiKey()) {
+    return empty;
+  }
+
+  let candidates: Candidate[];
+  try {
+    candidates = await completer(client, context);
+  } catch (error) {
+    logError(error as Error, `completion.complete ${argument.name}`);
+    return empty;
+  }
+
+  const query = normalize(argument.value);
+  const values = candidates
+    .map((candidate, index) => ({ candidate, index, rank: rank(candidate, query) }))
+    .filter((m): m is { candidate: Candidate; index: number; rank: number } => m.rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((m) => m.candidate.value)
+    .filter((value, i, all) => all.indexOf(value) === i);
+
+  return {
+    completion: {
+      values: values.slice(0, MAX_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_VALUES,
+    },
+  };
+}
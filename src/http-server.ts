@@ -0,0 +1,267 @@
+/**
+ * Streamable HTTP transport for the Node server (`postproxy-mcp --http`).
+ *
+ * Serves the same createMCPServer as stdio, one MCP session per client. Each
+ * request authenticates with its own PostProxy API key (Authorization: Bearer),
+ * so one instance can be shared by a team; a session stays bound to the key
+ * that initialized it. Sessions using the same key share one PostProxyClient,
+ * and with it the rate limiter and cache.
+ *
+ * Callers are remote, so by default their clients can't read local files (a media
+ * path would otherwise upload any file on the host) and a request without a key
+ * is rejected rather than using the operator's POSTPROXY_API_KEY. Both can be
+ * enabled by the operator.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server as HttpServer, type ServerResponse } from "node:http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Server as McpServer } from "@modelcontextprotocol/sdk/server/index.js";
+import { PACKAGE_VERSION, type PostProxyClient } from "./api/client.js";
+import type { FileAccess } from "./api/runtime.js";
+import { createMCPServer } from "./server.js";
+import { log, logError } from "./utils/logger.js";
+
+export const MCP_PATH = "/mcp";
+export const HEALTH_PATH = "/health";
+
+// Sessions with no requests for this long are closed
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// MCP messages are small; media is uploaded by URL or file path, never inline
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  defaultApiKey: string | null; // Used for requests without a bearer key; null requires one (--allow-default-key)
+  localFiles?: FileAccess; // Passed to clients so media can be local paths; omitted by default (--allow-local-files)
+  createClient: (apiKey: string, files: FileAccess | undefined) => PostProxyClient;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  keyHash: Buffer;
+  lastSeen: number;
+}
+
+export interface RunningHttpServer {
+  server: HttpServer;
+  port: number;
+  /**
+   * Close every session (ending open SSE streams) and stop listening
+   */
+  close(): Promise<void>;
+}
+
+interface SharedClient {
+  client: PostProxyClient;
+  sessions: number;
+}
+
+/**
+ * Start the HTTP server. Resolves once it is listening.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+  const clients = new Map<string, SharedClient>(); // Keyed by hex key hash
+
+  const acquireClient = (apiKey: string, keyHash: Buffer): PostProxyClient => {
+    const id = keyHash.toString("hex");
+    let shared = clients.get(id);
+    if (!shared) {
+      shared = { client: options.createClient(apiKey, options.localFiles), sessions: 0 };
+      clients.set(id, shared);
+    }
+    shared.sessions++;
+    return shared.client;
+  };
+
+  const releaseClient = (keyHash: Buffer): void => {
+    const id = keyHash.toString("hex");
+    const shared = clients.get(id);
+    if (shared && --shared.sessions <= 0) {
+      clients.delete(id);
+    }
+  };
+
+  const openSession = async (apiKey: string, keyHash: Buffer): Promise<StreamableHTTPServerTransport> => {
+    const server = await createMCPServer(acquireClient(apiKey, keyHash));
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { transport, server, keyHash, lastSeen: Date.now() });
+        log(`HTTP session ${sessionId} opened (${sessions.size} active)`);
+      },
+    });
+    let closed = false;
+    transport.onclose = () => {
+      if (closed) return;
+      closed = true;
+      releaseClient(keyHash);
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        log(`HTTP session ${transport.sessionId} closed (${sessions.size} active)`);
+      }
+    };
+    await server.connect(transport);
+    return transport;
+  };
+
+  const handleMcp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const apiKey = readApiKey(req) ?? options.defaultApiKey;
+    if (!apiKey) {
+      res.setHeader("WWW-Authenticate", `Bearer realm="postproxy-mcp"`);
+      sendJson(res, 401, {
+        error: "Missing API key. Provide via Authorization header: 'Authorization: Bearer YOUR_API_KEY'",
+      });
+      return;
+    }
+    const keyHash = hashKey(apiKey);
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        const tooLarge = (error as Error).message === "Request body too large";
+        sendJsonRpcError(res, tooLarge ? 413 : 400, -32700, tooLarge ? "Request body too large" : "Parse error");
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      if (!timingSafeEqual(session.keyHash, keyHash)) {
+        sendJsonRpcError(res, 403, -32000, "API key does not match the key this session was opened with");
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "POST" && isInitializeRequest(body)) {
+      const transport = await openSession(apiKey, keyHash);
+      await transport.handleRequest(req, res, body);
+      if (!transport.sessionId) {
+        // Initialization was rejected, so no session will ever reference this transport
+        await transport.close();
+      }
+      return;
+    }
+
+    sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+  };
+
+  const httpServer = createServer((req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === HEALTH_PATH) {
+      if (req.method !== "GET") {
+        sendJson(res, 405, { error: "Method Not Allowed" });
+        return;
+      }
+      sendJson(res, 200, {
+        status: "ok",
+        name: "postproxy-mcp",
+        version: PACKAGE_VERSION,
+        transport: "streamable-http",
+        sessions: sessions.size,
+      });
+      return;
+    }
+
+    if (path !== MCP_PATH) {
+      sendJson(res, 404, { error: "Not Found" });
+      return;
+    }
+
+    handleMcp(req, res).catch((error) => {
+      logError(error as Error, "http");
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        log(`HTTP session ${sessionId} expired after inactivity`);
+        void session.transport.close();
+      }
+    }
+  }, SESSION_SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  return {
+    server: httpServer,
+    port: typeof address === "object" && address ? address.port : options.port,
+    async close() {
+      clearInterval(sweep);
+      await Promise.all([...sessions.values()].map((session) => session.transport.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+/**
+ * API key from the Authorization bearer token or the legacy X-PostProxy-API-Key header
+ */
+function readApiKey(req: IncomingMessage): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.slice("Bearer ".length).trim() || null;
+  }
+  const legacy = req.headers["x-postproxy-api-key"];
+  return typeof legacy === "string" && legacy ? legacy : null;
+}
+
+function hashKey(apiKey: string): Buffer {
+  return createHash("sha256").update(apiKey).digest();
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
@@ -4,12 +4,66 @@
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { getApiKey, getBaseUrl } from "./auth/credentials.js";
+import {
+  getApiKey,
+  getBaseUrl,
+  getCacheTtlMs,
+  getRateLimitOptions,
+  getRetryOptions,
+} from "./auth/credentials.js";
 import { PostProxyClient } from "./api/client.js";
+import { createNodeRuntime } from "./api/node-runtime.js";
+import type { FileAccess } from "./api/runtime.js";
 import { createMCPServer } from "./server.js";
+import { startHttpServer } from "./http-server.js";
 import { log, logError } from "./utils/logger.js";
 import { createError, ErrorCodes } from "./utils/errors.js";
 
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+
+interface CliOptions {
+  http: boolean;
+  port: number;
+  host: string;
+  allowLocalFiles: boolean; // HTTP mode: let callers upload files from this host by path
+  allowDefaultKey: boolean; // HTTP mode: use POSTPROXY_API_KEY for requests without a key
+}
+
+/**
+ * Parse `--http`, `--port N`, `--host H` (also accepted as `--port=N` / `--host=H`),
+ * `--allow-local-files` and `--allow-default-key`
+ */
+function parseCliOptions(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    http: false,
+    port: DEFAULT_HTTP_PORT,
+    host: DEFAULT_HTTP_HOST,
+    allowLocalFiles: false,
+    allowDefaultKey: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split("=", 2);
+    const value = () => inlineValue ?? argv[++i];
+    if (flag === "--http") {
+      options.http = true;
+    } else if (flag === "--port") {
+      const port = Number(value());
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw createError(ErrorCodes.VALIDATION_ERROR, `Invalid --port: ${argv[i]}`);
+      }
+      options.port = port;
+    } else if (flag === "--host") {
+      options.host = value();
+    } else if (flag === "--allow-local-files") {
+      options.allowLocalFiles = true;
+    } else if (flag === "--allow-default-key") {
+      options.allowDefaultKey = true;
+    }
+  }
+  return options;
+}
+
 async function main() {
   // Check if setup command was called
   if (process.argv[2] === "setup") {
@@ -19,10 +73,39 @@ async function main() {
   }
 
   try {
+    const cli = parseCliOptions(process.argv.slice(2));
+
     // Read environment variables
     const apiKey = getApiKey();
     const baseUrl = getBaseUrl();
 
+    const runtime = createNodeRuntime();
+    const createClient = (key: string, files: FileAccess | undefined) =>
+      new PostProxyClient(key, baseUrl, {
+        ...runtime,
+        files,
+        retry: getRetryOptions(),
+        rateLimit: getRateLimitOptions(),
+        cacheTtlMs: getCacheTtlMs(),
+      });
+
+    if (cli.http) {
+      // Clients send their own API key and can't read local files unless the operator allows it
+      const httpServer = await startHttpServer({
+        port: cli.port,
+        host: cli.host,
+        defaultApiKey: cli.allowDefaultKey ? apiKey : null,
+        localFiles: cli.allowLocalFiles ? runtime.files : undefined,
+        createClient,
+      });
+      log(`PostProxy MCP Server listening on http://${cli.host}:${httpServer.port}/mcp`);
+
+      const shutdown = () => httpServer.close().then(() => process.exit(0));
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
+      return;
+    }
+
     if (!apiKey) {
       logError(
         createError(
@@ -34,11 +117,8 @@ async function main() {
       process.exit(1);
     }
 
-    // Create API client
-    const client = new PostProxyClient(apiKey, baseUrl);
-
     // Create MCP server
-    const server = await createMCPServer(client);
+    const server = await createMCPServer(createClient(apiKey, runtime.files));
 
     // Setup stdio transport
     const transport = new StdioServerTransport();
@@ -0,0 +1,253 @@
+/**
+ * MCP prompts: parameterized templates for common social-media workflows, so a
+ * client can start a multi-step flow from a menu instead of a hand-written brief.
+ *
+ * Each prompt pre-fills its message with live context gathered through the same
+ * handlers as profiles_list, queues_get and history_list. Both runtimes serve
+ * prompts/list and prompts/get through the functions below.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { PostProxyClient } from "../api/client.js";
+import { handleHistoryList } from "../tools/history.js";
+import { handleProfilesList } from "../tools/profiles.js";
+import { handleQueuesGet } from "../tools/queue.js";
+import { createError, ErrorCodes, MCPError } from "../utils/errors.js";
+import { logError } from "../utils/logger.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+  build: (client: PostProxyClient, args: Record<string, string | undefined>) => Promise<string>;
+}
+
+type ProfileSummary = { id: string; name: string; platform: string; profile_group_id: string };
+type JobSummary = { post_id: string; content_preview: string; created_at?: string; overall_status: string };
+
+async function listProfiles(client: PostProxyClient, profileGroupId?: string): Promise<ProfileSummary[]> {
+  const result = await handleProfilesList(client, { profile_group_id: profileGroupId });
+  return (result.structuredContent as { profiles: ProfileSummary[] }).profiles;
+}
+
+async function recentJobs(client: PostProxyClient, maxItems: number): Promise<JobSummary[]> {
+  const result = await handleHistoryList(client, { max_items: maxItems });
+  return (result.structuredContent as { jobs: JobSummary[] }).jobs;
+}
+
+function formatProfiles(profiles: ProfileSummary[]): string {
+  if (profiles.length === 0) {
+    return "(no connected profiles)";
+  }
+  return profiles.map((p) => `- ${p.name} (${p.platform}, id: ${p.id})`).join("\n");
+}
+
+function formatJobs(jobs: JobSummary[]): string {
+  if (jobs.length === 0) {
+    return "(none)";
+  }
+  return jobs
+    .map((j) => `- ${j.post_id} [${j.overall_status}] ${j.created_at ?? ""}: ${j.content_preview.replace(/\s+/g, " ")}`)
+    .join("\n");
+}
+
+function fenced(data: unknown): string {
+  return "```json\n" + JSON.stringify(data, null, 2) + "\n```";
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "announce_launch",
+    title: "Announce a Launch",
+    description: "Draft and publish a launch announcement across every profile in a profile group",
+    arguments: [
+      { name: "profile_group_id", description: "Profile group whose profiles should carry the announcement", required: true },
+      { name: "product", description: "What is launching", required: true },
+      { name: "details", description: "Key points, audience or tone to get across" },
+      { name: "link", description: "URL to include in the announcement" },
+    ],
+    build: async (client, args) => {
+      const profiles = await listProfiles(client, args.profile_group_id);
+      return [
+        `I want to announce the launch of ${args.product} on every profile in profile group ${args.profile_group_id}.`,
+        ...(args.details ? [`Key points: ${args.details}`] : []),
+        ...(args.link ? [`Include this link: ${args.link}`] : []),
+        "",
+        "Connected profiles in this group:",
+        formatProfiles(profiles),
+        "",
+        "Please:",
+        "1. Draft one announcement, then adapt it per platform with the `platforms` parameter of post_publish (respect each network's length limits and conventions; use a thread on X or Threads if it doesn't fit).",
+        "2. Show me the drafts per platform and wait for my approval.",
+        "3. Once approved, publish with post_publish to all of the profiles above and check the result with post_status.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "weekly_engagement_report",
+    title: "Weekly Engagement Report",
+    description: "Summarize the last seven days of engagement for one profile",
+    arguments: [
+      { name: "profile_id", description: "Profile to report on", required: true },
+      { name: "placement_id", description: "Page, board or organization to narrow the profile stats to (see profiles_placements)" },
+    ],
+    build: async (client, args) => {
+      const profile = (await listProfiles(client)).find((p) => p.id === args.profile_id);
+      if (!profile) {
+        throw createError(ErrorCodes.TARGET_NOT_FOUND, `Profile ${args.profile_id} not found`);
+      }
+      const to = new Date();
+      const from = new Date(to.getTime() - 7 * DAY_MS);
+      const jobs = (await recentJobs(client, 100)).filter((j) => j.created_at && new Date(j.created_at) >= from);
+
+      return [
+        `Write a weekly engagement report for ${profile.name} (${profile.platform}, id: ${profile.id}) covering ${from.toISOString()} to ${to.toISOString()}.`,
+        "",
+        "Posts created in that period (all profiles):",
+        formatJobs(jobs),
+        "",
+        "Please:",
+        `1. Call profiles_stats with profile_id "${profile.id}"${args.placement_id ? ` and placement_id "${args.placement_id}"` : ""} and the period above for follower and reach trends.`,
+        `2. Call post_stats for the posts above with profiles "${profile.id}" and the same period; skip posts that didn't go to this profile.`,
+        "3. Report the headline numbers and their change over the week, the best and worst performing posts with a likely reason, and two or three concrete suggestions for next week.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "triage_comments",
+    title: "Triage Comments",
+    description: "Find the unanswered comments on a post and draft replies for review",
+    arguments: [
+      { name: "post_id", description: "Post whose comments should be triaged", required: true },
+      { name: "profile_id", description: "Only triage comments on this profile (default: every profile the post went to)" },
+    ],
+    build: async (client, args) => {
+      const post = await client.getPost(args.post_id!);
+      const outcomes = post.platforms ?? [];
+      // Outcomes name the profile they went to; older ones only name the platform
+      const profiles = (await listProfiles(client)).filter((p) =>
+        args.profile_id
+          ? p.id === args.profile_id
+          : outcomes.some((o) => (o.profile_id ? o.profile_id === p.id : o.platform === p.platform))
+      );
+      const body = post.body || post.content || "";
+
+      return [
+        `Triage the unanswered comments on post ${post.id}.`,
+        "",
+        "Post:",
+        fenced({
+          body,
+          platforms: outcomes.map((p) => ({ platform: p.platform, status: p.status, url: p.url })),
+        }),
+        "",
+        "Profiles to check:",
+        formatProfiles(profiles),
+        "",
+        "Please:",
+        `1. For each profile above, list the comments with comments_list (post_id "${post.id}", all: true).`,
+        "2. Treat a comment as unanswered when none of its replies are by the profile itself (compare author_username with the profile name).",
+        "3. Group the unanswered comments into questions, complaints, praise and spam, and draft a short reply for each question and complaint.",
+        "4. Show me the drafts and wait for approval before replying with comments_create. Suggest comments_hide for spam, but don't hide anything without asking.",
+      ].join("\n");
+    },
+  },
+  {
+    name: "fill_queue",
+    title: "Fill a Queue",
+    description: "Draft enough posts to fill a queue's timeslots for the next seven days",
+    arguments: [
+      { name: "queue_id", description: "Queue to fill", required: true },
+      { name: "topics", description: "Themes, campaigns or sources to draw from" },
+    ],
+    build: async (client, args) => {
+      const queue = (await handleQueuesGet(client, { queue_id: args.queue_id! })).structuredContent as {
+        id: string;
+        name: string;
+        timezone: string;
+        enabled: boolean;
+        profile_group_id: string;
+        posts_count: number;
+        timeslots_formatted: string[];
+      };
+      const [profiles, jobs] = await Promise.all([
+        listProfiles(client, queue.profile_group_id),
+        recentJobs(client, 20),
+      ]);
+
+      return [
+        `Fill the queue "${queue.name}" (id: ${queue.id}) for the next seven days.`,
+        args.topics ? `Topics to draw from: ${args.topics}` : "Pick topics that fit the recent posts below.",
+        "",
+        `Timeslots (${queue.timezone}):`,
+        queue.timeslots_formatted.length > 0 ? queue.timeslots_formatted.map((t) => `- ${t}`).join("\n") : "(none)",
+        `Posts already queued: ${queue.posts_count}${queue.enabled ? "" : " (the queue is paused)"}`,
+        "",
+        "Profiles in the queue's profile group:",
+        formatProfiles(profiles),
+        "",
+        "Recent posts (avoid repeating them):",
+        formatJobs(jobs),
+        "",
+        "Please:",
+        "1. Work out how many timeslots fall in the next seven days, minus the posts already queued.",
+        "2. Draft that many varied posts, adapted per platform where it helps.",
+        "3. Show me the drafts and wait for approval.",
+        `4. Queue each approved post with post_publish using queue_id "${queue.id}" and the profiles above; the queue assigns the timeslots.`,
+      ].join("\n");
+    },
+  },
+];
+
+const PROMPTS_BY_NAME = new Map(PROMPTS.map((prompt) => [prompt.name, prompt]));
+
+/**
+ * Prompt definitions as advertised in prompts/list
+ */
+export const PROMPT_DEFINITIONS = PROMPTS.map(({ name, title, description, arguments: args }) => ({
+  name,
+  title,
+  description,
+  arguments: args,
+}));
+
+/**
+ * Build a prompt by name. Unknown prompts, missing arguments and missing targets
+ * are invalid-params protocol errors; other failures are internal errors.
+ */
+export async function getPrompt(client: PostProxyClient, name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS_BY_NAME.get(name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const missing = prompt.arguments.filter((a) => a.required && !args[a.name]).map((a) => a.name);
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.join(", ")}`);
+  }
+
+  try {
+    const text = await prompt.build(client, args);
+    return {
+      description: prompt.description,
+      messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+    };
+  } catch (error) {
+    logError(error as Error, `prompts.get ${name}`);
+    const code = error instanceof MCPError ? error.code : ErrorCodes.API_ERROR;
+    const invalid = code === ErrorCodes.TARGET_NOT_FOUND || code === ErrorCodes.VALIDATION_ERROR;
+    throw new McpError(invalid ? ErrorCode.InvalidParams : ErrorCode.InternalError, `Failed to build prompt ${name}: ${(error as Error).message}`, {
+      prompt: name,
+      code,
+      ...(error instanceof MCPError && error.details),
+    });
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * MCP resources: read-only views of PostProxy data addressed by postproxy:// URIs,
+ * so clients can attach a post, queue or chat as context without a tool call.
+ *
+ * Both runtimes serve resources/list, resources/templates/list and resources/read
+ * through the functions below, like tools go through callTool.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { PostProxyClient } from "../api/client.js";
+import { createError, ErrorCodes, MCPError } from "../utils/errors.js";
+import { logError } from "../utils/logger.js";
+
+export const RESOURCE_SCHEME = "postproxy://";
+const MIME_TYPE = "application/json";
+
+// JSON-RPC error code for an unknown resource, as used in the MCP specification
+export const RESOURCE_NOT_FOUND = -32002;
+
+interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  title: string;
+  description: string;
+  pattern: RegExp; // Matches a concrete URI; groups are the template variables, in order
+  read: (client: PostProxyClient, ...params: string[]) => Promise<unknown>;
+}
+
+const PROFILE_GROUPS_URI = `${RESOURCE_SCHEME}profile-groups`;
+
+const RESOURCE_TEMPLATES: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: PROFILE_GROUPS_URI,
+    name: "profile-groups",
+    title: "Profile Groups",
+    description: "All profile groups in the workspace",
+    pattern: /^postproxy:\/\/profile-groups$/,
+    read: (client) => client.getProfileGroups(),
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}profiles/{profile_id}`,
+    name: "profile",
+    title: "Profile",
+    description: "A connected social media profile",
+    pattern: /^postproxy:\/\/profiles\/([^/]+)$/,
+    read: async (client, profileId) => {
+      const profile = (await client.getProfiles()).find((p) => p.id === profileId);
+      if (!profile) {
+        throw createError(ErrorCodes.TARGET_NOT_FOUND, `Profile ${profileId} not found`);
+      }
+      return profile;
+    },
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}queues/{queue_id}`,
+    name: "queue",
+    title: "Queue",
+    description: "A posting queue with its timeslots and post count",
+    pattern: /^postproxy:\/\/queues\/([^/]+)$/,
+    read: (client, queueId) => client.getQueue(queueId),
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}posts/{post_id}`,
+    name: "post",
+    title: "Post",
+    description: "A post with its per-platform status, media and thread",
+    pattern: /^postproxy:\/\/posts\/([^/]+)$/,
+    read: (client, postId) => client.getPost(postId),
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}chats/{chat_id}/messages`,
+    name: "chat-messages",
+    title: "Chat Messages",
+    description: "The most recent page of messages in a direct message chat",
+    pattern: /^postproxy:\/\/chats\/([^/]+)\/messages$/,
+    read: (client, chatId) => client.listMessages(chatId),
+  },
+];
+
+/**
+ * URI templates for resources/templates/list
+ */
+export const RESOURCE_TEMPLATE_DEFINITIONS = RESOURCE_TEMPLATES.filter((t) => t.uriTemplate.includes("{")).map(
+  ({ uriTemplate, name, title, description }) => ({ uriTemplate, name, title, description, mimeType: MIME_TYPE })
+);
+
+/**
+ * Concrete resources for resources/list: the profile groups, every profile and every queue.
+ * Posts and chats are too numerous to list; clients address them through the templates.
+ */
+export async function listResources(client: PostProxyClient) {
+  const resources: Array<{ uri: string; name: string; title?: string; description?: string; mimeType: string }> = [
+    {
+      uri: PROFILE_GROUPS_URI,
+      name: "profile-groups",
+      title: "Profile Groups",
+      description: "All profile groups in the workspace",
+      mimeType: MIME_TYPE,
+    },
+  ];
+  if (!client.hasApiKey()) {
+    return { resources };
+  }
+
+  // A failed listing shouldn't hide the rest; the resources stay readable by URI
+  const [profiles, queues] = await Promise.all([
+    client.getProfiles().catch((error) => {
+      logError(error as Error, "resources.list (profiles)");
+      return [];
+    }),
+    client.listQueues().catch((error) => {
+      logError(error as Error, "resources.list (queues)");
+      return [];
+    }),
+  ]);
+  for (const profile of profiles) {
+    resources.push({
+      uri: `${RESOURCE_SCHEME}profiles/${encodeURIComponent(profile.id)}`,
+      name: profile.name,
+      description: `${profile.platform} profile`,
+      mimeType: MIME_TYPE,
+    });
+  }
+  for (const queue of queues) {
+    resources.push({
+      uri: `${RESOURCE_SCHEME}queues/${encodeURIComponent(queue.id)}`,
+      name: queue.name,
+      description: queue.description ?? "Posting queue",
+      mimeType: MIME_TYPE,
+    });
+  }
+  return { resources };
+}
+
+/**
+ * Read a resource by URI. Unknown URIs and missing targets are reported as
+ * resource-not-found protocol errors.
+ */
+export async function readResource(client: PostProxyClient, uri: string) {
+  for (const template of RESOURCE_TEMPLATES) {
+    const match = template.pattern.exec(uri);
+    if (!match) continue;
+
+    try {
+      const data = await template.read(client, ...match.slice(1).map(decodeURIComponent));
+      return {
+        contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+      };
+    } catch (error) {
+      logError(error as Error, `resources.read ${uri}`);
+      if (error instanceof MCPError && error.code === ErrorCodes.TARGET_NOT_FOUND) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+      }
+      const code = error instanceof MCPError ? error.code : ErrorCodes.API_ERROR;
+      throw new McpError(ErrorCode.InternalError, `Failed to read ${uri}: ${(error as Error).message}`, {
+        uri,
+        code,
+        ...(error instanceof MCPError && error.details),
+      });
+    }
+  }
+  throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+}
@@ -0,0 +1,148 @@
+/**
+ * resources/subscribe for posts: a background poller per subscribed post that
+ * sends notifications/resources/updated whenever the post's status changes.
+ *
+ * A change is any difference in the overall status (as reported by post_status)
+ * or in a platform's status. Polling stops once the post reaches a terminal
+ * status or is deleted, on unsubscribe, and when the session closes.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import type { PostProxyClient } from "../api/client.js";
+import type { PostDetails } from "../types/index.js";
+import { ErrorCodes, MCPError } from "../utils/errors.js";
+import { log, logError } from "../utils/logger.js";
+import { getOverallStatus, isTerminalStatus } from "../utils/post-status.js";
+import { RESOURCE_NOT_FOUND } from "./index.js";
+
+export const DEFAULT_POST_POLL_INTERVAL_MS = 10_000;
+
+const POST_URI_PATTERN = /^postproxy:\/\/posts\/([^/]+)$/;
+
+interface PostSubscription {
+  postId: string;
+  state: string; // Last seen status signature
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Status signature: overall status plus every platform's status
+ */
+function statusSignature(post: PostDetails): string {
+  const platforms = (post.platforms ?? []).map((p) => `${p.platform}:${p.status}`).join(",");
+  return `${getOverallStatus(post)}|${platforms}`;
+}
+
+export class PostSubscriptions {
+  private subscriptions = new Map<string, PostSubscription>(); // Keyed by URI
+
+  constructor(
+    private client: PostProxyClient,
+    private notifyUpdated: (uri: string) => Promise<void>,
+    private intervalMs: number = DEFAULT_POST_POLL_INTERVAL_MS
+  ) {}
+
+  /**
+   * Start watching a post. Reads it once to check it exists; a post that is
+   * already in a terminal status is accepted but never polled.
+   */
+  async subscribe(uri: string): Promise<void> {
+    const match = POST_URI_PATTERN.exec(uri);
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Subscriptions are only supported for postproxy://posts/{post_id} resources: ${uri}`
+      );
+    }
+    if (this.subscriptions.has(uri)) {
+      return;
+    }
+
+    const postId = decodeURIComponent(match[1]);
+    let post: PostDetails;
+    try {
+      post = await this.client.getPost(postId);
+    } catch (error) {
+      if (error instanceof MCPError && error.code === ErrorCodes.TARGET_NOT_FOUND) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+      }
+      throw error;
+    }
+
+    const subscription: PostSubscription = { postId, state: statusSignature(post) };
+    this.subscriptions.set(uri, subscription);
+    if (!isTerminalStatus(getOverallStatus(post))) {
+      this.schedule(uri, subscription);
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    const subscription = this.subscriptions.get(uri);
+    if (subscription) {
+      clearTimeout(subscription.timer);
+      this.subscriptions.delete(uri);
+    }
+  }
+
+  /**
+   * Stop every poller (the session is closing)
+   */
+  close(): void {
+    for (const uri of [...this.subscriptions.keys()]) {
+      this.unsubscribe(uri);
+    }
+  }
+
+  private schedule(uri: string, subscription: PostSubscription): void {
+    subscription.timer = setTimeout(() => {
+      void this.poll(uri, subscription);
+    }, this.intervalMs);
+    // Watching a post shouldn't keep the process alive on its own
+    subscription.timer.unref?.();
+  }
+
+  private async poll(uri: string, subscription: PostSubscription): Promise<void> {
+    let post: PostDetails;
+    try {
+      post = await this.client.getPost(subscription.postId);
+    } catch (error) {
+      if (this.subscriptions.get(uri) !== subscription) {
+        return;
+      }
+      if (error instanceof MCPError && error.code === ErrorCodes.TARGET_NOT_FOUND) {
+        // Deleted: tell the client once (a read now fails) and stop
+        this.subscriptions.delete(uri);
+        await this.notify(uri);
+        return;
+      }
+      // Transient failures (the client already retried) just wait for the next poll
+      logError(error as Error, `resources.subscribe ${uri}`);
+      this.schedule(uri, subscription);
+      return;
+    }
+
+    if (this.subscriptions.get(uri) !== subscription) {
+      return; // Unsubscribed while the request was in flight
+    }
+
+    const state = statusSignature(post);
+    if (state !== subscription.state) {
+      subscription.state = state;
+      await this.notify(uri);
+    }
+
+    if (isTerminalStatus(getOverallStatus(post))) {
+      log(`Post ${subscription.postId} reached ${getOverallStatus(post)}; stopped polling`);
+      return;
+    }
+    this.schedule(uri, subscription);
+  }
+
+  private async notify(uri: string): Promise<void> {
+    try {
+      await this.notifyUpdated(uri);
+    } catch (error) {
+      logError(error as Error, `resources.updated ${uri}`);
+    }
+  }
+}
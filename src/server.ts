@@ -1,1473 +1,42 @@
 /**
- * MCP Server setup and tool registration
+ * MCP Server setup and tool, resource and prompt registration
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { ListToolsRequestSchema, CallToolRequestSchema } from "@modelcontextprotocol/sdk/types.js";
-import type { PostProxyClient } from "./api/client.js";
-import { handleAuthStatus } from "./tools/auth.js";
-import { handleProfilesList, handleProfileGroupsList, handleProfileGroupsInitializeConnection, handleProfilesPlacements, handleProfilesStats } from "./tools/profiles.js";
-import {
-  handlePostPublish,
-  handlePostStatus,
-  handlePostUpdate,
-  handlePostDelete,
-  handlePostDeleteOnPlatform,
-  handlePostPublishDraft,
-  handlePostStats,
-} from "./tools/post.js";
-import { handleHistoryList } from "./tools/history.js";
-import { handleUploadCreate } from "./tools/upload.js";
-import {
-  handleQueuesList,
-  handleQueuesGet,
-  handleQueuesCreate,
-  handleQueuesUpdate,
-  handleQueuesDelete,
-  handleQueuesNextSlot,
-} from "./tools/queue.js";
-import {
-  handleCommentsList,
-  handleCommentsGet,
-  handleCommentsCreate,
-  handleCommentsDelete,
-  handleCommentsHide,
-  handleCommentsUnhide,
-  handleCommentsLike,
-  handleCommentsUnlike,
-} from "./tools/comment.js";
-import {
-  handleProfileCommentsList,
-  handleProfileCommentsGet,
-  handleProfileCommentsCreate,
-  handleProfileCommentsDelete,
-} from "./tools/profile-comment.js";
 import {
-  handleDmChatsList,
-  handleDmChatCreate,
-  handleDmChatGet,
-  handleDmMessagesList,
-  handleDmMessageSend,
-  handleDmMessageGet,
-  handleDmMessageEdit,
-  handleDmMessageReact,
-  handleDmMessageUnreact,
-  handleDmChatArchive,
-  handleDmChatUnarchive,
-  handleDmCommentPrivateReply,
-} from "./tools/dm.js";
-import { createError, ErrorCodes } from "./utils/errors.js";
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { PostProxyClient } from "./api/client.js";
+import { callTool, TOOL_DEFINITIONS, type ToolContext } from "./tools/index.js";
+import { listResources, readResource, RESOURCE_TEMPLATE_DEFINITIONS } from "./resources/index.js";
+import { PostSubscriptions } from "./resources/subscriptions.js";
+import { getPrompt, PROMPT_DEFINITIONS } from "./prompts/index.js";
+import { completeArgument } from "./completions/index.js";
 import { logToolCall } from "./utils/logger.js";
 
 /**
- * Tool definitions for the PostProxy MCP server.
+ * Tool definitions for the PostProxy MCP server, derived from the tool registry.
  * Exported for potential reuse in other contexts (e.g., Cloudflare Workers).
  */
-export const TOOL_DEFINITIONS = [
-  {
-    name: "auth_status",
-    description: "Check authentication status, API configuration, and workspace information",
-    annotations: {
-      title: "Check Auth Status",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {},
-    },
-  },
-  {
-    name: "profile_groups_list",
-    description: "List all profile groups accessible with your API key. Profile groups are organizational containers (e.g. per brand or client) that hold related social media profiles. Use the returned group `id` to filter profiles_list by profile_group_id.",
-    annotations: {
-      title: "List Profile Groups",
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {},
-    },
-  },
-  {
-    name: "profile_groups_initialize_connection",
-    description: "Generate a URL to connect a new social media profile to a profile group (initiates the OAuth/connect flow). For bluesky, pass identifier + app_password. For telegram, pass bot_token. The returned URL should be opened by the user to complete the connection.",
-    annotations: {
-      title: "Initialize Profile Connection",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_group_id: {
-          type: "string",
-          description: "Profile group ID (hashid) to connect a profile to",
-        },
-        platform: {
-          type: "string",
-          description: "Platform to connect (e.g. 'instagram', 'linkedin', 'bluesky', 'telegram')",
-        },
-        identifier: {
-          type: "string",
-          description: "Bluesky handle (e.g. yourname.bsky.social). Required for bluesky.",
-        },
-        app_password: {
-          type: "string",
-          description: "Bluesky app password (bsky.app/settings/app-passwords). Required for bluesky.",
-        },
-        bot_token: {
-          type: "string",
-          description: "Telegram bot token from @BotFather. Required for telegram.",
-        },
-      },
-      required: ["profile_group_id", "platform"],
-    },
-  },
-  {
-    name: "profiles_list",
-    description: "List all available social media profiles for posting. Optionally filter by profile_group_id.",
-    annotations: {
-      title: "List Profiles",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_group_id: {
-          type: "string",
-          description: "Optional profile group ID (hashid). If provided, only profiles in this group are returned.",
-        },
-      },
-    },
-  },
-  {
-    name: "upload_create",
-    description:
-      "Create a temporary file upload URL for sandboxed environments. Returns a `key`, an `upload_url`, and `expires_in` (seconds). Flow: (1) call this tool, (2) POST the raw file bytes to the returned `upload_url` (valid for `expires_in` seconds), which responds with `{\"url\": \"https://...\"}`, (3) pass that returned `url` in the `media` array of post_publish (or post_update). The upload host is `tmpfiles.postproxy.dev` — that domain must be whitelisted/allowlisted in the sandbox's network egress rules for the upload to succeed. Only use this when running against the remote (hosted) MCP server: if you are running the local (stdio) MCP server, do NOT use this — instead pass local file paths directly in the `media` array, which uploads them via multipart.",
-    annotations: {
-      title: "Create Upload URL",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {},
-    },
-  },
-  {
-    name: "post_publish",
-    description: "Publish a post to specified social media profiles. Supports text content, media attachments, scheduling, drafts, threads (X and Threads only), and platform-specific customization via the 'platforms' parameter.",
-    annotations: {
-      title: "Publish Post",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        content: {
-          type: "string",
-          description: "Post content text (caption/description)",
-        },
-        profiles: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of profile IDs (hashids) or platform names (e.g., 'linkedin', 'instagram', 'twitter'). When using platform names, posts to the first connected profile for that platform.",
-        },
-        schedule: {
-          type: "string",
-          description: "Optional ISO 8601 scheduled time (e.g., '2024-12-31T23:59:59Z')",
-        },
-        media: {
-          type: "array",
-          items: { type: "string" },
-          description: "Optional array of media URLs or local file paths (images or videos). File paths can be absolute (/path/to/file.jpg), relative (./image.png), or use ~ for home directory (~/Pictures/photo.jpg)",
-        },
-        idempotency_key: {
-          type: "string",
-          description: "Optional idempotency key for request deduplication",
-        },
-        require_confirmation: {
-          type: "boolean",
-          description: "If true, return summary without publishing (dry run)",
-        },
-        draft: {
-          type: "boolean",
-          description: "If true, creates a draft post that won't publish automatically",
-        },
-        platforms: {
-          type: "object",
-          description: "Platform-specific parameters. Keys are platform names, values are parameter objects. Use this to add collaborators, set video titles, privacy settings, etc.",
-          properties: {
-            instagram: {
-              type: "object",
-              description: "Instagram: format (post|reel|story), collaborators (array of usernames), first_comment (string), cover_url (reel thumbnail — URL or local file path; local paths are uploaded as cover_file), audio_name (string), trial_strategy (MANUAL|SS_PERFORMANCE), thumb_offset (string in ms)",
-              additionalProperties: true,
-            },
-            youtube: {
-              type: "object",
-              description: "YouTube: title (string), privacy_status (public|unlisted|private), cover_url (custom thumbnail — URL or local file path; local paths are uploaded as cover_file), made_for_kids (bool), tags (array of strings), category_id (string, defaults to '22' People & Blogs), contains_synthetic_media (bool, disclose AI-generated content)",
-              additionalProperties: true,
-            },
-            tiktok: {
-              type: "object",
-              description: "TikTok: format (video|image), privacy_status (PUBLIC_TO_EVERYONE|MUTUAL_FOLLOW_FRIENDS|FOLLOWER_OF_CREATOR|SELF_ONLY), photo_cover_index (integer, image only), auto_add_music (bool, image only), made_with_ai (bool, video only), disable_comment (bool), disable_duet (bool, video only), disable_stitch (bool, video only), brand_content_toggle (bool), brand_organic_toggle (bool)",
-              additionalProperties: true,
-            },
-            facebook: {
-              type: "object",
-              description: "Facebook: format (post|story|reel), title (string, reel only), first_comment (string), page_id (string, use profiles.placements to get available pages)",
-              additionalProperties: true,
-            },
-            linkedin: {
-              type: "object",
-              description: "LinkedIn: organization_id (string for company pages)",
-              additionalProperties: true,
-            },
-            pinterest: {
-              type: "object",
-              description: "Pinterest: cover_url (cover image for video pins — URL or local file path; local paths are uploaded as cover_file), board_id (string), title (string), link (string)",
-              additionalProperties: true,
-            },
-            twitter: {
-              type: "object",
-              description: "Twitter/X: No platform-specific parameters available. Supports threads.",
-              additionalProperties: true,
-            },
-            threads: {
-              type: "object",
-              description: "Threads: No platform-specific parameters available. Supports threads.",
-              additionalProperties: true,
-            },
-            bluesky: {
-              type: "object",
-              description: "Bluesky: No platform-specific parameters available. Supports threads. Auto-converts @handles, #tags, and URLs into clickable facets; link cards are generated from URLs when no media is attached.",
-              additionalProperties: true,
-            },
-            telegram: {
-              type: "object",
-              description: "Telegram: chat_id (string, required — destination channel/chat ID from profiles_placements), parse_mode ('HTML'|'MarkdownV2'; omit for plain text), disable_link_preview (bool), disable_notification (bool). Character limit 4,096 for text-only / 1,024 with media.",
-              additionalProperties: true,
-            },
-            google_business: {
-              type: "object",
-              description: "Google Business: format ('standard'|'event'|'offer', default 'standard'), location_id (string, required — full resource path 'accounts/X/locations/Y' from profiles_placements), language_code (BCP47, e.g. 'en'; defaults to 'en'), cta_action_type ('LEARN_MORE'|'BOOK'|'ORDER'|'SHOP'|'SIGN_UP'|'CALL'), cta_url (HTTPS; required for every CTA except CALL). format='event' additional: event_title (required), event_start_date+event_end_date (YYYY-MM-DD, required), event_start_time+event_end_time (HH:MM, optional). format='offer' additional: event_start_date+event_end_date (required, validity window), event_title (optional, defaults to 'Special Offer'), offer_coupon_code (string), offer_redeem_url (string), offer_terms (string). Media: 1 image (jpg/png), max 5MB, min 400x300px (recommended 1200x900). No video. Text-only allowed. Character limit 1,500 (summary).",
-              additionalProperties: true,
-            },
-          },
-          additionalProperties: true,
-        },
-        thread: {
-          type: "array",
-          description: "Optional array of thread child posts (supported on X/Twitter and Threads only). The parent post is published first, then each child is published as a reply in order.",
-          items: {
-            type: "object",
-            properties: {
-              body: {
-                type: "string",
-                description: "Text content for this thread post",
-              },
-              media: {
-                type: "array",
-                items: { type: "string" },
-                description: "Optional array of media URLs for this thread post",
-              },
-            },
-            required: ["body"],
-          },
-        },
-        queue_id: {
-          type: "string",
-          description: "Optional queue ID to add the post to. The queue will automatically assign a timeslot. Do not use together with 'schedule'.",
-        },
-        queue_priority: {
-          type: "string",
-          enum: ["high", "medium", "low"],
-          description: "Optional priority when adding to a queue (default: medium). Higher priority posts get earlier timeslots.",
-        },
-      },
-      required: ["content", "profiles"],
-    },
-  },
-  {
-    name: "post_status",
-    description: "Get status of a published post by post ID",
-    annotations: {
-      title: "Get Post Status",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID from post.publish response",
-        },
-      },
-      required: ["post_id"],
-    },
-  },
-  {
-    name: "post_publish_draft",
-    description: "Publish a draft post. Only posts with draft status can be published using this endpoint",
-    annotations: {
-      title: "Publish Draft",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID of the draft post to publish",
-        },
-      },
-      required: ["post_id"],
-    },
-  },
-  {
-    name: "post_update",
-    description: "Update an existing post. Only drafts or scheduled posts (more than 5 min before publish) can be updated. Only send fields you want to change — omitted fields are left unchanged.",
-    annotations: {
-      title: "Update Post",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID to update",
-        },
-        content: {
-          type: "string",
-          description: "Updated text content",
-        },
-        profiles: {
-          type: "array",
-          items: { type: "string" },
-          description: "Replace all profiles (array of profile IDs or platform names). Full replace — omit to keep existing.",
-        },
-        schedule: {
-          type: "string",
-          description: "Updated ISO 8601 scheduled time",
-        },
-        draft: {
-          type: "boolean",
-          description: "Set or unset draft status",
-        },
-        media: {
-          type: "array",
-          items: { type: "string" },
-          description: "Replace all media (array of media URLs). Full replace — send empty array to remove all. Omit to keep existing.",
-        },
-        platforms: {
-          type: "object",
-          description: "Platform-specific parameters (merged with existing). Same structure as post.publish.",
-          additionalProperties: true,
-        },
-        thread: {
-          type: "array",
-          description: "Replace all thread children (full replace). Send empty array to remove all. Omit to keep existing.",
-          items: {
-            type: "object",
-            properties: {
-              body: { type: "string", description: "Text content for this thread post" },
-              media: { type: "array", items: { type: "string" }, description: "Optional media URLs" },
-            },
-            required: ["body"],
-          },
-        },
-        queue_id: {
-          type: "string",
-          description: "Queue ID to assign the post to",
-        },
-        queue_priority: {
-          type: "string",
-          enum: ["high", "medium", "low"],
-          description: "Queue priority",
-        },
-      },
-      required: ["post_id"],
-    },
-  },
-  {
-    name: "post_delete",
-    description:
-      "Delete a post from the database. By default does NOT remove from social media platforms. Pass delete_on_platform=true to also remove from all published platforms before DB deletion.",
-    annotations: {
-      title: "Delete Post",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID to delete",
-        },
-        delete_on_platform: {
-          type: "boolean",
-          description:
-            "If true, also deletes the post from all published platforms before removing it from the database. Defaults to false.",
-        },
-      },
-      required: ["post_id"],
-    },
-  },
-  {
-    name: "post_delete_on_platform",
-    description:
-      "Delete a published post from social media platforms WITHOUT removing it from the database. Async via background job. Optionally narrow scope by post_profile_id (covers entire thread for that profile), profile_id, or network. With no scope, deletes from all published platforms. Supported: Facebook, Threads, X (Twitter), LinkedIn, Pinterest, YouTube. NOT supported: Instagram, TikTok.",
-    annotations: {
-      title: "Delete Post on Platform",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        post_profile_id: {
-          type: "string",
-          description:
-            "ID of a specific post profile. Resolves to underlying profile and deletes across the full thread (parent + children).",
-        },
-        profile_id: {
-          type: "string",
-          description: "ID of a profile. Deletes all post profiles for this profile on the post.",
-        },
-        network: {
-          type: "string",
-          description:
-            "Network name (e.g. twitter, facebook, threads, linkedin, pinterest, youtube). Deletes all post profiles for this network on the post.",
-        },
-      },
-      required: ["post_id"],
-    },
-  },
-  {
-    name: "history_list",
-    description: "List recent post jobs",
-    annotations: {
-      title: "List Post History",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        limit: {
-          type: "number",
-          description: "Maximum number of jobs to return (default: 10)",
-        },
-      },
-    },
-  },
-  {
-    name: "post_stats",
-    description: "Get stats snapshots for one or more posts. Returns all matching snapshots so you can see trends over time. Supports filtering by profiles/networks and timespan.",
-    annotations: {
-      title: "Get Post Stats",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_ids: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of post hashids (max 50)",
-        },
-        profiles: {
-          type: "string",
-          description: "Optional comma-separated list of profile hashids or network names (e.g. 'instagram,twitter' or 'abc123,def456' or mixed)",
-        },
-        from: {
-          type: "string",
-          description: "Optional ISO 8601 timestamp — only include snapshots recorded at or after this time",
-        },
-        to: {
-          type: "string",
-          description: "Optional ISO 8601 timestamp — only include snapshots recorded at or before this time",
-        },
-      },
-      required: ["post_ids"],
-    },
-  },
-  {
-    name: "profiles_placements",
-    description: "List available placements for a profile. For Facebook: business pages. For LinkedIn: personal profile and organizations. For Pinterest: boards. For Telegram: channels the bot can post to. For Google Business: locations (returned as full resource paths 'accounts/X/locations/Y' to pass as location_id). Available for facebook, linkedin, pinterest, telegram, and google_business profiles.",
-    annotations: {
-      title: "List Profile Placements",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_id: {
-          type: "string",
-          description: "Profile hashid",
-        },
-      },
-      required: ["profile_id"],
-    },
-  },
-  {
-    name: "profiles_stats",
-    description: "Get the follower/engagement timeseries for a profile. Returns daily snapshots (captured every ~23h). placement_id is required for facebook, linkedin, and telegram profiles (get it from profiles_placements); omit for other networks. Fields in records[].stats are platform-native and not normalized.",
-    annotations: {
-      title: "Get Profile Stats",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_id: {
-          type: "string",
-          description: "Profile hashid",
-        },
-        placement_id: {
-          type: "string",
-          description: "Required for facebook, linkedin, and telegram profiles. Get it from profiles_placements. Omit for instagram/threads/youtube/twitter/tiktok/pinterest/bluesky.",
-        },
-        from: {
-          type: "string",
-          description: "Optional ISO 8601 timestamp — only include snapshots recorded at or after this time",
-        },
-        to: {
-          type: "string",
-          description: "Optional ISO 8601 timestamp — only include snapshots recorded at or before this time",
-        },
-      },
-      required: ["profile_id"],
-    },
-  },
-  {
-    name: "queues_list",
-    description: "List all posting queues. Queues automatically schedule posts into recurring weekly timeslots with priority-based ordering.",
-    annotations: {
-      title: "List Queues",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_group_id: {
-          type: "string",
-          description: "Optional profile group ID to filter queues",
-        },
-      },
-    },
-  },
-  {
-    name: "queues_get",
-    description: "Get details of a single posting queue including its timeslots and post count",
-    annotations: {
-      title: "Get Queue Details",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        queue_id: {
-          type: "string",
-          description: "Queue ID",
-        },
-      },
-      required: ["queue_id"],
-    },
-  },
-  {
-    name: "queues_create",
-    description: "Create a new posting queue with weekly timeslots. Use profiles.list to find the profile_group_id.",
-    annotations: {
-      title: "Create Queue",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_group_id: {
-          type: "string",
-          description: "Profile group ID to connect the queue to",
-        },
-        name: {
-          type: "string",
-          description: "Queue name",
-        },
-        description: {
-          type: "string",
-          description: "Optional description",
-        },
-        timezone: {
-          type: "string",
-          description: "IANA timezone name (e.g. 'America/New_York'). Default: UTC",
-        },
-        jitter: {
-          type: "number",
-          description: "Random offset in minutes (0-60) applied to scheduled times for natural posting patterns. Default: 0",
-        },
-        timeslots: {
-          type: "array",
-          description: "Initial weekly timeslots",
-          items: {
-            type: "object",
-            properties: {
-              day: {
-                type: "number",
-                description: "Day of week: 0=Sunday, 1=Monday, ..., 6=Saturday",
-              },
-              time: {
-                type: "string",
-                description: "Time in 24-hour HH:MM format (e.g. '09:00', '14:30')",
-              },
-            },
-            required: ["day", "time"],
-          },
-        },
-      },
-      required: ["profile_group_id", "name"],
-    },
-  },
-  {
-    name: "queues_update",
-    description: "Update a queue's settings, timeslots, or pause/unpause it. Changes to timezone or timeslots trigger rearrangement of all queued posts.",
-    annotations: {
-      title: "Update Queue",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        queue_id: {
-          type: "string",
-          description: "Queue ID to update",
-        },
-        name: {
-          type: "string",
-          description: "New queue name",
-        },
-        description: {
-          type: "string",
-          description: "New description",
-        },
-        timezone: {
-          type: "string",
-          description: "IANA timezone name",
-        },
-        enabled: {
-          type: "boolean",
-          description: "Set to false to pause the queue, true to unpause",
-        },
-        jitter: {
-          type: "number",
-          description: "Random offset in minutes (0-60)",
-        },
-        timeslots: {
-          type: "array",
-          description: "Timeslots to add or remove. To add: {day, time}. To remove: {id, _destroy: true}.",
-          items: {
-            type: "object",
-            properties: {
-              day: { type: "number", description: "Day of week (0-6) — for adding" },
-              time: { type: "string", description: "Time HH:MM — for adding" },
-              id: { type: "number", description: "Timeslot ID — for removing" },
-              _destroy: { type: "boolean", description: "Set to true to remove a timeslot by id" },
-            },
-          },
-        },
-      },
-      required: ["queue_id"],
-    },
-  },
-  {
-    name: "queues_delete",
-    description: "Delete a posting queue. Posts in the queue will have their queue reference removed but will not be deleted.",
-    annotations: {
-      title: "Delete Queue",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: true,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        queue_id: {
-          type: "string",
-          description: "Queue ID to delete",
-        },
-      },
-      required: ["queue_id"],
-    },
-  },
-  {
-    name: "queues_next_slot",
-    description: "Get the next available timeslot for a queue",
-    annotations: {
-      title: "Get Next Queue Slot",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        queue_id: {
-          type: "string",
-          description: "Queue ID",
-        },
-      },
-      required: ["queue_id"],
-    },
-  },
-  {
-    name: "comments_list",
-    description: "List comments on a published post. Returns paginated top-level comments with nested replies. Not all platforms support comments.",
-    annotations: {
-      title: "List Comments",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile ID to identify which platform's comments to retrieve",
-        },
-        page: {
-          type: "number",
-          description: "Page number, zero-indexed (default: 0)",
-        },
-        per_page: {
-          type: "number",
-          description: "Number of top-level comments per page (default: 20)",
-        },
-      },
-      required: ["post_id", "profile_id"],
-    },
-  },
-  {
-    name: "comments_get",
-    description: "Get a single comment with its replies",
-    annotations: {
-      title: "Get Comment",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        comment_id: {
-          type: "string",
-          description: "Comment ID (Postproxy ID or platform external ID)",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile ID",
-        },
-      },
-      required: ["post_id", "comment_id", "profile_id"],
-    },
-  },
-  {
-    name: "comments_create",
-    description: "Create a comment or reply on a published post. The comment is published to the platform asynchronously. Supported on Instagram, Facebook, Threads, YouTube, and LinkedIn.",
-    annotations: {
-      title: "Create Comment",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile ID",
-        },
-        text: {
-          type: "string",
-          description: "Comment text content",
-        },
-        parent_id: {
-          type: "string",
-          description: "Optional ID of comment to reply to (Postproxy ID or external ID). Omit to comment on the post itself.",
-        },
-      },
-      required: ["post_id", "profile_id", "text"],
-    },
-  },
-  {
-    name: "comments_delete",
-    description: "Delete a comment from the platform asynchronously. Supported on Instagram, Facebook, YouTube, and LinkedIn. Not supported on Threads.",
-    annotations: {
-      title: "Delete Comment",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        comment_id: {
-          type: "string",
-          description: "Comment ID (Postproxy ID or external ID)",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile ID",
-        },
-      },
-      required: ["post_id", "comment_id", "profile_id"],
-    },
-  },
-  {
-    name: "comments_hide",
-    description: "Hide a comment on the platform asynchronously. Supported on Instagram, Facebook, and Threads.",
-    annotations: {
-      title: "Hide Comment",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        comment_id: {
-          type: "string",
-          description: "Comment ID (Postproxy ID or external ID)",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile ID",
-        },
-      },
-      required: ["post_id", "comment_id", "profile_id"],
-    },
-  },
-  {
-    name: "comments_unhide",
-    description: "Unhide a previously hidden comment on the platform asynchronously. Supported on Instagram, Facebook, and Threads.",
-    annotations: {
-      title: "Unhide Comment",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        comment_id: {
-          type: "string",
-          description: "Comment ID (Postproxy ID or external ID)",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile ID",
-        },
-      },
-      required: ["post_id", "comment_id", "profile_id"],
-    },
-  },
-  {
-    name: "comments_like",
-    description: "Like a comment on the platform asynchronously. Currently only supported on Facebook.",
-    annotations: {
-      title: "Like Comment",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        comment_id: {
-          type: "string",
-          description: "Comment ID (Postproxy ID or external ID)",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile ID",
-        },
-      },
-      required: ["post_id", "comment_id", "profile_id"],
-    },
-  },
-  {
-    name: "comments_unlike",
-    description: "Remove a like from a comment on the platform asynchronously. Currently only supported on Facebook.",
-    annotations: {
-      title: "Unlike Comment",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post ID",
-        },
-        comment_id: {
-          type: "string",
-          description: "Comment ID (Postproxy ID or external ID)",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile ID",
-        },
-      },
-      required: ["post_id", "comment_id", "profile_id"],
-    },
-  },
-  {
-    name: "profile_comments_list",
-    description: "List profile-scoped comments. Currently surfaces Google Business reviews (reviews live on a location, not a post, so they cannot be reached via comments_list). Each item may include nested replies. Reviews sync from Google twice daily (06:00 and 18:00 UTC).",
-    annotations: {
-      title: "List Profile Comments",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_id: {
-          type: "string",
-          description: "Profile hashid (must be a google_business profile today).",
-        },
-        placement_id: {
-          type: "string",
-          description: "Optional. Filter to reviews on a single location — pass the 'accounts/X/locations/Y' path from profiles_placements.",
-        },
-        page: {
-          type: "number",
-          description: "Page number (zero-indexed). Default 0.",
-        },
-        per_page: {
-          type: "number",
-          description: "Items per page. Default 20.",
-        },
-      },
-      required: ["profile_id"],
-    },
-  },
-  {
-    name: "profile_comments_get",
-    description: "Get a single profile comment (review or your reply) by Postproxy hashid or the platform's external_id (e.g. 'accounts/.../locations/.../reviews/...').",
-    annotations: {
-      title: "Get Profile Comment",
-      readOnlyHint: true,
-      destructiveHint: false,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_id: {
-          type: "string",
-          description: "Profile hashid",
-        },
-        comment_id: {
-          type: "string",
-          description: "Postproxy hashid OR the platform's external_id (the full resource path is accepted).",
-        },
-      },
-      required: ["profile_id", "comment_id"],
-    },
-  },
-  {
-    name: "profile_comments_create",
-    description: "Reply to an existing profile comment (Google Business review). Top-level comments are NOT allowed — you can only reply to a review that already exists. parent_id is required. Response is returned immediately with status 'pending'; a background job then publishes to Google and updates status to 'published' or 'failed'.",
-    annotations: {
-      title: "Reply to Profile Comment",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_id: {
-          type: "string",
-          description: "Profile hashid (google_business profile).",
-        },
-        parent_id: {
-          type: "string",
-          description: "Postproxy hashid OR external_id of the review being replied to.",
-        },
-        text: {
-          type: "string",
-          description: "Reply body.",
-        },
-      },
-      required: ["profile_id", "parent_id", "text"],
-    },
-  },
-  {
-    name: "profile_comments_delete",
-    description: "Delete your reply to a profile comment. Only your own reply is removed — the underlying review is NOT deleted (Google does not allow businesses to delete reviews). Returns {accepted: true} while the delete is dispatched asynchronously.",
-    annotations: {
-      title: "Delete Profile Comment Reply",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_id: {
-          type: "string",
-          description: "Profile hashid",
-        },
-        comment_id: {
-          type: "string",
-          description: "Postproxy hashid OR external_id of YOUR reply to remove.",
-        },
-      },
-      required: ["profile_id", "comment_id"],
-    },
-  },
-  {
-    name: "dm_chats_list",
-    description: "List direct-message chats (conversations) for a DM-capable profile, ordered by most recent activity. Supported on Facebook (Messenger), Instagram, Telegram, and Bluesky.",
-    annotations: {
-      title: "List Chats",
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_id: {
-          type: "string",
-          description: "Profile hashid (Facebook, Instagram, Telegram, or Bluesky)",
-        },
-        page: {
-          type: "number",
-          description: "Page number (zero-indexed, default 0)",
-        },
-        per_page: {
-          type: "number",
-          description: "Items per page (default 20)",
-        },
-        before: {
-          type: "string",
-          description: "ISO 8601 timestamp — only chats with last_message_at before this",
-        },
-        after: {
-          type: "string",
-          description: "ISO 8601 timestamp — only chats with last_message_at after this",
-        },
-      },
-      required: ["profile_id"],
-    },
-  },
-  {
-    name: "dm_chat_create",
-    description: "Find or create a chat for a participant on a DM-capable profile (idempotent — returns the existing chat if one already exists). Use before sending a message to a participant the profile has not yet messaged.",
-    annotations: {
-      title: "Create or Find Chat",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        profile_id: {
-          type: "string",
-          description: "Profile hashid",
-        },
-        participant_external_id: {
-          type: "string",
-          description: "Platform participant ID (Instagram-scoped user ID, Facebook PSID, Telegram user id, or Bluesky DID)",
-        },
-        participant_username: {
-          type: "string",
-          description: "Optional display username for the participant",
-        },
-        participant_name: {
-          type: "string",
-          description: "Optional display name for the participant",
-        },
-      },
-      required: ["profile_id", "participant_external_id"],
-    },
-  },
-  {
-    name: "dm_chat_get",
-    description: "Get a single chat by Postproxy hashid or by the platform's external_conversation_id.",
-    annotations: {
-      title: "Get Chat",
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        chat_id: {
-          type: "string",
-          description: "Chat hashid OR external_conversation_id",
-        },
-      },
-      required: ["chat_id"],
-    },
-  },
-  {
-    name: "dm_messages_list",
-    description: "List messages in a chat, most recent first. Optionally filter by direction or status.",
-    annotations: {
-      title: "List Messages",
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        chat_id: {
-          type: "string",
-          description: "Chat hashid OR external_conversation_id",
-        },
-        page: {
-          type: "number",
-          description: "Page number (zero-indexed, default 0)",
-        },
-        per_page: {
-          type: "number",
-          description: "Items per page (default 20)",
-        },
-        direction: {
-          type: "string",
-          enum: ["inbound", "outbound"],
-          description: "Filter by direction",
-        },
-        status: {
-          type: "string",
-          description: "Filter by status (pending, published, failed_waiting_for_retry, failed, received)",
-        },
-      },
-      required: ["chat_id"],
-    },
-  },
-  {
-    name: "dm_message_send",
-    description: "Send an outbound direct message. Provide EITHER body (text) OR media (a single attachment), not both. The message is queued and delivered asynchronously (returns status: pending). Outside Meta's 24h messaging window, pass tag: HUMAN_AGENT (Facebook/Instagram only). reply_to_external_id and reply_markup are Telegram-only.",
-    annotations: {
-      title: "Send Message",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        chat_id: {
-          type: "string",
-          description: "Chat hashid OR external_conversation_id",
-        },
-        body: {
-          type: "string",
-          description: "Message text. Required when media is empty (provide body OR media, not both).",
-        },
-        media: {
-          type: "array",
-          items: { type: "string" },
-          description: "Up to one media attachment as a URL or local file path (absolute /path/to/file.jpg, relative ./image.png, or ~/Pictures/photo.jpg). Max 1 attachment. Not supported on Bluesky.",
-        },
-        tag: {
-          type: "string",
-          enum: ["HUMAN_AGENT"],
-          description: "Message tag for sending outside the 24h window. Facebook/Instagram only — ignored on Telegram and Bluesky.",
-        },
-        reply_to_external_id: {
-          type: "string",
-          description: "Telegram only. Platform message_id of the message to thread under.",
-        },
-        reply_markup: {
-          type: "object",
-          additionalProperties: true,
-          description: "Telegram only. reply_markup payload — inline keyboard, custom reply keyboard, force-reply, or remove-keyboard.",
-        },
-      },
-      required: ["chat_id"],
-    },
-  },
-  {
-    name: "dm_message_get",
-    description: "Get a single message by Postproxy hashid or by the platform's external_id.",
-    annotations: {
-      title: "Get Message",
-      readOnlyHint: true,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: false,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        message_id: {
-          type: "string",
-          description: "Message hashid OR external_id",
-        },
-      },
-      required: ["message_id"],
-    },
-  },
-  {
-    name: "dm_message_edit",
-    description: "Edit a previously-sent outbound message on the platform. Telegram only — Facebook and Instagram do not expose outbound edits. Provide body (new text/caption) and/or reply_markup (pass {} to clear the keyboard); at least one is required.",
-    annotations: {
-      title: "Edit Message",
-      readOnlyHint: false,
-      destructiveHint: true,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        message_id: {
-          type: "string",
-          description: "Message hashid OR external_id",
-        },
-        body: {
-          type: "string",
-          description: "New message text (or new caption for media messages).",
-        },
-        reply_markup: {
-          type: "object",
-          additionalProperties: true,
-          description: "New inline keyboard / reply_markup. Pass an empty object {} to remove the existing keyboard.",
-        },
-      },
-      required: ["message_id"],
-    },
-  },
-  {
-    name: "dm_message_react",
-    description: "Add a reaction from your business account to a message. Facebook Messenger and Instagram Direct only (not Telegram or Bluesky). A second react replaces the previous one.",
-    annotations: {
-      title: "React to Message",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        message_id: {
-          type: "string",
-          description: "Message hashid OR external_id",
-        },
-        reaction: {
-          type: "string",
-          description: "Named reaction, defaults to 'love'. On Instagram only 'love' is accepted; on Facebook Messenger common names (love, like, dislike, smile, wow, sad, angry) are auto-translated to emoji.",
-        },
-        emoji: {
-          type: "string",
-          description: "Unicode emoji. Forwarded to Instagram; on Facebook Messenger it overrides 'reaction' as the literal value sent.",
-        },
-      },
-      required: ["message_id"],
-    },
-  },
-  {
-    name: "dm_message_unreact",
-    description: "Remove your business account's reaction from a message. Facebook Messenger and Instagram Direct only.",
-    annotations: {
-      title: "Remove Reaction",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        message_id: {
-          type: "string",
-          description: "Message hashid OR external_id",
-        },
-      },
-      required: ["message_id"],
-    },
-  },
-  {
-    name: "dm_chat_archive",
-    description: "Archive (mute) a chat. Bluesky only — calls Bluesky's muteConvo. Returns the chat with archived: true.",
-    annotations: {
-      title: "Archive Chat",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        chat_id: {
-          type: "string",
-          description: "Chat hashid OR external_conversation_id",
-        },
-      },
-      required: ["chat_id"],
-    },
-  },
-  {
-    name: "dm_chat_unarchive",
-    description: "Unarchive (unmute) a chat. Bluesky only — calls Bluesky's unmuteConvo. Returns the chat with archived: false.",
-    annotations: {
-      title: "Unarchive Chat",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: true,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        chat_id: {
-          type: "string",
-          description: "Chat hashid OR external_conversation_id",
-        },
-      },
-      required: ["chat_id"],
-    },
-  },
-  {
-    name: "dm_comment_private_reply",
-    description: "Send a DM to the author of a comment, in reply to that comment (Meta 'Private Replies'). Bypasses the 24h window (comments up to 7 days old) and creates/reuses a chat automatically. One private reply per comment, ever. Instagram and Facebook (Page comments) only.",
-    annotations: {
-      title: "Private Reply to Comment",
-      readOnlyHint: false,
-      destructiveHint: false,
-      idempotentHint: false,
-      openWorldHint: true,
-    },
-    inputSchema: {
-      type: "object",
-      properties: {
-        post_id: {
-          type: "string",
-          description: "Post hashid",
-        },
-        comment_id: {
-          type: "string",
-          description: "Comment hashid OR external ID",
-        },
-        profile_id: {
-          type: "string",
-          description: "Profile hashid (Instagram or Facebook only)",
-        },
-        text: {
-          type: "string",
-          description: "DM text",
-        },
-      },
-      required: ["post_id", "comment_id", "profile_id", "text"],
-    },
-  },
-] as const;
+export { TOOL_DEFINITIONS };
 
-export async function createMCPServer(client: PostProxyClient): Promise<Server> {
+export interface MCPServerOptions {
+  postPollIntervalMs?: number; // How often subscribed posts are polled for status changes
+}
+
+export async function createMCPServer(
+  client: PostProxyClient,
+  options: MCPServerOptions = {}
+): Promise<Server> {
   const server = new Server(
     {
       name: "postproxy-mcp",
@@ -1476,6 +45,9 @@ export async function createMCPServer(client: PostProxyClient): Promise<Server>
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+        completions: {},
       },
     }
   );
@@ -1488,114 +60,64 @@ export async function createMCPServer(client: PostProxyClient): Promise<Server>
   });
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
 
     logToolCall(name, args);
 
-    try {
-      switch (name) {
-        case "auth_status":
-          return await handleAuthStatus(client);
-        case "profiles_list":
-          return await handleProfilesList(client, args as any);
-        case "profile_groups_list":
-          return await handleProfileGroupsList(client);
-        case "profile_groups_initialize_connection":
-          return await handleProfileGroupsInitializeConnection(client, args as any);
-        case "upload_create":
-          return await handleUploadCreate(client);
-        case "post_publish":
-          return await handlePostPublish(client, args as any);
-        case "post_status":
-          return await handlePostStatus(client, args as any);
-        case "post_publish_draft":
-          return await handlePostPublishDraft(client, args as any);
-        case "post_update":
-          return await handlePostUpdate(client, args as any);
-        case "post_delete":
-          return await handlePostDelete(client, args as any);
-        case "post_delete_on_platform":
-          return await handlePostDeleteOnPlatform(client, args as any);
-        case "history_list":
-          return await handleHistoryList(client, args as any);
-        case "post_stats":
-          return await handlePostStats(client, args as any);
-        case "profiles_placements":
-          return await handleProfilesPlacements(client, args as any);
-        case "profiles_stats":
-          return await handleProfilesStats(client, args as any);
-        case "queues_list":
-          return await handleQueuesList(client, args as any);
-        case "queues_get":
-          return await handleQueuesGet(client, args as any);
-        case "queues_create":
-          return await handleQueuesCreate(client, args as any);
-        case "queues_update":
-          return await handleQueuesUpdate(client, args as any);
-        case "queues_delete":
-          return await handleQueuesDelete(client, args as any);
-        case "queues_next_slot":
-          return await handleQueuesNextSlot(client, args as any);
-        case "comments_list":
-          return await handleCommentsList(client, args as any);
-        case "comments_get":
-          return await handleCommentsGet(client, args as any);
-        case "comments_create":
-          return await handleCommentsCreate(client, args as any);
-        case "comments_delete":
-          return await handleCommentsDelete(client, args as any);
-        case "comments_hide":
-          return await handleCommentsHide(client, args as any);
-        case "comments_unhide":
-          return await handleCommentsUnhide(client, args as any);
-        case "comments_like":
-          return await handleCommentsLike(client, args as any);
-        case "comments_unlike":
-          return await handleCommentsUnlike(client, args as any);
-        case "profile_comments_list":
-          return await handleProfileCommentsList(client, args as any);
-        case "profile_comments_get":
-          return await handleProfileCommentsGet(client, args as any);
-        case "profile_comments_create":
-          return await handleProfileCommentsCreate(client, args as any);
-        case "profile_comments_delete":
-          return await handleProfileCommentsDelete(client, args as any);
-        case "dm_chats_list":
-          return await handleDmChatsList(client, args as any);
-        case "dm_chat_create":
-          return await handleDmChatCreate(client, args as any);
-        case "dm_chat_get":
-          return await handleDmChatGet(client, args as any);
-        case "dm_messages_list":
-          return await handleDmMessagesList(client, args as any);
-        case "dm_message_send":
-          return await handleDmMessageSend(client, args as any);
-        case "dm_message_get":
-          return await handleDmMessageGet(client, args as any);
-        case "dm_message_edit":
-          return await handleDmMessageEdit(client, args as any);
-        case "dm_message_react":
-          return await handleDmMessageReact(client, args as any);
-        case "dm_message_unreact":
-          return await handleDmMessageUnreact(client, args as any);
-        case "dm_chat_archive":
-          return await handleDmChatArchive(client, args as any);
-        case "dm_chat_unarchive":
-          return await handleDmChatUnarchive(client, args as any);
-        case "dm_comment_private_reply":
-          return await handleDmCommentPrivateReply(client, args as any);
-        default:
-          throw createError(ErrorCodes.API_ERROR, `Unknown tool: ${name}`);
-      }
-    } catch (error: any) {
-      if (error.code && error.message) {
-        // Already an MCPError
-        throw error;
-      }
-      throw createError(ErrorCodes.API_ERROR, error.message || "Tool execution failed");
+    const progressToken = request.params._meta?.progressToken;
+    const context: ToolContext = { signal: extra.signal };
+    if (progressToken !== undefined) {
+      context.reportProgress = (progress, total, message) =>
+        extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message },
+        });
     }
+
+    // Failures come back as isError results rather than protocol errors
+    return callTool(client, name, args, context);
   });
 
+  server.setRequestHandler(ListResourcesRequestSchema, async () => listResources(client));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [...RESOURCE_TEMPLATE_DEFINITIONS],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    readResource(client, request.params.uri)
+  );
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: [...PROMPT_DEFINITIONS],
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    getPrompt(client, request.params.name, request.params.arguments)
+  );
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) =>
+    completeArgument(client, request.params.ref, request.params.argument, request.params.context?.arguments)
+  );
+
+  const subscriptions = new PostSubscriptions(
+    client,
+    (uri) => server.sendResourceUpdated({ uri }),
+    options.postPollIntervalMs
+  );
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.onclose = () => subscriptions.close();
+
   return server;
 }
@@ -2,44 +2,70 @@
  * Authentication tools: auth.status
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import { getApiKey, getBaseUrl } from "../auth/credentials.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import type { RateLimitStatus } from "../api/rate-limiter.js";
 import { logError, logToolCall } from "../utils/logger.js";
+import { defineTool, toolResult } from "./registry.js";
 
 export async function handleAuthStatus(client: PostProxyClient) {
   logToolCall("auth.status", {});
 
-  const apiKey = getApiKey();
-  const baseUrl = getBaseUrl();
+  const authenticated = client.hasApiKey();
 
   const result: {
     authenticated: boolean;
     base_url: string;
     profile_groups_count?: number;
+    rate_limit?: RateLimitStatus;
   } = {
-    authenticated: apiKey !== null,
-    base_url: baseUrl,
+    authenticated,
+    base_url: client.getBaseUrl(),
   };
 
   // If authenticated, try to get profile groups count
-  if (apiKey !== null) {
+  if (authenticated) {
     try {
-      const profileGroups = await client.getProfileGroups();
+      // Always hit the API so the key is actually checked and the quota below is current
+      const profileGroups = await client.getProfileGroups({ cache: "bypass" });
       result.profile_groups_count = profileGroups.length;
     } catch (error) {
       // If we can't get profile groups, just return without the count
       // Don't fail the whole request
       logError(error as Error, "auth.status");
     }
+    // Read after the request above so the API's latest X-RateLimit-* quota is included
+    result.rate_limit = client.getRateLimitStatus();
   }
 
-  return {
-    content: [
-      {
-        type: "text",
-        text: JSON.stringify(result, null, 2),
-      },
-    ],
-  };
+  return toolResult(result);
 }
+
+export const authTools = [
+  defineTool({
+    name: "auth_status",
+    description: "Check authentication status, API configuration, workspace information, and remaining API rate limit quota",
+    annotations: {
+      title: "Check Auth Status",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      authenticated: z.boolean(),
+      base_url: z.string(),
+      profile_groups_count: z.number().optional(),
+      rate_limit: z.object({
+        requests_per_second: z.number(),
+        max_concurrency: z.number(),
+        in_flight: z.number(),
+        queued: z.number(),
+        limit: z.number().optional(),
+        remaining: z.number().optional(),
+        reset_at: z.string().optional(),
+      }).optional(),
+    }),
+    handler: handleAuthStatus,
+  }),
+];
@@ -3,9 +3,18 @@
  * comments.hide, comments.unhide, comments.like, comments.unlike
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import { collectItems } from "../api/pagination.js";
+import { createError, ErrorCodes, wrapError } from "../utils/errors.js";
 import { logError } from "../utils/logger.js";
+import { AllPagesSchema, MaxItemsSchema } from "../utils/validation.js";
+import { defineTool, toolResult } from "./registry.js";
+import {
+  CommentActionOutput,
+  CommentOutput,
+  paginatedOutput,
+} from "./output-schemas.js";
 
 export async function handleCommentsList(
   client: PostProxyClient,
@@ -14,6 +23,8 @@ export async function handleCommentsList(
     profile_id: string;
     page?: number;
     per_page?: number;
+    all?: boolean;
+    max_items?: number;
   }
 ) {
   if (!args.post_id) {
@@ -24,27 +35,22 @@ export async function handleCommentsList(
   }
 
   try {
-    const response = await client.listComments(
-      args.post_id,
-      args.profile_id,
-      args.page,
-      args.per_page
-    );
+    const response = args.all || args.max_items !== undefined
+      ? await collectItems(
+          client.iterateComments(args.post_id, args.profile_id, args.per_page, args.page),
+          args.max_items
+        )
+      : await client.listComments(
+          args.post_id,
+          args.profile_id,
+          args.page,
+          args.per_page
+        );
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "comments.list");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to list comments: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to list comments");
   }
 }
 
@@ -73,20 +79,10 @@ export async function handleCommentsGet(
       args.profile_id
     );
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "comments.get");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to get comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to get comment");
   }
 }
 
@@ -115,20 +111,10 @@ export async function handleCommentsCreate(
       parent_id: args.parent_id,
     });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "comments.create");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to create comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to create comment");
   }
 }
 
@@ -157,20 +143,10 @@ export async function handleCommentsDelete(
       args.profile_id
     );
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "comments.delete");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to delete comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to delete comment");
   }
 }
 
@@ -199,20 +175,10 @@ export async function handleCommentsHide(
       args.profile_id
     );
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "comments.hide");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to hide comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to hide comment");
   }
 }
 
@@ -241,20 +207,10 @@ export async function handleCommentsUnhide(
       args.profile_id
     );
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "comments.unhide");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to unhide comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to unhide comment");
   }
 }
 
@@ -283,20 +239,10 @@ export async function handleCommentsLike(
       args.profile_id
     );
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "comments.like");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to like comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to like comment");
   }
 }
 
@@ -325,19 +271,158 @@ export async function handleCommentsUnlike(
       args.profile_id
     );
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "comments.unlike");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to unlike comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to unlike comment");
   }
 }
+
+export const commentTools = [
+  defineTool({
+    name: "comments_list",
+    description: "List comments on a published post. Returns paginated top-level comments with nested replies. Not all platforms support comments.",
+    annotations: {
+      title: "List Comments",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      profile_id: z.string().describe("Profile ID to identify which platform's comments to retrieve"),
+      page: z.number().optional().describe("Page number, zero-indexed (default: 0)"),
+      per_page: z.number().optional().describe("Number of top-level comments per page (default: 20)"),
+      all: AllPagesSchema,
+      max_items: MaxItemsSchema,
+    }),
+    outputSchema: paginatedOutput(CommentOutput),
+    handler: handleCommentsList,
+  }),
+  defineTool({
+    name: "comments_get",
+    description: "Get a single comment with its replies",
+    annotations: {
+      title: "Get Comment",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      comment_id: z.string().describe("Comment ID (Postproxy ID or platform external ID)"),
+      profile_id: z.string().describe("Profile ID"),
+    }),
+    outputSchema: CommentOutput,
+    handler: handleCommentsGet,
+  }),
+  defineTool({
+    name: "comments_create",
+    description: "Create a comment or reply on a published post. The comment is published to the platform asynchronously. Supported on Instagram, Facebook, Threads, YouTube, and LinkedIn.",
+    annotations: {
+      title: "Create Comment",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      profile_id: z.string().describe("Profile ID"),
+      text: z.string().describe("Comment text content"),
+      parent_id: z.string().optional().describe("Optional ID of comment to reply to (Postproxy ID or external ID). Omit to comment on the post itself."),
+    }),
+    outputSchema: CommentOutput,
+    handler: handleCommentsCreate,
+  }),
+  defineTool({
+    name: "comments_delete",
+    description: "Delete a comment from the platform asynchronously. Supported on Instagram, Facebook, YouTube, and LinkedIn. Not supported on Threads.",
+    annotations: {
+      title: "Delete Comment",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      comment_id: z.string().describe("Comment ID (Postproxy ID or external ID)"),
+      profile_id: z.string().describe("Profile ID"),
+    }),
+    outputSchema: CommentActionOutput,
+    handler: handleCommentsDelete,
+  }),
+  defineTool({
+    name: "comments_hide",
+    description: "Hide a comment on the platform asynchronously. Supported on Instagram, Facebook, and Threads.",
+    annotations: {
+      title: "Hide Comment",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      comment_id: z.string().describe("Comment ID (Postproxy ID or external ID)"),
+      profile_id: z.string().describe("Profile ID"),
+    }),
+    outputSchema: CommentActionOutput,
+    handler: handleCommentsHide,
+  }),
+  defineTool({
+    name: "comments_unhide",
+    description: "Unhide a previously hidden comment on the platform asynchronously. Supported on Instagram, Facebook, and Threads.",
+    annotations: {
+      title: "Unhide Comment",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      comment_id: z.string().describe("Comment ID (Postproxy ID or external ID)"),
+      profile_id: z.string().describe("Profile ID"),
+    }),
+    outputSchema: CommentActionOutput,
+    handler: handleCommentsUnhide,
+  }),
+  defineTool({
+    name: "comments_like",
+    description: "Like a comment on the platform asynchronously. Currently only supported on Facebook.",
+    annotations: {
+      title: "Like Comment",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      comment_id: z.string().describe("Comment ID (Postproxy ID or external ID)"),
+      profile_id: z.string().describe("Profile ID"),
+    }),
+    outputSchema: CommentActionOutput,
+    handler: handleCommentsLike,
+  }),
+  defineTool({
+    name: "comments_unlike",
+    description: "Remove a like from a comment on the platform asynchronously. Currently only supported on Facebook.",
+    annotations: {
+      title: "Unlike Comment",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      comment_id: z.string().describe("Comment ID (Postproxy ID or external ID)"),
+      profile_id: z.string().describe("Profile ID"),
+    }),
+    outputSchema: CommentActionOutput,
+    handler: handleCommentsUnlike,
+  }),
+];
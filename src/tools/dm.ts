@@ -5,20 +5,18 @@
  * dm_comment_private_reply
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import { collectItems } from "../api/pagination.js";
+import { createError, ErrorCodes, wrapError } from "../utils/errors.js";
 import { logError } from "../utils/logger.js";
-
-function ok(response: unknown) {
-  return {
-    content: [
-      {
-        type: "text",
-        text: JSON.stringify(response, null, 2),
-      },
-    ],
-  };
-}
+import { AllPagesSchema, MaxItemsSchema } from "../utils/validation.js";
+import { defineTool, toolResult, uploadOptions, type ToolContext } from "./registry.js";
+import {
+  ChatOutput,
+  DirectMessageOutput,
+  paginatedOutput,
+} from "./output-schemas.js";
 
 export async function handleDmChatsList(
   client: PostProxyClient,
@@ -28,6 +26,8 @@ export async function handleDmChatsList(
     per_page?: number;
     before?: string;
     after?: string;
+    all?: boolean;
+    max_items?: number;
   }
 ) {
   if (!args.profile_id) {
@@ -35,19 +35,20 @@ export async function handleDmChatsList(
   }
 
   try {
-    const response = await client.listChats(args.profile_id, {
+    const params = {
       page: args.page,
       per_page: args.per_page,
       before: args.before,
       after: args.after,
-    });
-    return ok(response);
+    };
+    if (args.all || args.max_items !== undefined) {
+      return toolResult(await collectItems(client.iterateChats(args.profile_id, params), args.max_items));
+    }
+    const response = await client.listChats(args.profile_id, params);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.chats_list");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to list chats: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to list chats");
   }
 }
 
@@ -73,13 +74,10 @@ export async function handleDmChatCreate(
       participant_username: args.participant_username,
       participant_name: args.participant_name,
     });
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.chat_create");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to create chat: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to create chat");
   }
 }
 
@@ -93,13 +91,10 @@ export async function handleDmChatGet(
 
   try {
     const response = await client.getChat(args.chat_id);
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.chat_get");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to get chat: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to get chat");
   }
 }
 
@@ -111,6 +106,8 @@ export async function handleDmMessagesList(
     per_page?: number;
     direction?: "inbound" | "outbound";
     status?: string;
+    all?: boolean;
+    max_items?: number;
   }
 ) {
   if (!args.chat_id) {
@@ -118,19 +115,20 @@ export async function handleDmMessagesList(
   }
 
   try {
-    const response = await client.listMessages(args.chat_id, {
+    const params = {
       page: args.page,
       per_page: args.per_page,
       direction: args.direction,
       status: args.status,
-    });
-    return ok(response);
+    };
+    if (args.all || args.max_items !== undefined) {
+      return toolResult(await collectItems(client.iterateMessages(args.chat_id, params), args.max_items));
+    }
+    const response = await client.listMessages(args.chat_id, params);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.messages_list");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to list messages: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to list messages");
   }
 }
 
@@ -143,7 +141,8 @@ export async function handleDmMessageSend(
     tag?: "HUMAN_AGENT";
     reply_to_external_id?: string;
     reply_markup?: Record<string, any>;
-  }
+  },
+  context: ToolContext = {}
 ) {
   if (!args.chat_id) {
     throw createError(ErrorCodes.VALIDATION_ERROR, "chat_id is required");
@@ -167,14 +166,11 @@ export async function handleDmMessageSend(
       tag: args.tag,
       reply_to_external_id: args.reply_to_external_id,
       reply_markup: args.reply_markup,
-    });
-    return ok(response);
+    }, uploadOptions(context));
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.message_send");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to send message: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to send message");
   }
 }
 
@@ -188,13 +184,10 @@ export async function handleDmMessageGet(
 
   try {
     const response = await client.getMessage(args.message_id);
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.message_get");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to get message: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to get message");
   }
 }
 
@@ -218,13 +211,10 @@ export async function handleDmMessageEdit(
       body: args.body,
       reply_markup: args.reply_markup,
     });
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.message_edit");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to edit message: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to edit message");
   }
 }
 
@@ -245,13 +235,10 @@ export async function handleDmMessageReact(
       reaction: args.reaction,
       emoji: args.emoji,
     });
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.message_react");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to react to message: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to react to message");
   }
 }
 
@@ -265,13 +252,10 @@ export async function handleDmMessageUnreact(
 
   try {
     const response = await client.unreactMessage(args.message_id);
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.message_unreact");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to remove reaction: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to remove reaction");
   }
 }
 
@@ -285,13 +269,10 @@ export async function handleDmChatArchive(
 
   try {
     const response = await client.archiveChat(args.chat_id);
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.chat_archive");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to archive chat: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to archive chat");
   }
 }
 
@@ -305,13 +286,10 @@ export async function handleDmChatUnarchive(
 
   try {
     const response = await client.unarchiveChat(args.chat_id);
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.chat_unarchive");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to unarchive chat: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to unarchive chat");
   }
 }
 
@@ -344,12 +322,233 @@ export async function handleDmCommentPrivateReply(
       args.profile_id,
       args.text
     );
-    return ok(response);
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "dm.comment_private_reply");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to send private reply: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to send private reply");
   }
 }
+
+export const dmTools = [
+  defineTool({
+    name: "dm_chats_list",
+    description: "List direct-message chats (conversations) for a DM-capable profile, ordered by most recent activity. Supported on Facebook (Messenger), Instagram, Telegram, and Bluesky.",
+    annotations: {
+      title: "List Chats",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      profile_id: z.string().describe("Profile hashid (Facebook, Instagram, Telegram, or Bluesky)"),
+      page: z.number().optional().describe("Page number (zero-indexed, default 0)"),
+      per_page: z.number().optional().describe("Items per page (default 20)"),
+      before: z.string().optional().describe("ISO 8601 timestamp — only chats with last_message_at before this"),
+      after: z.string().optional().describe("ISO 8601 timestamp — only chats with last_message_at after this"),
+      all: AllPagesSchema,
+      max_items: MaxItemsSchema,
+    }),
+    outputSchema: paginatedOutput(ChatOutput),
+    handler: handleDmChatsList,
+  }),
+  defineTool({
+    name: "dm_chat_create",
+    description: "Find or create a chat for a participant on a DM-capable profile (idempotent — returns the existing chat if one already exists). Use before sending a message to a participant the profile has not yet messaged.",
+    annotations: {
+      title: "Create or Find Chat",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      profile_id: z.string().describe("Profile hashid"),
+      participant_external_id: z.string().describe("Platform participant ID (Instagram-scoped user ID, Facebook PSID, Telegram user id, or Bluesky DID)"),
+      participant_username: z.string().optional().describe("Optional display username for the participant"),
+      participant_name: z.string().optional().describe("Optional display name for the participant"),
+    }),
+    outputSchema: ChatOutput,
+    handler: handleDmChatCreate,
+  }),
+  defineTool({
+    name: "dm_chat_get",
+    description: "Get a single chat by Postproxy hashid or by the platform's external_conversation_id.",
+    annotations: {
+      title: "Get Chat",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      chat_id: z.string().describe("Chat hashid OR external_conversation_id"),
+    }),
+    outputSchema: ChatOutput,
+    handler: handleDmChatGet,
+  }),
+  defineTool({
+    name: "dm_messages_list",
+    description: "List messages in a chat, most recent first. Optionally filter by direction or status.",
+    annotations: {
+      title: "List Messages",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      chat_id: z.string().describe("Chat hashid OR external_conversation_id"),
+      page: z.number().optional().describe("Page number (zero-indexed, default 0)"),
+      per_page: z.number().optional().describe("Items per page (default 20)"),
+      direction: z.enum(["inbound", "outbound"]).optional().describe("Filter by direction"),
+      status: z.string().optional().describe("Filter by status (pending, published, failed_waiting_for_retry, failed, received)"),
+      all: AllPagesSchema,
+      max_items: MaxItemsSchema,
+    }),
+    outputSchema: paginatedOutput(DirectMessageOutput).extend({
+      reply_markup: z.record(z.string(), z.unknown()).optional(),
+    }),
+    handler: handleDmMessagesList,
+  }),
+  defineTool({
+    name: "dm_message_send",
+    description: "Send an outbound direct message. Provide EITHER body (text) OR media (a single attachment), not both. The message is queued and delivered asynchronously (returns status: pending). Outside Meta's 24h messaging window, pass tag: HUMAN_AGENT (Facebook/Instagram only). reply_to_external_id and reply_markup are Telegram-only.",
+    annotations: {
+      title: "Send Message",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      chat_id: z.string().describe("Chat hashid OR external_conversation_id"),
+      body: z.string().optional().describe("Message text. Required when media is empty (provide body OR media, not both)."),
+      media: z.array(z.string()).optional().describe("Up to one media attachment as a URL or local file path (absolute /path/to/file.jpg, relative ./image.png, or ~/Pictures/photo.jpg). Max 1 attachment. Not supported on Bluesky."),
+      tag: z.enum(["HUMAN_AGENT"]).optional().describe("Message tag for sending outside the 24h window. Facebook/Instagram only — ignored on Telegram and Bluesky."),
+      reply_to_external_id: z.string().optional().describe("Telegram only. Platform message_id of the message to thread under."),
+      reply_markup: z.record(z.string(), z.any()).optional().describe("Telegram only. reply_markup payload — inline keyboard, custom reply keyboard, force-reply, or remove-keyboard."),
+    }),
+    outputSchema: DirectMessageOutput,
+    handler: handleDmMessageSend,
+  }),
+  defineTool({
+    name: "dm_message_get",
+    description: "Get a single message by Postproxy hashid or by the platform's external_id.",
+    annotations: {
+      title: "Get Message",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      message_id: z.string().describe("Message hashid OR external_id"),
+    }),
+    outputSchema: DirectMessageOutput,
+    handler: handleDmMessageGet,
+  }),
+  defineTool({
+    name: "dm_message_edit",
+    description: "Edit a previously-sent outbound message on the platform. Telegram only — Facebook and Instagram do not expose outbound edits. Provide body (new text/caption) and/or reply_markup (pass {} to clear the keyboard); at least one is required.",
+    annotations: {
+      title: "Edit Message",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      message_id: z.string().describe("Message hashid OR external_id"),
+      body: z.string().optional().describe("New message text (or new caption for media messages)."),
+      reply_markup: z.record(z.string(), z.any()).optional().describe("New inline keyboard / reply_markup. Pass an empty object {} to remove the existing keyboard."),
+    }),
+    outputSchema: DirectMessageOutput,
+    handler: handleDmMessageEdit,
+  }),
+  defineTool({
+    name: "dm_message_react",
+    description: "Add a reaction from your business account to a message. Facebook Messenger and Instagram Direct only (not Telegram or Bluesky). A second react replaces the previous one.",
+    annotations: {
+      title: "React to Message",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      message_id: z.string().describe("Message hashid OR external_id"),
+      reaction: z.string().optional().describe("Named reaction, defaults to 'love'. On Instagram only 'love' is accepted; on Facebook Messenger common names (love, like, dislike, smile, wow, sad, angry) are auto-translated to emoji."),
+      emoji: z.string().optional().describe("Unicode emoji. Forwarded to Instagram; on Facebook Messenger it overrides 'reaction' as the literal value sent."),
+    }),
+    outputSchema: DirectMessageOutput,
+    handler: handleDmMessageReact,
+  }),
+  defineTool({
+    name: "dm_message_unreact",
+    description: "Remove your business account's reaction from a message. Facebook Messenger and Instagram Direct only.",
+    annotations: {
+      title: "Remove Reaction",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      message_id: z.string().describe("Message hashid OR external_id"),
+    }),
+    outputSchema: DirectMessageOutput,
+    handler: handleDmMessageUnreact,
+  }),
+  defineTool({
+    name: "dm_chat_archive",
+    description: "Archive (mute) a chat. Bluesky only — calls Bluesky's muteConvo. Returns the chat with archived: true.",
+    annotations: {
+      title: "Archive Chat",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      chat_id: z.string().describe("Chat hashid OR external_conversation_id"),
+    }),
+    outputSchema: ChatOutput,
+    handler: handleDmChatArchive,
+  }),
+  defineTool({
+    name: "dm_chat_unarchive",
+    description: "Unarchive (unmute) a chat. Bluesky only — calls Bluesky's unmuteConvo. Returns the chat with archived: false.",
+    annotations: {
+      title: "Unarchive Chat",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      chat_id: z.string().describe("Chat hashid OR external_conversation_id"),
+    }),
+    outputSchema: ChatOutput,
+    handler: handleDmChatUnarchive,
+  }),
+  defineTool({
+    name: "dm_comment_private_reply",
+    description: "Send a DM to the author of a comment, in reply to that comment (Meta 'Private Replies'). Bypasses the 24h window (comments up to 7 days old) and creates/reuses a chat automatically. One private reply per comment, ever. Instagram and Facebook (Page comments) only.",
+    annotations: {
+      title: "Private Reply to Comment",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post hashid"),
+      comment_id: z.string().describe("Comment hashid OR external ID"),
+      profile_id: z.string().describe("Profile hashid (Instagram or Facebook only)"),
+      text: z.string().describe("DM text"),
+    }),
+    outputSchema: DirectMessageOutput,
+    handler: handleDmCommentPrivateReply,
+  }),
+];
@@ -2,91 +2,84 @@
  * History tools: history.list
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import { collectItems } from "../api/pagination.js";
+import { ErrorCodes, wrapError } from "../utils/errors.js";
 import { logError } from "../utils/logger.js";
+import { getOverallStatus } from "../utils/post-status.js";
+import { AllPagesSchema, MaxItemsSchema } from "../utils/validation.js";
+import { defineTool, toolResult } from "./registry.js";
+import { OverallStatusOutput } from "./output-schemas.js";
 
 export async function handleHistoryList(
   client: PostProxyClient,
-  args: { limit?: number }
+  args: { limit?: number; all?: boolean; max_items?: number }
 ) {
   const limit = args.limit || 10;
 
   try {
-    const posts = await client.listPosts(limit);
+    // all / max_items walk every page; otherwise return the first `limit` posts
+    let posts;
+    let truncated: boolean | undefined;
+    if (args.all || args.max_items !== undefined) {
+      ({ data: posts, truncated } = await collectItems(client.iteratePosts(), args.max_items));
+    } else {
+      posts = await client.listPosts(limit);
+    }
 
     const jobs = posts.map((post) => {
       // Get content from either "body" or "content" field (API uses "body")
       const content = post.body || post.content || "";
-      
-      // Determine overall status from post status
-      let overallStatus = "unknown";
-      
-      // Handle special statuses first
-      if (post.status === "media_processing_failed") {
-        overallStatus = "media_processing_failed";
-      } else if (post.status === "draft" || post.draft === true) {
-        overallStatus = "draft";
-      } else if (post.status === "scheduled") {
-        overallStatus = "pending";
-      } else if (post.status === "processing") {
-        overallStatus = "processing";
-      } else if (post.status === "processed") {
-        // Check platform statuses to determine overall status
-        if (post.platforms && post.platforms.length > 0) {
-          const allPublished = post.platforms.every((p) => p.status === "published");
-          const allFailed = post.platforms.every((p) => p.status === "failed");
-          const anyPending = post.platforms.some((p) => p.status === "pending" || p.status === "processing");
-
-          if (anyPending) {
-            // Only if there are pending/processing platforms - this is truly processing
-            overallStatus = "processing";
-          } else if (allPublished) {
-            overallStatus = "complete";
-          } else if (allFailed) {
-            overallStatus = "failed";
-          } else {
-            // Mixed statuses (some published, some failed) - processing is complete
-            // Use "complete" since processing is finished, details are in platforms
-            overallStatus = "complete";
-          }
-        } else {
-          overallStatus = "pending";
-        }
-      } else if (post.status === "pending") {
-        overallStatus = "pending";
-      }
 
       return {
         post_id: post.id,
         content_preview: content.substring(0, 100) + (content.length > 100 ? "..." : ""),
         created_at: post.created_at,
-        overall_status: overallStatus,
+        overall_status: getOverallStatus(post),
         scheduled_at: post.scheduled_at || null,
         draft: post.draft || false,
         platforms_count: post.platforms?.length || 0,
       };
     });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              jobs,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      jobs,
+      ...(truncated !== undefined && { truncated }),
+    });
   } catch (error) {
     logError(error as Error, "history.list");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to list history: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to list history");
   }
 }
+
+export const historyTools = [
+  defineTool({
+    name: "history_list",
+    description: "List recent post jobs",
+    annotations: {
+      title: "List Post History",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      limit: z.number().optional().describe("Maximum number of jobs to return (default: 10). Ignored when all or max_items is set."),
+      all: AllPagesSchema,
+      max_items: MaxItemsSchema,
+    }),
+    outputSchema: z.object({
+      jobs: z.array(z.object({
+        post_id: z.string(),
+        content_preview: z.string(),
+        created_at: z.string().optional(),
+        overall_status: OverallStatusOutput,
+        scheduled_at: z.string().nullable(),
+        draft: z.boolean(),
+        platforms_count: z.number(),
+      })),
+      truncated: z.boolean().optional().describe("Set with all / max_items: true if more jobs were available"),
+    }),
+    handler: handleHistoryList,
+  }),
+];
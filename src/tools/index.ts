@@ -0,0 +1,73 @@
+/**
+ * Tool registry and dispatch shared by the stdio server and the Cloudflare Worker.
+ * Both runtimes route every tool call through callTool so they behave the same.
+ */
+
+import type { PostProxyClient } from "../api/client.js";
+import { authTools } from "./auth.js";
+import { profileTools } from "./profiles.js";
+import { uploadTools } from "./upload.js";
+import { postTools } from "./post.js";
+import { historyTools } from "./history.js";
+import { queueTools } from "./queue.js";
+import { commentTools } from "./comment.js";
+import { profileCommentTools } from "./profile-comment.js";
+import { dmTools } from "./dm.js";
+import {
+  errorResult,
+  runTool,
+  toInputJsonSchema,
+  toOutputJsonSchema,
+  type ToolContext,
+  type ToolDefinition,
+  type ToolResult,
+} from "./registry.js";
+import { createError, ErrorCodes } from "../utils/errors.js";
+
+export type { ToolContext, ToolDefinition, ToolResult } from "./registry.js";
+export { errorResult } from "./registry.js";
+
+/**
+ * Every tool exposed by the server, in tools/list order
+ */
+export const TOOLS: ToolDefinition[] = [
+  ...authTools,
+  ...profileTools,
+  ...uploadTools,
+  ...postTools,
+  ...historyTools,
+  ...queueTools,
+  ...commentTools,
+  ...profileCommentTools,
+  ...dmTools,
+];
+
+const TOOLS_BY_NAME = new Map(TOOLS.map((tool) => [tool.name, tool]));
+
+/**
+ * Tool definitions as advertised in tools/list, with JSON Schemas derived from the Zod schemas
+ */
+export const TOOL_DEFINITIONS = TOOLS.map((tool) => ({
+  name: tool.name,
+  description: tool.description,
+  annotations: tool.annotations,
+  inputSchema: toInputJsonSchema(tool.inputSchema),
+  outputSchema: toOutputJsonSchema(tool.outputSchema),
+}));
+
+/**
+ * Run a tool by name against the given client. Failures, including unknown tools,
+ * come back as isError results.
+ */
+export async function callTool(
+  client: PostProxyClient,
+  name: string,
+  args: Record<string, unknown> | undefined,
+  context: ToolContext = {}
+): Promise<ToolResult> {
+  const tool = TOOLS_BY_NAME.get(name);
+  if (!tool) {
+    return errorResult(createError(ErrorCodes.VALIDATION_ERROR, `Unknown tool: ${name}`));
+  }
+  return runTool(tool, client, args, context);
+}
@@ -0,0 +1,196 @@
+/**
+ * Zod schemas for tool results, advertised as outputSchema in tools/list.
+ *
+ * Resources passed through from the PostProxy API only require the fields the
+ * tools themselves rely on; everything else is optional so newer API fields or
+ * partial responses never make a result fail validation on the client.
+ */
+
+import { z } from "zod";
+
+const nullableString = z.string().nullable();
+
+export const PlatformErrorDetailsOutput = z.object({
+  platform_error_code: nullableString.optional(),
+  platform_error_subcode: nullableString.optional(),
+  platform_error_message: nullableString.optional(),
+  postproxy_note: nullableString.optional(),
+});
+
+export const MediaAttachmentOutput = z.object({
+  id: z.string(),
+  status: z.string().optional().describe("pending, processed or failed"),
+  error_message: nullableString.optional(),
+  content_type: z.string().optional(),
+  source_url: nullableString.optional(),
+  url: nullableString.optional(),
+  platforms: z.array(z.object({
+    platform: z.string(),
+    status: z.string().optional(),
+    error: z.string().optional(),
+    error_details: PlatformErrorDetailsOutput.nullable().optional(),
+  })).optional(),
+});
+
+export const ThreadItemOutput = z.object({
+  id: z.string(),
+  body: z.string().optional(),
+  media: z.array(MediaAttachmentOutput).optional(),
+});
+
+/**
+ * Post fields returned by post_publish, post_publish_draft and post_update
+ */
+export const PostSummaryOutput = z.object({
+  post_id: z.string(),
+  status: z.string().describe("API post status: draft, pending, processing, processed, scheduled or media_processing_failed"),
+  draft: z.boolean(),
+  scheduled_at: nullableString.optional(),
+  created_at: z.string().optional(),
+});
+
+/**
+ * Aggregated status shared by post_status and history_list
+ */
+export const OverallStatusOutput = z.enum([
+  "pending",
+  "processing",
+  "complete",
+  "failed",
+  "draft",
+  "media_processing_failed",
+  "unknown",
+]);
+
+export const PlatformStatusOutput = z.object({
+  platform: z.string(),
+  status: z.string().describe("pending, processing, published, failed or deleted"),
+  url: z.string().optional(),
+  post_id: z.string().optional(),
+  error: nullableString,
+  error_details: PlatformErrorDetailsOutput.nullable(),
+  attempted_at: nullableString,
+  insights: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const ProfileGroupOutput = z.object({
+  id: z.string(),
+  name: z.string(),
+  profiles_count: z.number().optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional(),
+});
+
+export const PlacementOutput = z.object({
+  id: nullableString,
+  name: z.string(),
+});
+
+export const StatsRecordOutput = z.object({
+  stats: z.record(z.string(), z.unknown()),
+  recorded_at: z.string(),
+});
+
+export const QueueTimeslotOutput = z.object({
+  id: z.number(),
+  day: z.number().describe("0=Sunday through 6=Saturday"),
+  time: z.string().describe("HH:MM"),
+});
+
+export const QueueOutput = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: nullableString.optional(),
+  timezone: z.string().optional(),
+  enabled: z.boolean().optional(),
+  jitter: z.number().optional(),
+  profile_group_id: z.string().optional(),
+  posts_count: z.number().optional(),
+});
+
+export const CommentOutput = z.object({
+  id: z.string(),
+  external_id: nullableString.optional(),
+  body: z.string().optional(),
+  status: z.string().optional().describe("synced, pending, published or failed"),
+  author_username: nullableString.optional(),
+  author_avatar_url: nullableString.optional(),
+  author_external_id: nullableString.optional(),
+  parent_external_id: nullableString.optional(),
+  like_count: z.number().optional(),
+  is_hidden: z.boolean().optional(),
+  permalink: nullableString.optional(),
+  platform_data: z.unknown().optional(),
+  posted_at: nullableString.optional(),
+  created_at: z.string().optional(),
+  replies: z.array(z.record(z.string(), z.unknown())).optional().describe("Nested replies, same shape as the comment"),
+  attachments: z.array(z.record(z.string(), z.unknown())).optional(),
+});
+
+export const ProfileCommentOutput = z.object({
+  id: z.string(),
+  external_id: nullableString.optional(),
+  parent_external_id: nullableString.optional(),
+  placement_id: nullableString.optional(),
+  body: z.string().optional(),
+  status: z.string().optional(),
+  author_username: nullableString.optional(),
+  author_avatar_url: nullableString.optional(),
+  platform_data: z.unknown().optional(),
+  posted_at: nullableString.optional(),
+  created_at: z.string().optional(),
+  error_message: nullableString.optional(),
+  replies: z.array(z.record(z.string(), z.unknown())).optional().describe("Nested replies, same shape as the comment"),
+});
+
+export const CommentActionOutput = z.object({
+  accepted: z.boolean().optional(),
+});
+
+export const ChatOutput = z.object({
+  id: z.string(),
+  profile_id: z.string().optional(),
+  platform: z.string().optional(),
+  participant_external_id: z.string().optional(),
+  participant_username: nullableString.optional(),
+  participant_name: nullableString.optional(),
+  participant_avatar_url: nullableString.optional(),
+  external_conversation_id: nullableString.optional(),
+  last_inbound_at: nullableString.optional(),
+  last_outbound_at: nullableString.optional(),
+  last_message_at: nullableString.optional(),
+  metadata: z.record(z.string(), z.unknown()).nullable().optional(),
+  archived: z.boolean().optional(),
+  created_at: z.string().optional(),
+});
+
+export const DirectMessageOutput = z.object({
+  id: z.string(),
+  chat_id: z.string().optional(),
+  external_id: nullableString.optional(),
+  direction: z.string().optional().describe("inbound or outbound"),
+  body: z.string().optional(),
+  status: z.string().optional().describe("pending, published, failed_waiting_for_retry, failed or received"),
+  tag: nullableString.optional(),
+  error_message: nullableString.optional(),
+  platform_data: z.record(z.string(), z.unknown()).nullable().optional(),
+  external_posted_at: nullableString.optional(),
+  reply_to_external_id: nullableString.optional(),
+  reply_markup: z.record(z.string(), z.unknown()).nullable().optional(),
+  reactions: z.array(z.record(z.string(), z.unknown())).optional(),
+  attachments: z.array(z.record(z.string(), z.unknown())).optional(),
+  created_at: z.string().optional(),
+});
+
+/**
+ * A page of items, or every page gathered when the tool was called with all / max_items
+ */
+export function paginatedOutput<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    total: z.number().optional(),
+    page: z.number().optional(),
+    per_page: z.number().optional(),
+    data: z.array(item),
+    truncated: z.boolean().optional().describe("Set when gathering pages: true if more items were available"),
+  });
+}
@@ -1,13 +1,307 @@
 /**
- * Post tools: post.publish, post.status, post.delete
+ * Post tools: post.publish, post.lint, media.inspect, post.status, post.wait, post.retry_failed, post.update, post.delete
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import type { PlatformErrorDetails } from "../types/index.js";
-import { PostPublishSchema } from "../utils/validation.js";
+import type { CreatePostResponse, MediaAttachment, PlatformErrorDetails, PlatformOutcome, PostDetails } from "../types/index.js";
+import { isFilePath, PostPublishSchema } from "../utils/validation.js";
 import { generateIdempotencyKey } from "../utils/idempotency.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import { getGroupOverallStatus, getOverallStatus, isTerminalStatus } from "../utils/post-status.js";
+import {
+  isKnownPlatform,
+  PLATFORM_RULES,
+  lintForPlatform,
+  type LintInput,
+  type PartMeasurement,
+  type PlatformViolation,
+} from "../utils/platform-rules.js";
+import { splitIntoThread } from "../utils/thread-splitter.js";
+import { probeMedia, readMediaHeaders, resolveMimeType } from "../utils/media-probe.js";
+import {
+  lintMediaForPlatform,
+  mediaFormatFor,
+  MEDIA_RULES,
+  type MediaItem,
+  type MediaViolation,
+} from "../utils/media-rules.js";
+import { decodePostGroupId, encodePostGroupId } from "../utils/post-groups.js";
+import { sleep } from "../api/retry.js";
+import { createError, ErrorCodes, wrapError } from "../utils/errors.js";
 import { logError } from "../utils/logger.js";
+import { defineTool, toolResult, uploadOptions, type ToolContext } from "./registry.js";
+import {
+  MediaAttachmentOutput,
+  OverallStatusOutput,
+  PlatformStatusOutput,
+  PostSummaryOutput,
+  StatsRecordOutput,
+  ThreadItemOutput,
+} from "./output-schemas.js";
+
+/**
+ * Platform of each profile reference that can be resolved
+ */
+async function platformsByProfile(client: PostProxyClient, profiles: string[]): Promise<Map<string, string>> {
+  let known: Array<{ id: string; platform: string }> = [];
+  if (profiles.some((ref) => !isKnownPlatform(ref))) {
+    try {
+      known = await client.getProfiles();
+    } catch (error) {
+      // Linting is a convenience; the API still validates the post
+      logError(error as Error, "post.lint (profiles)");
+    }
+  }
+  const resolved = new Map<string, string>();
+  for (const ref of profiles) {
+    const platform = isKnownPlatform(ref) ? ref : known.find((p) => p.id === ref)?.platform;
+    if (platform) {
+      resolved.set(ref, platform);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Platforms a list of profile references points at: platform names as given, profile IDs
+ * looked up in the cached profile list. References that can't be resolved are returned
+ * separately; the API reports them when publishing.
+ */
+async function resolvePlatforms(
+  client: PostProxyClient,
+  profiles: string[]
+): Promise<{ platforms: string[]; unresolved: string[] }> {
+  const resolved = await platformsByProfile(client, profiles);
+  const platforms = new Set<string>();
+  const unresolved: string[] = [];
+  for (const ref of profiles) {
+    const platform = resolved.get(ref);
+    if (platform) {
+      platforms.add(platform);
+    } else {
+      unresolved.push(ref);
+    }
+  }
+  return { platforms: [...platforms], unresolved };
+}
+
+/**
+ * Check a post's body and thread against the rules of every platform it targets
+ */
+async function lintPost(client: PostProxyClient, profiles: string[], input: LintInput) {
+  const { platforms, unresolved } = await resolvePlatforms(client, profiles);
+  const results: Array<{ platform: string; parts: PartMeasurement[] }> = [];
+  const violations: PlatformViolation[] = [];
+  for (const platform of platforms) {
+    const result = lintForPlatform(platform, input);
+    if (result) {
+      results.push({ platform, parts: result.parts });
+      violations.push(...result.violations);
+    }
+  }
+  return { valid: violations.length === 0, violations, platforms: results, unresolved_profiles: unresolved };
+}
+
+function assertWithinPlatformLimits(lint: { violations: PlatformViolation[] }): void {
+  if (lint.violations.length > 0) {
+    throw createError(
+      ErrorCodes.VALIDATION_ERROR,
+      `Post exceeds platform limits: ${lint.violations.map((v) => v.message).join("; ")}`,
+      { violations: lint.violations }
+    );
+  }
+}
+
+/**
+ * Inspect a post's local media files (media, thread children's media and cover_url) and
+ * check them against each target platform's rules for the format they're published as.
+ * URLs aren't fetched; the API checks those.
+ */
+async function inspectMedia(
+  client: PostProxyClient,
+  profiles: string[],
+  input: { media?: string[]; thread?: ThreadInput; platforms?: Record<string, Record<string, any>> }
+) {
+  const files: Array<{ part: string; path: string; cover?: string }> = [];
+  input.media?.forEach((path, i) => files.push({ part: `media[${i}]`, path }));
+  input.thread?.forEach((child, i) =>
+    child.media?.forEach((path, j) => files.push({ part: `thread[${i}].media[${j}]`, path }))
+  );
+  for (const [platform, params] of Object.entries(input.platforms ?? {})) {
+    if (typeof params?.cover_url === "string" && MEDIA_RULES[platform]?.cover) {
+      files.push({ part: `platforms.${platform}.cover_url`, path: params.cover_url, cover: platform });
+    }
+  }
+  const local = files.filter((file) => isFilePath(file.path));
+  if (local.length === 0) {
+    return { valid: true, violations: [], media: [], unresolved_profiles: [] };
+  }
+
+  const { platforms, unresolved } = await resolvePlatforms(client, profiles);
+  const media = [];
+  const violations: MediaViolation[] = [];
+  for (const { part, path, cover } of local) {
+    const file = await client.openLocalFile(path);
+    const info = probeMedia(await readMediaHeaders(file));
+    // Throws when the contents contradict the extension, as the upload would
+    const item: MediaItem = { part, path, size_bytes: file.size, info: { ...info, mime_type: resolveMimeType(path, info) } };
+    const targets = cover
+      ? platforms.filter((platform) => platform === cover)
+      : platforms.filter((platform) => part.startsWith("media") || PLATFORM_RULES[platform]?.threads);
+
+    const checked: Array<{ platform: string; format: string }> = [];
+    for (const platform of targets) {
+      const format = cover ? "cover" : mediaFormatFor(platform, input.platforms?.[platform], item.info);
+      const result = format && lintMediaForPlatform(platform, format, item);
+      if (result) {
+        checked.push({ platform, format: format! });
+        violations.push(...result);
+      }
+    }
+
+    const { width, height } = item.info;
+    media.push({
+      part,
+      path,
+      size_bytes: item.size_bytes,
+      ...item.info,
+      ...(width && height && { aspect_ratio: Math.round((width / height) * 100) / 100 }),
+      checked,
+    });
+  }
+  return { valid: violations.length === 0, violations, media, unresolved_profiles: unresolved };
+}
+
+function assertMediaWithinPlatformLimits(inspection: { violations: MediaViolation[] }): void {
+  if (inspection.violations.length > 0) {
+    throw createError(
+      ErrorCodes.VALIDATION_ERROR,
+      `Media doesn't meet platform requirements: ${inspection.violations.map((v) => v.message).join("; ")}`,
+      { violations: inspection.violations }
+    );
+  }
+}
+
+type ThreadInput = Array<{ body: string; media?: string[] }>;
+
+// Variant key of the threaded post when auto_thread splits a post for only some of its targets
+const AUTO_THREAD_VARIANT = "auto_thread";
+
+/**
+ * One post to create for a post_publish call: the whole call, or one variant's share of it
+ */
+interface PlannedPost {
+  variant?: string; // Variant key, for posts fanned out from variants
+  profiles: string[];
+  content: string;
+  media?: string[];
+  thread?: ThreadInput;
+  platforms?: Record<string, Record<string, any>>;
+}
+
+/**
+ * Split a post_publish call into the posts to create: one per variant key in use, plus
+ * one for the profiles without a variant. A variant applies to a profile listed by that
+ * key, or to every profile on the platform it names.
+ */
+async function planVariants(
+  client: PostProxyClient,
+  args: {
+    content: string;
+    profiles: string[];
+    media?: string[];
+    thread?: ThreadInput;
+    platforms?: Record<string, Record<string, any>>;
+    variants: Record<string, { content?: string; media?: string[]; thread?: ThreadInput }>;
+  }
+): Promise<PlannedPost[]> {
+  const resolved = await platformsByProfile(client, args.profiles);
+  const byKey = new Map<string, string[]>(); // "" for the base post
+  for (const ref of args.profiles) {
+    const platform = resolved.get(ref);
+    const key = ref in args.variants ? ref : platform && platform in args.variants ? platform : "";
+    byKey.set(key, [...(byKey.get(key) ?? []), ref]);
+  }
+
+  const unused = Object.keys(args.variants).filter((key) => !byKey.has(key));
+  if (unused.length > 0) {
+    throw createError(
+      ErrorCodes.VALIDATION_ERROR,
+      `variants must be keyed by a profile ID or platform from profiles; no profile matches: ${unused.join(", ")}`
+    );
+  }
+
+  return [...byKey].map(([key, profiles]) => {
+    const variant = key ? args.variants[key] : {};
+    return {
+      ...(key && { variant: key }),
+      profiles,
+      content: variant.content ?? args.content,
+      media: variant.media ?? args.media,
+      thread: variant.thread ?? args.thread,
+      platforms: platformParamsFor(profiles, resolved, args.platforms),
+    };
+  });
+}
+
+/**
+ * The platform parameters meant for some of a call's profiles. All of them are kept when
+ * a profile's platform isn't known.
+ */
+function platformParamsFor(
+  profiles: string[],
+  resolved: Map<string, string>,
+  platforms: Record<string, Record<string, any>> | undefined
+): Record<string, Record<string, any>> | undefined {
+  const filtered = profiles.every((ref) => resolved.has(ref)) && platforms
+    ? Object.fromEntries(Object.entries(platforms).filter(([name]) => profiles.some((ref) => resolved.get(ref) === name)))
+    : platforms;
+  return filtered && Object.keys(filtered).length > 0 ? filtered : undefined;
+}
+
+/**
+ * Apply auto_thread to a planned post. Its profiles on platforms that publish threads get
+ * the split; the rest keep the post as is, in a post of their own when the two are mixed.
+ */
+async function autoThread(client: PostProxyClient, post: PlannedPost, numbering?: boolean): Promise<PlannedPost[]> {
+  if (post.thread && post.thread.length > 0) {
+    throw createError(ErrorCodes.VALIDATION_ERROR, "auto_thread builds the thread from content; don't pass thread as well");
+  }
+  const resolved = await platformsByProfile(client, post.profiles);
+  const unresolved = post.profiles.filter((ref) => !resolved.has(ref));
+  if (unresolved.length > 0) {
+    throw createError(
+      ErrorCodes.VALIDATION_ERROR,
+      `auto_thread needs each target's platform to split for it; couldn't resolve: ${unresolved.join(", ")}`
+    );
+  }
+  const threaded = post.profiles.filter((ref) => PLATFORM_RULES[resolved.get(ref)!]?.threads);
+  if (threaded.length === 0) {
+    return [post];
+  }
+
+  const platforms = [...new Set(threaded.map((ref) => resolved.get(ref)!))];
+  const split = splitIntoThread(post.content, post.media ?? [], { platforms, numbering });
+  const splitPost: PlannedPost = {
+    ...post,
+    content: split.body,
+    media: post.media ? split.media : undefined,
+    thread: split.thread.length > 0 ? split.thread : undefined,
+  };
+  if (threaded.length === post.profiles.length) {
+    return [splitPost];
+  }
+  const rest = post.profiles.filter((ref) => !threaded.includes(ref));
+  return [
+    { ...post, profiles: rest, platforms: platformParamsFor(rest, resolved, post.platforms) },
+    {
+      ...splitPost,
+      variant: post.variant ? `${post.variant}:${AUTO_THREAD_VARIANT}` : AUTO_THREAD_VARIANT,
+      profiles: threaded,
+      platforms: platformParamsFor(threaded, resolved, post.platforms),
+    },
+  ];
+}
 
 export async function handlePostPublish(
   client: PostProxyClient,
@@ -20,42 +314,74 @@ export async function handlePostPublish(
     require_confirmation?: boolean;
     draft?: boolean;
     platforms?: Record<string, Record<string, any>>;
-    thread?: Array<{ body: string; media?: string[] }>;
+    thread?: ThreadInput;
     queue_id?: string;
     queue_priority?: "high" | "medium" | "low";
-  }
+    auto_thread?: boolean;
+    thread_numbering?: boolean;
+    variants?: Record<string, { content?: string; media?: string[]; thread?: ThreadInput }>;
+  },
+  context: ToolContext = {}
 ) {
-  // Validate input
-  try {
-    PostPublishSchema.parse(args);
-  } catch (error: any) {
-    throw createError(ErrorCodes.VALIDATION_ERROR, `Invalid input: ${error.message}`);
+  const hasVariants = !!args.variants && Object.keys(args.variants).length > 0;
+  let planned: PlannedPost[] = hasVariants
+    ? await planVariants(client, { ...args, variants: args.variants! })
+    : [{ profiles: args.profiles, content: args.content, media: args.media, thread: args.thread, platforms: args.platforms }];
+
+  let requireConfirmation = args.require_confirmation;
+  if (args.auto_thread) {
+    planned = (await Promise.all(planned.map((post) => autoThread(client, post, args.thread_numbering)))).flat();
+    // Show the split before it goes out, unless the caller has already seen it
+    requireConfirmation = args.require_confirmation ?? true;
+  }
+
+  // Fail before anything is sent if a platform would reject the text or media
+  const violations: PlatformViolation[] = [];
+  for (const post of planned) {
+    violations.push(...(await lintPost(client, post.profiles, post)).violations);
   }
+  assertWithinPlatformLimits({ violations });
+
+  const mediaViolations: MediaViolation[] = [];
+  for (const post of planned) {
+    mediaViolations.push(...(await inspectMedia(client, post.profiles, post)).violations);
+  }
+  assertMediaWithinPlatformLimits({ violations: mediaViolations });
+
+  // Variants, and auto_thread splitting for only some targets, publish several posts
+  const fannedOut = hasVariants || planned.length > 1;
+  const [base] = planned;
+  const { content, media, thread } = fannedOut
+    ? { content: args.content, media: args.media, thread: args.thread }
+    : base;
 
   // If require_confirmation, return summary without publishing
-  if (args.require_confirmation) {
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              summary: {
-                profiles: args.profiles,
-                content_preview: args.content.substring(0, 100) + (args.content.length > 100 ? "..." : ""),
-                media_count: args.media?.length || 0,
-                schedule_time: args.schedule,
-                draft: args.draft || false,
-                platforms: args.platforms || {},
-                thread: args.thread || [],
-              },
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+  if (requireConfirmation) {
+    return toolResult({
+      summary: {
+        profiles: args.profiles,
+        content_preview: content.substring(0, 100) + (content.length > 100 ? "..." : ""),
+        ...(args.auto_thread && !fannedOut && { body: content, media: media ?? [] }),
+        media_count: media?.length || 0,
+        schedule_time: args.schedule,
+        draft: args.draft || false,
+        platforms: args.platforms || {},
+        thread: thread || [],
+        ...(fannedOut && {
+          posts: planned.map((post) => ({
+            variant: post.variant ?? null,
+            profiles: post.profiles,
+            body: post.content,
+            media: post.media ?? [],
+            thread: post.thread ?? [],
+          })),
+        }),
+      },
+    });
+  }
+
+  if (fannedOut) {
+    return publishVariants(client, args, planned, context);
   }
 
   // Note: The API accepts both profile IDs (hashids) and platform names (e.g., "linkedin", "twitter")
@@ -64,7 +390,7 @@ export async function handlePostPublish(
 
   // Generate idempotency key if not provided
   const idempotencyKey = args.idempotency_key || generateIdempotencyKey(
-    args.content,
+    content,
     args.profiles,
     args.schedule
   );
@@ -76,17 +402,17 @@ export async function handlePostPublish(
   // Create post
   try {
     const response = await client.createPost({
-      content: args.content,
+      content,
       profiles: args.profiles, // API accepts both profile IDs (hashids) and platform names
       schedule: args.schedule,
-      media: args.media,
+      media,
       idempotency_key: idempotencyKey,
       draft: draftValue, // Explicitly pass draft value (true, false, or undefined)
       platforms: args.platforms, // Platform-specific parameters
-      thread: args.thread, // Thread children (X and Threads only)
+      thread, // Thread children (X, Threads and Bluesky only)
       queue_id: args.queue_id,
       queue_priority: args.queue_priority,
-    });
+    }, uploadOptions(context));
 
     // Check if draft was requested but API ignored it
     // Use strict boolean comparison to ensure we catch all cases
@@ -111,128 +437,335 @@ export async function handlePostPublish(
       responseData.warning = "Warning: Draft was requested but API returned draft: false. The post may have been processed immediately. This can happen if the API does not support drafts with media or other parameters.";
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(responseData, null, 2),
-        },
-      ],
-    };
+    return toolResult(responseData);
   } catch (error) {
     logError(error as Error, "post.publish");
+    throw wrapError(error, ErrorCodes.PUBLISH_FAILED, "Failed to publish post");
+  }
+}
+
+/**
+ * Create the posts planned from variants or a partial auto_thread, one after another, under one group ID.
+ * Their idempotency keys share a base, so a retried call skips the posts already created.
+ */
+async function publishVariants(
+  client: PostProxyClient,
+  args: {
+    content: string;
+    profiles: string[];
+    schedule?: string;
+    idempotency_key?: string;
+    draft?: boolean;
+    queue_id?: string;
+    queue_priority?: "high" | "medium" | "low";
+    variants?: Record<string, unknown>;
+  },
+  planned: PlannedPost[],
+  context: ToolContext
+) {
+  const upload = uploadOptions(context);
+  const baseKey = args.idempotency_key || generateIdempotencyKey(
+    JSON.stringify({ content: args.content, variants: args.variants }),
+    args.profiles,
+    args.schedule
+  );
+
+  const created: Array<{ variant: string | null; profiles: string[]; response: CreatePostResponse }> = [];
+  for (const post of planned) {
+    try {
+      const response = await client.createPost({
+        content: post.content,
+        profiles: post.profiles,
+        schedule: args.schedule,
+        media: post.media,
+        idempotency_key: `${baseKey}:${post.variant ?? "base"}`,
+        draft: args.draft,
+        platforms: post.platforms,
+        thread: post.thread,
+        queue_id: args.queue_id,
+        queue_priority: args.queue_priority,
+      }, upload);
+      created.push({ variant: post.variant ?? null, profiles: post.profiles, response });
+    } catch (error) {
+      logError(error as Error, `post.publish (variant ${post.variant ?? "base"})`);
+      if (created.length === 0) {
+        throw wrapError(error, ErrorCodes.PUBLISH_FAILED, "Failed to publish post");
+      }
+      // Some posts already went out: say which, so the call can be retried or the rest cleaned up
+      const wrapped = wrapError(
+        error,
+        ErrorCodes.PUBLISH_FAILED,
+        `Failed to publish the ${post.variant ?? "base"} post after ${created.length} of ${planned.length} were published`
+      );
+      wrapped.details = {
+        ...wrapped.details,
+        group_id: encodePostGroupId(created.map((c) => c.response.id)),
+        published_post_ids: created.map((c) => c.response.id),
+      };
+      throw wrapped;
+    }
+  }
+
+  return toolResult({
+    group_id: encodePostGroupId(created.map((c) => c.response.id)),
+    posts: created.map(({ variant, profiles, response }) => ({
+      variant,
+      profiles,
+      post_id: response.id,
+      status: response.status,
+      draft: response.draft,
+      scheduled_at: response.scheduled_at,
+      created_at: response.created_at,
+    })),
+  });
+}
+
+/**
+ * Parse a post's platforms into the per-platform format of post_status and post_wait
+ */
+function summarizePlatforms(post: PostDetails): Array<{
+  platform: string;
+  status: "pending" | "processing" | "published" | "failed" | "deleted";
+  url?: string;
+  post_id?: string;
+  error?: string | null;
+  error_details?: PlatformErrorDetails | null;
+  attempted_at: string | null;
+  insights?: any;
+}> {
+  return (post.platforms ?? []).map((platform) => ({
+    platform: platform.platform,
+    status: platform.status,
+    url: platform.url,
+    post_id: platform.post_id,
+    error: platform.error || null,
+    error_details: platform.error_details ?? null,
+    attempted_at: platform.attempted_at,
+    insights: platform.insights,
+  }));
+}
+
+/**
+ * post_status result for one post
+ */
+function describePostStatus(postId: string, postDetails: PostDetails) {
+  const result: any = {
+    post_id: postId,
+    overall_status: getOverallStatus(postDetails),
+    draft: postDetails.draft || false,
+    status: postDetails.status,
+    platforms: summarizePlatforms(postDetails),
+  };
+
+  if (postDetails.media && postDetails.media.length > 0) {
+    result.media = postDetails.media;
+  }
+
+  if (postDetails.thread && postDetails.thread.length > 0) {
+    result.thread = postDetails.thread;
+  }
+
+  return result;
+}
+
+export async function handlePostStatus(
+  client: PostProxyClient,
+  args: { post_id?: string; group_id?: string }
+) {
+  if (!args.post_id === !args.group_id) {
+    throw createError(ErrorCodes.VALIDATION_ERROR, "Pass either post_id or group_id");
+  }
+
+  if (args.group_id) {
+    const postIds = decodePostGroupId(args.group_id);
+    try {
+      const posts = await Promise.all(
+        postIds.map(async (postId) => describePostStatus(postId, await client.getPost(postId)))
+      );
+      return toolResult({
+        group_id: args.group_id,
+        overall_status: getGroupOverallStatus(posts.map((post) => post.overall_status)),
+        posts,
+      });
+    } catch (error) {
+      logError(error as Error, "post.status (group)");
+      throw wrapError(error, ErrorCodes.API_ERROR, "Failed to get post group status");
+    }
+  }
+
+  try {
+    const postDetails = await client.getPost(args.post_id!);
+    return toolResult(describePostStatus(args.post_id!, postDetails));
+  } catch (error) {
+    logError(error as Error, "post.status");
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to get post status");
+  }
+}
+
+/**
+ * URL to publish an attachment of an existing post from again
+ */
+function mediaUrl(postId: string, media: MediaAttachment): string {
+  const url = media.url ?? media.source_url;
+  if (!url) {
     throw createError(
-      ErrorCodes.PUBLISH_FAILED,
-      `Failed to publish post: ${(error as Error).message}`
+      ErrorCodes.VALIDATION_ERROR,
+      `Media ${media.id} of post ${postId} has no URL to publish again`
     );
   }
+  return url;
 }
 
-export async function handlePostStatus(
+/**
+ * Profile IDs of a post's failed outcomes. A platform name would resolve to the first
+ * connected profile on it, which may be one that already published. Outcomes without a
+ * profile ID fall back to the platform's only connected profile, and are an error when
+ * there are several.
+ */
+async function failedProfileIds(client: PostProxyClient, postId: string, failed: PlatformOutcome[]): Promise<string[]> {
+  const ids = new Set<string>();
+  for (const outcome of failed) {
+    if (outcome.profile_id) {
+      ids.add(outcome.profile_id);
+      continue;
+    }
+    const connected = (await client.getProfiles()).filter((p) => p.platform === outcome.platform);
+    if (connected.length !== 1) {
+      throw createError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Can't tell which ${outcome.platform} profile failed on post ${postId}: the post doesn't record it and ${connected.length} ${outcome.platform} profiles are connected`,
+        { platform: outcome.platform, connected_profiles: connected.map((p) => p.id) }
+      );
+    }
+    ids.add(connected[0].id);
+  }
+  return [...ids];
+}
+
+export async function handlePostRetryFailed(
   client: PostProxyClient,
-  args: { post_id: string }
+  args: { post_id: string; idempotency_key?: string }
 ) {
   if (!args.post_id) {
     throw createError(ErrorCodes.VALIDATION_ERROR, "post_id is required");
   }
 
   try {
-    const postDetails = await client.getPost(args.post_id);
-
-    // Parse platforms into per-platform format
-    const platforms: Array<{
-      platform: string;
-      status: "pending" | "processing" | "published" | "failed" | "deleted";
-      url?: string;
-      post_id?: string;
-      error?: string | null;
-      error_details?: PlatformErrorDetails | null;
-      attempted_at: string | null;
-      insights?: any;
-    }> = [];
-
-    if (postDetails.platforms) {
-      for (const platform of postDetails.platforms) {
-        platforms.push({
-          platform: platform.platform,
-          status: platform.status,
-          url: platform.url,
-          post_id: platform.post_id,
-          error: platform.error || null,
-          error_details: platform.error_details ?? null,
-          attempted_at: platform.attempted_at,
-          insights: platform.insights,
-        });
-      }
+    const original = await client.getPost(args.post_id);
+    const failed = (original.platforms ?? []).filter((p) => p.status === "failed");
+    if (failed.length === 0) {
+      throw createError(ErrorCodes.VALIDATION_ERROR, `Post ${args.post_id} has no failed platforms to retry`, {
+        overall_status: getOverallStatus(original),
+      });
     }
 
-    // Determine overall status from post status and platform statuses
-    let overallStatus: "pending" | "processing" | "complete" | "failed" | "draft" | "media_processing_failed" = "pending";
-
-    // Handle draft status first
-    if (postDetails.status === "media_processing_failed") {
-      overallStatus = "media_processing_failed";
-    } else if (postDetails.status === "draft" || postDetails.draft === true) {
-      overallStatus = "draft";
-    } else if (postDetails.status === "scheduled") {
-      overallStatus = "pending";
-    } else if (postDetails.status === "processing") {
-      overallStatus = "processing";
-    } else if (postDetails.status === "processed") {
-      if (platforms.length === 0) {
-        overallStatus = "pending";
-      } else {
-        const allPublished = platforms.every((p) => p.status === "published");
-        const allFailed = platforms.every((p) => p.status === "failed");
-        const anyPending = platforms.some((p) => p.status === "pending" || p.status === "processing");
-
-        if (anyPending) {
-          // Only if there are pending/processing platforms - this is truly processing
-          overallStatus = "processing";
-        } else if (allPublished) {
-          overallStatus = "complete";
-        } else if (allFailed) {
-          overallStatus = "failed";
-        } else {
-          // Mixed statuses (some published, some failed) - processing is complete
-          // Use "complete" since processing is finished, details are in platforms
-          overallStatus = "complete";
-        }
+    const profiles = await failedProfileIds(client, original.id, failed);
+    const platforms: Record<string, Record<string, any>> = {};
+    for (const outcome of failed) {
+      if (outcome.params && Object.keys(outcome.params).length > 0) {
+        platforms[outcome.platform] = outcome.params;
       }
-    } else if (postDetails.status === "pending") {
-      overallStatus = "pending";
     }
+    const content = original.body || original.content || "";
 
-    const result: any = {
-      post_id: args.post_id,
-      overall_status: overallStatus,
-      draft: postDetails.draft || false,
-      status: postDetails.status,
-      platforms,
-    };
+    // A queued post goes back into its queue; a schedule that hasn't passed is kept, and one
+    // that has (the failed platforms already tried to publish) means publishing now
+    const queued = !!original.queue_id;
+    const scheduled = !queued && !!original.scheduled_at && Date.parse(original.scheduled_at) > Date.now();
 
-    if (postDetails.media && postDetails.media.length > 0) {
-      result.media = postDetails.media;
-    }
+    // The API has no retry endpoint: publish the same post again, to the failed profiles only.
+    // The default key is tied to the original post, so retrying it twice doesn't publish twice.
+    const response = await client.createPost({
+      content,
+      profiles,
+      schedule: scheduled ? original.scheduled_at! : undefined,
+      draft: original.draft || undefined,
+      queue_id: queued ? original.queue_id! : undefined,
+      media: original.media?.map((m) => mediaUrl(original.id, m)),
+      idempotency_key: args.idempotency_key || generateIdempotencyKey(`retry:${original.id}:${content}`, profiles),
+      platforms: Object.keys(platforms).length > 0 ? platforms : undefined,
+      thread: original.thread?.map((child) => ({
+        body: child.body,
+        ...(child.media && child.media.length > 0 && { media: child.media.map((m) => mediaUrl(original.id, m)) }),
+      })),
+    });
 
-    if (postDetails.thread && postDetails.thread.length > 0) {
-      result.thread = postDetails.thread;
-    }
+    return toolResult({
+      post_id: response.id,
+      retry_of: original.id,
+      retried_platforms: [...new Set(failed.map((p) => p.platform))],
+      retried_profiles: profiles,
+      status: response.status,
+      draft: response.draft,
+      scheduled_at: response.scheduled_at,
+      created_at: response.created_at,
+    });
+  } catch (error) {
+    logError(error as Error, "post.retry_failed");
+    throw wrapError(error, ErrorCodes.PUBLISH_FAILED, "Failed to retry post");
+  }
+}
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+// post_wait polls immediately, then backs off from 1 s to at most 10 s between polls
+const POST_WAIT_INITIAL_DELAY_MS = 1000;
+const POST_WAIT_MAX_DELAY_MS = 10000;
+// Stays under the 60-second request timeout many MCP clients apply
+const POST_WAIT_DEFAULT_TIMEOUT_SECONDS = 50;
+
+export async function handlePostWait(
+  client: PostProxyClient,
+  args: { post_id: string; timeout_seconds?: number },
+  context: ToolContext = {}
+) {
+  if (!args.post_id) {
+    throw createError(ErrorCodes.VALIDATION_ERROR, "post_id is required");
+  }
+
+  const timeoutMs = (args.timeout_seconds ?? POST_WAIT_DEFAULT_TIMEOUT_SECONDS) * 1000;
+  const startedAt = Date.now();
+  let delayMs = POST_WAIT_INITIAL_DELAY_MS;
+  let polls = 0;
+
+  try {
+    for (;;) {
+      const postDetails = await client.getPost(args.post_id);
+      const overallStatus = getOverallStatus(postDetails);
+      const platforms = summarizePlatforms(postDetails);
+      const elapsedMs = Date.now() - startedAt;
+      polls++;
+
+      if (overallStatus === "draft") {
+        // Drafts never publish on their own
+        throw createError(
+          ErrorCodes.VALIDATION_ERROR,
+          `Post ${args.post_id} is a draft. Publish it with post_publish_draft before waiting for it.`
+        );
+      }
+      const done = isTerminalStatus(overallStatus);
+      if (done || elapsedMs >= timeoutMs || context.signal?.aborted) {
+        return toolResult({
+          post_id: args.post_id,
+          overall_status: overallStatus,
+          timed_out: !done,
+          waited_seconds: Math.round(elapsedMs / 100) / 10,
+          polls,
+          platforms,
+        });
+      }
+
+      await context.reportProgress?.(
+        Math.min(elapsedMs, timeoutMs) / 1000,
+        timeoutMs / 1000,
+        `Post ${args.post_id} is ${overallStatus} (${platforms.map((p) => `${p.platform}: ${p.status}`).join(", ")})`
+      );
+
+      // Never sleep past the deadline: the last poll lands on it
+      await sleep(Math.min(delayMs, timeoutMs - elapsedMs), context.signal);
+      delayMs = Math.min(delayMs * 2, POST_WAIT_MAX_DELAY_MS);
+    }
   } catch (error) {
-    logError(error as Error, "post.status");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to get post status: ${(error as Error).message}`
-    );
+    logError(error as Error, "post.wait");
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to wait for post");
   }
 }
 
@@ -258,25 +791,14 @@ export async function handlePostPublishDraft(
     // Publish the draft post
     const publishedPost = await client.publishPost(args.post_id);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              post_id: publishedPost.id,
-              status: publishedPost.status,
-              draft: publishedPost.draft,
-              scheduled_at: publishedPost.scheduled_at,
-              created_at: publishedPost.created_at,
-              message: "Draft post published successfully",
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      post_id: publishedPost.id,
+      status: publishedPost.status,
+      draft: publishedPost.draft,
+      scheduled_at: publishedPost.scheduled_at,
+      created_at: publishedPost.created_at,
+      message: "Draft post published successfully",
+    });
   } catch (error) {
     logError(error as Error, "post.publish_draft");
     
@@ -285,10 +807,7 @@ export async function handlePostPublishDraft(
       throw error;
     }
     
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to publish draft post: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to publish draft post");
   }
 }
 
@@ -305,13 +824,40 @@ export async function handlePostUpdate(
     thread?: Array<{ body: string; media?: string[] }>;
     queue_id?: string;
     queue_priority?: "high" | "medium" | "low";
-  }
+  },
+  context: ToolContext = {}
 ) {
   if (!args.post_id) {
     throw createError(ErrorCodes.VALIDATION_ERROR, "post_id is required");
   }
 
   try {
+    let current: PostDetails | undefined;
+    const currentPost = async () => (current ??= await client.getPost(args.post_id));
+    const profiles = async () => args.profiles ?? (await currentPost()).platforms.map((p) => p.platform);
+
+    // Check the text as it will be after the update: changed fields merged over the current post
+    if ([args.content, args.profiles, args.media, args.thread].some((v) => v !== undefined)) {
+      const post = [args.content, args.media, args.thread].some((v) => v === undefined) ? await currentPost() : undefined;
+      assertWithinPlatformLimits(
+        await lintPost(client, await profiles(), {
+          content: args.content ?? post!.body ?? post!.content ?? "",
+          media: args.media ?? post!.media,
+          thread: args.thread ?? post!.thread,
+        })
+      );
+    }
+
+    // Local files the update uploads are checked against the post's platforms, as post_publish does
+    const paths = [
+      ...(args.media ?? []),
+      ...(args.thread ?? []).flatMap((child) => child.media ?? []),
+      ...Object.values(args.platforms ?? {}).map((params) => params?.cover_url),
+    ];
+    if (paths.some((path) => typeof path === "string" && isFilePath(path))) {
+      assertMediaWithinPlatformLimits(await inspectMedia(client, await profiles(), args));
+    }
+
     const response = await client.updatePost(args.post_id, {
       content: args.content,
       profiles: args.profiles,
@@ -322,27 +868,20 @@ export async function handlePostUpdate(
       thread: args.thread,
       queue_id: args.queue_id,
       queue_priority: args.queue_priority,
+    }, {
+      ...uploadOptions(context),
+      // The queue the post is leaving, when the checks above already fetched it
+      previousQueueId: current ? (current.queue_id ?? null) : undefined,
     });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              post_id: response.id,
-              status: response.status,
-              draft: response.draft,
-              scheduled_at: response.scheduled_at,
-              created_at: response.created_at,
-              message: "Post updated successfully",
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      post_id: response.id,
+      status: response.status,
+      draft: response.draft,
+      scheduled_at: response.scheduled_at,
+      created_at: response.created_at,
+      message: "Post updated successfully",
+    });
   } catch (error) {
     logError(error as Error, "post.update");
 
@@ -350,11 +889,32 @@ export async function handlePostUpdate(
       throw error;
     }
 
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to update post: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to update post");
+  }
+}
+
+export async function handlePostLint(
+  client: PostProxyClient,
+  args: {
+    content: string;
+    profiles: string[];
+    media?: string[];
+    thread?: Array<{ body: string; media?: string[] }>;
+  }
+) {
+  return toolResult(await lintPost(client, args.profiles, args));
+}
+
+export async function handleMediaInspect(
+  client: PostProxyClient,
+  args: {
+    profiles: string[];
+    media?: string[];
+    thread?: Array<{ body: string; media?: string[] }>;
+    platforms?: Record<string, Record<string, any>>;
   }
+) {
+  return toolResult(await inspectMedia(client, args.profiles, args));
 }
 
 export async function handlePostDelete(
@@ -367,28 +927,14 @@ export async function handlePostDelete(
 
   try {
     await client.deletePost(args.post_id, args.delete_on_platform);
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              post_id: args.post_id,
-              deleted: true,
-              delete_on_platform: args.delete_on_platform || false,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      post_id: args.post_id,
+      deleted: true,
+      delete_on_platform: args.delete_on_platform || false,
+    });
   } catch (error) {
     logError(error as Error, "post.delete");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to delete post: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to delete post");
   }
 }
 
@@ -411,76 +957,376 @@ export async function handlePostDeleteOnPlatform(
       profile_id: args.profile_id,
       network: args.network,
     });
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              post_id: args.post_id,
-              scope: args.post_profile_id
-                ? { post_profile_id: args.post_profile_id }
-                : args.profile_id
-                  ? { profile_id: args.profile_id }
-                  : args.network
-                    ? { network: args.network }
-                    : "all",
-              accepted: true,
-              response,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      post_id: args.post_id,
+      scope: args.post_profile_id
+        ? { post_profile_id: args.post_profile_id }
+        : args.profile_id
+          ? { profile_id: args.profile_id }
+          : args.network
+            ? { network: args.network }
+            : "all",
+      accepted: true,
+      response,
+    });
   } catch (error) {
     logError(error as Error, "post.delete_on_platform");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to delete post on platform: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to delete post on platform");
   }
 }
 
 export async function handlePostStats(
   client: PostProxyClient,
   args: {
-    post_ids: string[];
+    post_ids?: string[];
+    group_id?: string;
     profiles?: string;
     from?: string;
     to?: string;
   }
 ) {
-  if (!args.post_ids || args.post_ids.length === 0) {
-    throw createError(ErrorCodes.VALIDATION_ERROR, "post_ids is required and must not be empty");
+  // A group counts as its member posts, alongside any listed
+  const postIds = [...new Set([
+    ...(args.post_ids ?? []),
+    ...(args.group_id ? decodePostGroupId(args.group_id) : []),
+  ])];
+
+  if (postIds.length === 0) {
+    throw createError(ErrorCodes.VALIDATION_ERROR, "post_ids or group_id is required and must not be empty");
   }
 
-  if (args.post_ids.length > 50) {
+  if (postIds.length > 50) {
     throw createError(ErrorCodes.VALIDATION_ERROR, "Maximum 50 post IDs allowed");
   }
 
   try {
     const response = await client.getPostStats({
-      post_ids: args.post_ids,
+      post_ids: postIds,
       profiles: args.profiles,
       from: args.from,
       to: args.to,
     });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "post.stats");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to retrieve post stats: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to retrieve post stats");
   }
 }
+
+export const postTools = [
+  defineTool({
+    name: "post_publish",
+    description: "Publish a post to specified social media profiles. Supports text content, media attachments, scheduling, drafts, threads (X, Threads and Bluesky only), and platform-specific customization via the 'platforms' parameter.",
+    annotations: {
+      title: "Publish Post",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: PostPublishSchema,
+    outputSchema: PostSummaryOutput.partial().extend({
+      warning: z.string().optional(),
+      group_id: z.string().optional().describe("With variants, or auto_thread for only some targets: ID of the published posts as a group, for post_status and post_stats"),
+      posts: z.array(PostSummaryOutput.extend({
+        variant: z.string().nullable().describe("Variant key, or null for the profiles without a variant"),
+        profiles: z.array(z.string()),
+      })).optional().describe("With variants: one post per variant (auto_thread for only some targets adds an auto_thread one)"),
+      summary: z.object({
+        profiles: z.array(z.string()),
+        content_preview: z.string(),
+        media_count: z.number(),
+        schedule_time: z.string().optional(),
+        draft: z.boolean(),
+        platforms: z.record(z.string(), z.unknown()),
+        thread: z.array(z.object({ body: z.string(), media: z.array(z.string()).optional() })),
+        body: z.string().optional().describe("With auto_thread: the full root post"),
+        media: z.array(z.string()).optional().describe("With auto_thread: the root post's media"),
+        posts: z.array(z.object({
+          variant: z.string().nullable(),
+          profiles: z.array(z.string()),
+          body: z.string(),
+          media: z.array(z.string()),
+          thread: z.array(z.object({ body: z.string(), media: z.array(z.string()).optional() })),
+        })).optional().describe("With variants, or auto_thread for only some targets: the post each one would publish"),
+      }).optional().describe("Returned instead of publishing when require_confirmation is true, and by default with auto_thread"),
+    }),
+    handler: handlePostPublish,
+  }),
+  defineTool({
+    name: "post_lint",
+    description: "Check a post against each target platform's text limits without publishing: X 280 weighted characters (links count 23, CJK and emoji count 2), Bluesky 300 graphemes, Threads 500, Instagram 2,200 characters and 30 hashtags, Telegram 4,096 (1,024 with media), and more. Thread children are checked on X, Threads and Bluesky. post_publish and post_update run the same checks and fail with the violations.",
+    annotations: {
+      title: "Lint Post",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: PostPublishSchema.pick({ content: true, profiles: true, media: true, thread: true }),
+    outputSchema: z.object({
+      valid: z.boolean(),
+      violations: z.array(z.object({
+        platform: z.string(),
+        part: z.string().describe("body or thread[i]"),
+        rule: z.enum(["max_length", "max_hashtags"]),
+        limit: z.number(),
+        actual: z.number(),
+        message: z.string(),
+      })),
+      platforms: z.array(z.object({
+        platform: z.string(),
+        parts: z.array(z.object({
+          part: z.string(),
+          length: z.number(),
+          max_length: z.number(),
+          unit: z.string().describe("characters, graphemes or weighted characters"),
+          hashtags: z.number(),
+          max_hashtags: z.number().optional(),
+        })),
+      })),
+      unresolved_profiles: z.array(z.string()).describe("Profile references that aren't a platform name or a known profile ID, so weren't checked"),
+    }),
+    handler: handlePostLint,
+  }),
+  defineTool({
+    name: "media_inspect",
+    description: "Check local media files (in media, thread media and platforms.<platform>.cover_url) against each target platform's requirements without publishing: type, file size, dimensions, aspect ratio, duration and video codec, for the format the post is published as (Instagram post/Reel/Story, Facebook Reel/Story, YouTube video or Short, TikTok video or photo, Pinterest pin, LinkedIn document, covers). Identifies files by their contents and reads image headers (JPEG, PNG, GIF, WebP, HEIC/HEIF, AVIF) and MP4/M4V/MOV boxes; URLs aren't checked. A file whose contents contradict its extension is rejected. post_publish runs the same checks and fails with the violations.",
+    annotations: {
+      title: "Inspect Media",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: PostPublishSchema.pick({ profiles: true, media: true, thread: true, platforms: true }),
+    outputSchema: z.object({
+      valid: z.boolean(),
+      violations: z.array(z.object({
+        platform: z.string(),
+        format: z.string().describe("Format the media is published as, e.g. post, reel, story, short, video, pin or cover"),
+        part: z.string().describe("media[i], thread[i].media[j] or platforms.<platform>.cover_url"),
+        path: z.string(),
+        rule: z.string().describe("type, max_size, min_width, min_height, max_width, max_height, aspect_ratio, min_duration, max_duration or codec"),
+        limit: z.union([z.number(), z.string()]),
+        actual: z.union([z.number(), z.string()]),
+        message: z.string(),
+      })),
+      media: z.array(z.object({
+        part: z.string(),
+        path: z.string(),
+        size_bytes: z.number(),
+        type: z.enum(["image", "video", "document", "captions", "unknown"]).describe("unknown when the file type isn't recognized; it isn't checked"),
+        format: z.string().optional().describe("jpeg, png, gif, webp, heic, heif, avif, mp4, m4v, mov, mkv, webm, avi, pdf or srt, from the file's contents"),
+        mime_type: z.string().optional().describe("MIME type the file is uploaded as; from the extension when the contents aren't recognized"),
+        width: z.number().optional().describe("As displayed, after EXIF orientation or image or video rotation"),
+        height: z.number().optional(),
+        animated: z.boolean().optional().describe("Set for animated WebP images"),
+        aspect_ratio: z.number().optional().describe("Width / height"),
+        duration_seconds: z.number().optional(),
+        video_codec: z.string().optional().describe("e.g. avc1 (H.264) or hvc1 (HEVC)"),
+        audio_codec: z.string().optional(),
+        checked: z.array(z.object({ platform: z.string(), format: z.string() })).describe("Platform formats the file was checked against"),
+      })).describe("Local files inspected"),
+      unresolved_profiles: z.array(z.string()).describe("Profile references that aren't a platform name or a known profile ID, so weren't checked"),
+    }),
+    handler: handleMediaInspect,
+  }),
+  defineTool({
+    name: "post_status",
+    description: "Get status of a published post by post ID, or of every post in a group by the group_id post_publish returns for variants",
+    annotations: {
+      title: "Get Post Status",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      post_id: z.string().optional().describe("Post ID from post.publish response"),
+      group_id: z.string().optional().describe("Group ID from a post.publish response with variants, instead of post_id"),
+    }),
+    outputSchema: z.object({
+      post_id: z.string().optional(),
+      group_id: z.string().optional(),
+      overall_status: OverallStatusOutput,
+      draft: z.boolean().optional(),
+      status: z.string().optional(),
+      platforms: z.array(PlatformStatusOutput).optional(),
+      media: z.array(MediaAttachmentOutput).optional(),
+      thread: z.array(ThreadItemOutput).optional(),
+      posts: z.array(z.object({
+        post_id: z.string(),
+        overall_status: OverallStatusOutput,
+        draft: z.boolean(),
+        status: z.string(),
+        platforms: z.array(PlatformStatusOutput),
+        media: z.array(MediaAttachmentOutput).optional(),
+        thread: z.array(ThreadItemOutput).optional(),
+      })).optional().describe("With group_id: the status of each post in the group"),
+    }),
+    handler: handlePostStatus,
+  }),
+  defineTool({
+    name: "post_wait",
+    description: "Wait until a post finishes publishing (overall_status complete, failed or media_processing_failed) and return the per-platform outcome with URLs and error details. Use instead of polling post_status after post_publish or post_publish_draft. Sends progress notifications while waiting; if the timeout passes first, returns the current status with timed_out: true, and you can call it again to keep waiting.",
+    annotations: {
+      title: "Wait for Post",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID from post.publish response"),
+      timeout_seconds: z.number().positive().max(600).optional().describe(`How long to wait before returning the current status (default: ${POST_WAIT_DEFAULT_TIMEOUT_SECONDS}, max: 600)`),
+    }),
+    outputSchema: z.object({
+      post_id: z.string(),
+      overall_status: OverallStatusOutput,
+      timed_out: z.boolean().describe("True if the post was still in progress when the timeout passed"),
+      waited_seconds: z.number(),
+      polls: z.number(),
+      platforms: z.array(PlatformStatusOutput),
+    }),
+    handler: handlePostWait,
+  }),
+  defineTool({
+    name: "post_retry_failed",
+    description: "Retry only the platforms that failed on a post. Publishes the original body, media, thread and platform parameters again as a new post to the failed profiles, keeping its draft flag, queue and a schedule that hasn't passed; the result links back to the original with retry_of. Fix the cause first (e.g. reconnect an expired profile) — check error_details in post_status or post_wait.",
+    annotations: {
+      title: "Retry Failed Platforms",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post whose failed platforms should be retried"),
+      idempotency_key: z.string().optional().describe("Optional idempotency key. Defaults to one derived from the original post, so repeating the call returns the same retry; pass a new key to retry the same post again."),
+    }),
+    outputSchema: PostSummaryOutput.extend({
+      retry_of: z.string().describe("ID of the original post"),
+      retried_platforms: z.array(z.string()),
+      retried_profiles: z.array(z.string()).describe("Profile IDs the retry was sent to"),
+    }),
+    handler: handlePostRetryFailed,
+  }),
+  defineTool({
+    name: "post_publish_draft",
+    description: "Publish a draft post. Only posts with draft status can be published using this endpoint",
+    annotations: {
+      title: "Publish Draft",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID of the draft post to publish"),
+    }),
+    outputSchema: PostSummaryOutput.extend({
+      message: z.string(),
+    }),
+    handler: handlePostPublishDraft,
+  }),
+  defineTool({
+    name: "post_update",
+    description: "Update an existing post. Only drafts or scheduled posts (more than 5 min before publish) can be updated. Only send fields you want to change — omitted fields are left unchanged.",
+    annotations: {
+      title: "Update Post",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID to update"),
+      content: z.string().optional().describe("Updated text content"),
+      profiles: z.array(z.string()).optional().describe("Replace all profiles (array of profile IDs or platform names). Full replace — omit to keep existing."),
+      schedule: z.string().optional().describe("Updated ISO 8601 scheduled time"),
+      draft: z.boolean().optional().describe("Set or unset draft status"),
+      media: z.array(z.string()).optional().describe("Replace all media (array of media URLs or local file paths, which are uploaded). Full replace — send empty array to remove all. Omit to keep existing."),
+      platforms: z.record(z.string(), z.any()).optional().describe("Platform-specific parameters (merged with existing). Same structure as post.publish; a local cover_url file is uploaded."),
+      thread: z.array(z.object({
+        body: z.string().describe("Text content for this thread post"),
+        media: z.array(z.string()).optional().describe("Optional media URLs or local file paths"),
+      })).optional().describe("Replace all thread children (full replace). Send empty array to remove all. Omit to keep existing."),
+      queue_id: z.string().optional().describe("Queue ID to assign the post to"),
+      queue_priority: z.enum(["high", "medium", "low"]).optional().describe("Queue priority"),
+    }),
+    outputSchema: PostSummaryOutput.extend({
+      message: z.string(),
+    }),
+    handler: handlePostUpdate,
+  }),
+  defineTool({
+    name: "post_delete",
+    description: "Delete a post from the database. By default does NOT remove from social media platforms. Pass delete_on_platform=true to also remove from all published platforms before DB deletion.",
+    annotations: {
+      title: "Delete Post",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID to delete"),
+      delete_on_platform: z.boolean().optional().describe("If true, also deletes the post from all published platforms before removing it from the database. Defaults to false."),
+    }),
+    outputSchema: z.object({
+      post_id: z.string(),
+      deleted: z.boolean(),
+      delete_on_platform: z.boolean(),
+    }),
+    handler: handlePostDelete,
+  }),
+  defineTool({
+    name: "post_delete_on_platform",
+    description: "Delete a published post from social media platforms WITHOUT removing it from the database. Async via background job. Optionally narrow scope by post_profile_id (covers entire thread for that profile), profile_id, or network. With no scope, deletes from all published platforms. Supported: Facebook, Threads, X (Twitter), LinkedIn, Pinterest, YouTube. NOT supported: Instagram, TikTok.",
+    annotations: {
+      title: "Delete Post on Platform",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      post_id: z.string().describe("Post ID"),
+      post_profile_id: z.string().optional().describe("ID of a specific post profile. Resolves to underlying profile and deletes across the full thread (parent + children)."),
+      profile_id: z.string().optional().describe("ID of a profile. Deletes all post profiles for this profile on the post."),
+      network: z.string().optional().describe("Network name (e.g. twitter, facebook, threads, linkedin, pinterest, youtube). Deletes all post profiles for this network on the post."),
+    }),
+    outputSchema: z.object({
+      post_id: z.string(),
+      scope: z.union([z.record(z.string(), z.string()), z.literal("all")]),
+      accepted: z.boolean(),
+      response: z.unknown(),
+    }),
+    handler: handlePostDeleteOnPlatform,
+  }),
+  defineTool({
+    name: "post_stats",
+    description: "Get stats snapshots for one or more posts. Returns all matching snapshots so you can see trends over time. Supports filtering by profiles/networks and timespan.",
+    annotations: {
+      title: "Get Post Stats",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      post_ids: z.array(z.string()).optional().describe("Array of post hashids (max 50)"),
+      group_id: z.string().optional().describe("Group ID from a post.publish response with variants; includes stats for every post in the group"),
+      profiles: z.string().optional().describe("Optional comma-separated list of profile hashids or network names (e.g. 'instagram,twitter' or 'abc123,def456' or mixed)"),
+      from: z.string().optional().describe("Optional ISO 8601 timestamp — only include snapshots recorded at or after this time"),
+      to: z.string().optional().describe("Optional ISO 8601 timestamp — only include snapshots recorded at or before this time"),
+    }),
+    outputSchema: z.object({
+      data: z.record(z.string(), z.object({
+        platforms: z.array(z.object({
+          profile_id: z.string(),
+          platform: z.string(),
+          records: z.array(StatsRecordOutput),
+        })),
+      })).describe("Stats keyed by post ID"),
+    }),
+    handler: handlePostStats,
+  }),
+];
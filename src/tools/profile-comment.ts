@@ -6,9 +6,18 @@
  * Google Business reviews (which live on a location, not a post).
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import { collectItems } from "../api/pagination.js";
+import { createError, ErrorCodes, wrapError } from "../utils/errors.js";
 import { logError } from "../utils/logger.js";
+import { AllPagesSchema, MaxItemsSchema } from "../utils/validation.js";
+import { defineTool, toolResult } from "./registry.js";
+import {
+  CommentActionOutput,
+  ProfileCommentOutput,
+  paginatedOutput,
+} from "./output-schemas.js";
 
 export async function handleProfileCommentsList(
   client: PostProxyClient,
@@ -17,6 +26,8 @@ export async function handleProfileCommentsList(
     placement_id?: string;
     page?: number;
     per_page?: number;
+    all?: boolean;
+    max_items?: number;
   }
 ) {
   if (!args.profile_id) {
@@ -24,26 +35,19 @@ export async function handleProfileCommentsList(
   }
 
   try {
-    const response = await client.listProfileComments(args.profile_id, {
+    const params = {
       placement_id: args.placement_id,
       page: args.page,
       per_page: args.per_page,
-    });
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
     };
+    const response = args.all || args.max_items !== undefined
+      ? await collectItems(client.iterateProfileComments(args.profile_id, params), args.max_items)
+      : await client.listProfileComments(args.profile_id, params);
+
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "profile_comments.list");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to list profile comments: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to list profile comments");
   }
 }
 
@@ -64,20 +68,10 @@ export async function handleProfileCommentsGet(
   try {
     const response = await client.getProfileComment(args.profile_id, args.comment_id);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "profile_comments.get");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to get profile comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to get profile comment");
   }
 }
 
@@ -105,20 +99,10 @@ export async function handleProfileCommentsCreate(
       text: args.text,
     });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "profile_comments.create");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to create profile comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to create profile comment");
   }
 }
 
@@ -139,19 +123,83 @@ export async function handleProfileCommentsDelete(
   try {
     const response = await client.deleteProfileComment(args.profile_id, args.comment_id);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "profile_comments.delete");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to delete profile comment: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to delete profile comment");
   }
 }
+
+export const profileCommentTools = [
+  defineTool({
+    name: "profile_comments_list",
+    description: "List profile-scoped comments. Currently surfaces Google Business reviews (reviews live on a location, not a post, so they cannot be reached via comments_list). Each item may include nested replies. Reviews sync from Google twice daily (06:00 and 18:00 UTC).",
+    annotations: {
+      title: "List Profile Comments",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      profile_id: z.string().describe("Profile hashid (must be a google_business profile today)."),
+      placement_id: z.string().optional().describe("Optional. Filter to reviews on a single location — pass the 'accounts/X/locations/Y' path from profiles_placements."),
+      page: z.number().optional().describe("Page number (zero-indexed). Default 0."),
+      per_page: z.number().optional().describe("Items per page. Default 20."),
+      all: AllPagesSchema,
+      max_items: MaxItemsSchema,
+    }),
+    outputSchema: paginatedOutput(ProfileCommentOutput),
+    handler: handleProfileCommentsList,
+  }),
+  defineTool({
+    name: "profile_comments_get",
+    description: "Get a single profile comment (review or your reply) by Postproxy hashid or the platform's external_id (e.g. 'accounts/.../locations/.../reviews/...').",
+    annotations: {
+      title: "Get Profile Comment",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      profile_id: z.string().describe("Profile hashid"),
+      comment_id: z.string().describe("Postproxy hashid OR the platform's external_id (the full resource path is accepted)."),
+    }),
+    outputSchema: ProfileCommentOutput,
+    handler: handleProfileCommentsGet,
+  }),
+  defineTool({
+    name: "profile_comments_create",
+    description: "Reply to an existing profile comment (Google Business review). Top-level comments are NOT allowed — you can only reply to a review that already exists. parent_id is required. Response is returned immediately with status 'pending'; a background job then publishes to Google and updates status to 'published' or 'failed'.",
+    annotations: {
+      title: "Reply to Profile Comment",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      profile_id: z.string().describe("Profile hashid (google_business profile)."),
+      parent_id: z.string().describe("Postproxy hashid OR external_id of the review being replied to."),
+      text: z.string().describe("Reply body."),
+    }),
+    outputSchema: ProfileCommentOutput,
+    handler: handleProfileCommentsCreate,
+  }),
+  defineTool({
+    name: "profile_comments_delete",
+    description: "Delete your reply to a profile comment. Only your own reply is removed — the underlying review is NOT deleted (Google does not allow businesses to delete reviews). Returns {accepted: true} while the delete is dispatched asynchronously.",
+    annotations: {
+      title: "Delete Profile Comment Reply",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      profile_id: z.string().describe("Profile hashid"),
+      comment_id: z.string().describe("Postproxy hashid OR external_id of YOUR reply to remove."),
+    }),
+    outputSchema: CommentActionOutput,
+    handler: handleProfileCommentsDelete,
+  }),
+];
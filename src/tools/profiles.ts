@@ -2,20 +2,27 @@
  * Profiles tools: profiles.list, profiles.placements
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import { getApiKey } from "../auth/credentials.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import { createError, ErrorCodes, wrapError } from "../utils/errors.js";
 import { logError, logToolCall } from "../utils/logger.js";
+import { CacheModeSchema } from "../utils/validation.js";
+import type { CacheMode } from "../api/cache.js";
+import { defineTool, toolResult } from "./registry.js";
+import {
+  PlacementOutput,
+  ProfileGroupOutput,
+  StatsRecordOutput,
+} from "./output-schemas.js";
 
 export async function handleProfilesList(
   client: PostProxyClient,
-  args: { profile_group_id?: string } = {}
+  args: { profile_group_id?: string; cache?: CacheMode } = {}
 ) {
   logToolCall("profiles.list", args);
 
   // Check API key
-  const apiKey = getApiKey();
-  if (!apiKey) {
+  if (!client.hasApiKey()) {
     throw createError(ErrorCodes.AUTH_MISSING, "API key is not configured");
   }
 
@@ -30,11 +37,11 @@ export async function handleProfilesList(
     // If a specific group is requested, only fetch that group's profiles.
     const groupIds: string[] = args.profile_group_id
       ? [args.profile_group_id]
-      : (await client.getProfileGroups()).map((g) => g.id);
+      : (await client.getProfileGroups({ cache: args.cache })).map((g) => g.id);
 
     for (const groupId of groupIds) {
       try {
-        const profiles = await client.getProfiles(groupId);
+        const profiles = await client.getProfiles(groupId, { cache: args.cache });
         for (const profile of profiles) {
           allProfiles.push({
             id: profile.id, // Already a string
@@ -49,54 +56,32 @@ export async function handleProfilesList(
       }
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              profiles: allProfiles,
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      profiles: allProfiles,
+    });
   } catch (error) {
     logError(error as Error, "profiles.list");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to retrieve profiles: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to retrieve profiles");
   }
 }
 
-export async function handleProfileGroupsList(client: PostProxyClient) {
-  logToolCall("profile_groups.list", {});
+export async function handleProfileGroupsList(
+  client: PostProxyClient,
+  args: { cache?: CacheMode } = {}
+) {
+  logToolCall("profile_groups.list", args);
 
-  const apiKey = getApiKey();
-  if (!apiKey) {
+  if (!client.hasApiKey()) {
     throw createError(ErrorCodes.AUTH_MISSING, "API key is not configured");
   }
 
   try {
-    const profileGroups = await client.getProfileGroups();
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({ profile_groups: profileGroups }, null, 2),
-        },
-      ],
-    };
+    const profileGroups = await client.getProfileGroups({ cache: args.cache });
+
+    return toolResult({ profile_groups: profileGroups });
   } catch (error) {
     logError(error as Error, "profile_groups.list");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to retrieve profile groups: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to retrieve profile groups");
   }
 }
 
@@ -128,8 +113,7 @@ export async function handleProfileGroupsInitializeConnection(
     throw createError(ErrorCodes.VALIDATION_ERROR, "bot_token is required for telegram");
   }
 
-  const apiKey = getApiKey();
-  if (!apiKey) {
+  if (!client.hasApiKey()) {
     throw createError(ErrorCodes.AUTH_MISSING, "API key is not configured");
   }
 
@@ -149,26 +133,16 @@ export async function handleProfileGroupsInitializeConnection(
       body
     );
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+    return toolResult(result);
   } catch (error) {
     logError(error as Error, "profile_groups.initialize_connection");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to initialize profile group connection: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to initialize profile group connection");
   }
 }
 
 export async function handleProfilesPlacements(
   client: PostProxyClient,
-  args: { profile_id: string }
+  args: { profile_id: string; cache?: CacheMode }
 ) {
   logToolCall("profiles.placements", args);
 
@@ -176,28 +150,17 @@ export async function handleProfilesPlacements(
     throw createError(ErrorCodes.VALIDATION_ERROR, "profile_id is required");
   }
 
-  const apiKey = getApiKey();
-  if (!apiKey) {
+  if (!client.hasApiKey()) {
     throw createError(ErrorCodes.AUTH_MISSING, "API key is not configured");
   }
 
   try {
-    const placements = await client.getPlacements(args.profile_id);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({ placements }, null, 2),
-        },
-      ],
-    };
+    const placements = await client.getPlacements(args.profile_id, { cache: args.cache });
+
+    return toolResult({ placements });
   } catch (error) {
     logError(error as Error, "profiles.placements");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to retrieve placements: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to retrieve placements");
   }
 }
 
@@ -211,27 +174,125 @@ export async function handleProfilesStats(
     throw createError(ErrorCodes.VALIDATION_ERROR, "profile_id is required");
   }
 
-  const apiKey = getApiKey();
-  if (!apiKey) {
+  if (!client.hasApiKey()) {
     throw createError(ErrorCodes.AUTH_MISSING, "API key is not configured");
   }
 
   try {
     const response = await client.getProfileStats(args);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    return toolResult(response);
   } catch (error) {
     logError(error as Error, "profiles.stats");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to retrieve profile stats: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to retrieve profile stats");
   }
 }
+
+export const profileTools = [
+  defineTool({
+    name: "profile_groups_list",
+    description: "List all profile groups accessible with your API key. Profile groups are organizational containers (e.g. per brand or client) that hold related social media profiles. Use the returned group `id` to filter profiles_list by profile_group_id.",
+    annotations: {
+      title: "List Profile Groups",
+      readOnlyHint: true,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      cache: CacheModeSchema,
+    }),
+    outputSchema: z.object({
+      profile_groups: z.array(ProfileGroupOutput),
+    }),
+    handler: handleProfileGroupsList,
+  }),
+  defineTool({
+    name: "profile_groups_initialize_connection",
+    description: "Generate a URL to connect a new social media profile to a profile group (initiates the OAuth/connect flow). For bluesky, pass identifier + app_password. For telegram, pass bot_token. The returned URL should be opened by the user to complete the connection.",
+    annotations: {
+      title: "Initialize Profile Connection",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({
+      profile_group_id: z.string().describe("Profile group ID (hashid) to connect a profile to"),
+      platform: z.string().describe("Platform to connect (e.g. 'instagram', 'linkedin', 'bluesky', 'telegram')"),
+      identifier: z.string().optional().describe("Bluesky handle (e.g. yourname.bsky.social). Required for bluesky."),
+      app_password: z.string().optional().describe("Bluesky app password (bsky.app/settings/app-passwords). Required for bluesky."),
+      bot_token: z.string().optional().describe("Telegram bot token from @BotFather. Required for telegram."),
+    }),
+    outputSchema: z.object({
+      url: z.string().optional().describe("URL the user opens to complete the connection"),
+    }),
+    handler: handleProfileGroupsInitializeConnection,
+  }),
+  defineTool({
+    name: "profiles_list",
+    description: "List all available social media profiles for posting. Optionally filter by profile_group_id.",
+    annotations: {
+      title: "List Profiles",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      profile_group_id: z.string().optional().describe("Optional profile group ID (hashid). If provided, only profiles in this group are returned."),
+      cache: CacheModeSchema,
+    }),
+    outputSchema: z.object({
+      profiles: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        platform: z.string(),
+        profile_group_id: z.string(),
+      })),
+    }),
+    handler: handleProfilesList,
+  }),
+  defineTool({
+    name: "profiles_placements",
+    description: "List available placements for a profile. For Facebook: business pages. For LinkedIn: personal profile and organizations. For Pinterest: boards. For Telegram: channels the bot can post to. For Google Business: locations (returned as full resource paths 'accounts/X/locations/Y' to pass as location_id). Available for facebook, linkedin, pinterest, telegram, and google_business profiles.",
+    annotations: {
+      title: "List Profile Placements",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      profile_id: z.string().describe("Profile hashid"),
+      cache: CacheModeSchema,
+    }),
+    outputSchema: z.object({
+      placements: z.array(PlacementOutput),
+    }),
+    handler: handleProfilesPlacements,
+  }),
+  defineTool({
+    name: "profiles_stats",
+    description: "Get the follower/engagement timeseries for a profile. Returns daily snapshots (captured every ~23h). placement_id is required for facebook, linkedin, and telegram profiles (get it from profiles_placements); omit for other networks. Fields in records[].stats are platform-native and not normalized.",
+    annotations: {
+      title: "Get Profile Stats",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      profile_id: z.string().describe("Profile hashid"),
+      placement_id: z.string().optional().describe("Required for facebook, linkedin, and telegram profiles. Get it from profiles_placements. Omit for instagram/threads/youtube/twitter/tiktok/pinterest/bluesky."),
+      from: z.string().optional().describe("Optional ISO 8601 timestamp — only include snapshots recorded at or after this time"),
+      to: z.string().optional().describe("Optional ISO 8601 timestamp — only include snapshots recorded at or before this time"),
+    }),
+    outputSchema: z.object({
+      data: z.object({
+        profile_id: z.string(),
+        platform: z.string(),
+        placement_id: z.string().nullable(),
+        records: z.array(StatsRecordOutput),
+      }),
+    }),
+    handler: handleProfilesStats,
+  }),
+];
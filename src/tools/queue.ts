@@ -2,82 +2,72 @@
  * Queue tools: queues.list, queues.get, queues.create, queues.update, queues.delete, queues.next_slot
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import { createError, ErrorCodes, wrapError } from "../utils/errors.js";
 import { logError } from "../utils/logger.js";
+import { CacheModeSchema } from "../utils/validation.js";
+import type { CacheMode } from "../api/cache.js";
+import { defineTool, toolResult } from "./registry.js";
+import { QueueOutput, QueueTimeslotOutput } from "./output-schemas.js";
 
 const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
+// Result of queues_get, queues_create and queues_update (the last two add a message)
+const QueueDetailsOutput = QueueOutput.extend({
+  timeslots: z.array(QueueTimeslotOutput),
+  timeslots_formatted: z.array(z.string()),
+  message: z.string().optional(),
+});
+
 function formatTimeslots(timeslots: Array<{ id: number; day: number; time: string }>): string[] {
   return timeslots.map((ts) => `${DAY_NAMES[ts.day]} at ${ts.time} (id: ${ts.id})`);
 }
 
 export async function handleQueuesList(
   client: PostProxyClient,
-  args: { profile_group_id?: string }
+  args: { profile_group_id?: string; cache?: CacheMode }
 ) {
   try {
-    const queues = await client.listQueues(args.profile_group_id);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              queues: queues.map((q) => ({
-                id: q.id,
-                name: q.name,
-                description: q.description,
-                timezone: q.timezone,
-                enabled: q.enabled,
-                jitter: q.jitter,
-                profile_group_id: q.profile_group_id,
-                timeslots: formatTimeslots(q.timeslots),
-                posts_count: q.posts_count,
-              })),
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    const queues = await client.listQueues(args.profile_group_id, { cache: args.cache });
+
+    return toolResult({
+      queues: queues.map((q) => ({
+        id: q.id,
+        name: q.name,
+        description: q.description,
+        timezone: q.timezone,
+        enabled: q.enabled,
+        jitter: q.jitter,
+        profile_group_id: q.profile_group_id,
+        timeslots: formatTimeslots(q.timeslots),
+        posts_count: q.posts_count,
+      })),
+    });
   } catch (error) {
     logError(error as Error, "queues.list");
-    throw createError(ErrorCodes.API_ERROR, `Failed to list queues: ${(error as Error).message}`);
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to list queues");
   }
 }
 
 export async function handleQueuesGet(
   client: PostProxyClient,
-  args: { queue_id: string }
+  args: { queue_id: string; cache?: CacheMode }
 ) {
   if (!args.queue_id) {
     throw createError(ErrorCodes.VALIDATION_ERROR, "queue_id is required");
   }
 
   try {
-    const queue = await client.getQueue(args.queue_id);
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              ...queue,
-              timeslots_formatted: formatTimeslots(queue.timeslots),
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    const queue = await client.getQueue(args.queue_id, { cache: args.cache });
+
+    return toolResult({
+      ...queue,
+      timeslots_formatted: formatTimeslots(queue.timeslots),
+    });
   } catch (error) {
     logError(error as Error, "queues.get");
-    throw createError(ErrorCodes.API_ERROR, `Failed to get queue: ${(error as Error).message}`);
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to get queue");
   }
 }
 
@@ -109,25 +99,14 @@ export async function handleQueuesCreate(
       timeslots: args.timeslots,
     });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              ...queue,
-              timeslots_formatted: formatTimeslots(queue.timeslots),
-              message: "Queue created successfully",
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      ...queue,
+      timeslots_formatted: formatTimeslots(queue.timeslots),
+      message: "Queue created successfully",
+    });
   } catch (error) {
     logError(error as Error, "queues.create");
-    throw createError(ErrorCodes.API_ERROR, `Failed to create queue: ${(error as Error).message}`);
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to create queue");
   }
 }
 
@@ -157,25 +136,14 @@ export async function handleQueuesUpdate(
       timeslots: args.timeslots,
     });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              ...queue,
-              timeslots_formatted: formatTimeslots(queue.timeslots),
-              message: "Queue updated successfully",
-            },
-            null,
-            2
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      ...queue,
+      timeslots_formatted: formatTimeslots(queue.timeslots),
+      message: "Queue updated successfully",
+    });
   } catch (error) {
     logError(error as Error, "queues.update");
-    throw createError(ErrorCodes.API_ERROR, `Failed to update queue: ${(error as Error).message}`);
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to update queue");
   }
 }
 
@@ -190,17 +158,10 @@ export async function handleQueuesDelete(
   try {
     await client.deleteQueue(args.queue_id);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify({ queue_id: args.queue_id, deleted: true }, null, 2),
-        },
-      ],
-    };
+    return toolResult({ queue_id: args.queue_id, deleted: true });
   } catch (error) {
     logError(error as Error, "queues.delete");
-    throw createError(ErrorCodes.API_ERROR, `Failed to delete queue: ${(error as Error).message}`);
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to delete queue");
   }
 }
 
@@ -215,16 +176,139 @@ export async function handleQueuesNextSlot(
   try {
     const result = await client.getQueueNextSlot(args.queue_id);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
+    return toolResult(result);
   } catch (error) {
     logError(error as Error, "queues.next_slot");
-    throw createError(ErrorCodes.API_ERROR, `Failed to get next slot: ${(error as Error).message}`);
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to get next slot");
   }
 }
+
+export const queueTools = [
+  defineTool({
+    name: "queues_list",
+    description: "List all posting queues. Queues automatically schedule posts into recurring weekly timeslots with priority-based ordering.",
+    annotations: {
+      title: "List Queues",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      profile_group_id: z.string().optional().describe("Optional profile group ID to filter queues"),
+      cache: CacheModeSchema,
+    }),
+    outputSchema: z.object({
+      queues: z.array(QueueOutput.extend({
+        timeslots: z.array(z.string()).describe("Human-readable timeslots, e.g. 'Monday at 09:00 (id: 1)'"),
+      })),
+    }),
+    handler: handleQueuesList,
+  }),
+  defineTool({
+    name: "queues_get",
+    description: "Get details of a single posting queue including its timeslots and post count",
+    annotations: {
+      title: "Get Queue Details",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      queue_id: z.string().describe("Queue ID"),
+      cache: CacheModeSchema,
+    }),
+    outputSchema: QueueDetailsOutput,
+    handler: handleQueuesGet,
+  }),
+  defineTool({
+    name: "queues_create",
+    description: "Create a new posting queue with weekly timeslots. Use profiles.list to find the profile_group_id.",
+    annotations: {
+      title: "Create Queue",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      profile_group_id: z.string().describe("Profile group ID to connect the queue to"),
+      name: z.string().describe("Queue name"),
+      description: z.string().optional().describe("Optional description"),
+      timezone: z.string().optional().describe("IANA timezone name (e.g. 'America/New_York'). Default: UTC"),
+      jitter: z.number().optional().describe("Random offset in minutes (0-60) applied to scheduled times for natural posting patterns. Default: 0"),
+      timeslots: z.array(z.object({
+        day: z.number().describe("Day of week: 0=Sunday, 1=Monday, ..., 6=Saturday"),
+        time: z.string().describe("Time in 24-hour HH:MM format (e.g. '09:00', '14:30')"),
+      })).optional().describe("Initial weekly timeslots"),
+    }),
+    outputSchema: QueueDetailsOutput,
+    handler: handleQueuesCreate,
+  }),
+  defineTool({
+    name: "queues_update",
+    description: "Update a queue's settings, timeslots, or pause/unpause it. Changes to timezone or timeslots trigger rearrangement of all queued posts.",
+    annotations: {
+      title: "Update Queue",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      queue_id: z.string().describe("Queue ID to update"),
+      name: z.string().optional().describe("New queue name"),
+      description: z.string().optional().describe("New description"),
+      timezone: z.string().optional().describe("IANA timezone name"),
+      enabled: z.boolean().optional().describe("Set to false to pause the queue, true to unpause"),
+      jitter: z.number().optional().describe("Random offset in minutes (0-60)"),
+      timeslots: z.array(z.union([
+        z.object({
+          day: z.number().describe("Day of week (0-6) — for adding"),
+          time: z.string().describe("Time HH:MM — for adding"),
+        }),
+        z.object({
+          id: z.number().describe("Timeslot ID — for removing"),
+          _destroy: z.literal(true).describe("Set to true to remove a timeslot by id"),
+        }),
+      ])).optional().describe("Timeslots to add or remove. To add: {day, time}. To remove: {id, _destroy: true}."),
+    }),
+    outputSchema: QueueDetailsOutput,
+    handler: handleQueuesUpdate,
+  }),
+  defineTool({
+    name: "queues_delete",
+    description: "Delete a posting queue. Posts in the queue will have their queue reference removed but will not be deleted.",
+    annotations: {
+      title: "Delete Queue",
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      queue_id: z.string().describe("Queue ID to delete"),
+    }),
+    outputSchema: z.object({
+      queue_id: z.string(),
+      deleted: z.boolean(),
+    }),
+    handler: handleQueuesDelete,
+  }),
+  defineTool({
+    name: "queues_next_slot",
+    description: "Get the next available timeslot for a queue",
+    annotations: {
+      title: "Get Next Queue Slot",
+      readOnlyHint: true,
+      destructiveHint: false,
+      openWorldHint: false,
+    },
+    inputSchema: z.object({
+      queue_id: z.string().describe("Queue ID"),
+    }),
+    outputSchema: z.object({
+      next_slot: z.string(),
+    }),
+    handler: handleQueuesNextSlot,
+  }),
+];
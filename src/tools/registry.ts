@@ -0,0 +1,167 @@
+/**
+ * Declarative tool registry.
+ *
+ * Each tool is declared once with Zod input and output schemas, annotations and a
+ * handler. The JSON Schemas published in tools/list are derived from the Zod schemas,
+ * and every call is validated against the input schema before the handler runs.
+ */
+
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { PostProxyClient } from "../api/client.js";
+import type { UploadOptions } from "../api/multipart.js";
+import { createError, describeToolError, ErrorCodes } from "../utils/errors.js";
+import { formatZodError } from "../utils/validation.js";
+
+// A type alias (not an interface) so results stay assignable to the SDK's open-ended Result type
+export type ToolResult = {
+  content: Array<{ type: string; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+export interface ToolAnnotations {
+  title: string;
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  idempotentHint?: boolean;
+  openWorldHint: boolean;
+}
+
+/**
+ * Per-call context from the runtime. The Node server fills it in from the request;
+ * the Worker answers with a single JSON response and passes none.
+ */
+export interface ToolContext {
+  signal?: AbortSignal; // Aborted when the client cancels the call
+  // Sends notifications/progress; only set when the client asked for progress
+  reportProgress?: (progress: number, total?: number, message?: string) => Promise<void>;
+}
+
+/**
+ * Client upload options for a tool call: uploads stop when the call is cancelled, and
+ * upload progress (in bytes) is sent as progress notifications. Uploads made with the
+ * same options add up, so progress keeps increasing across the several posts a
+ * post_publish call with variants creates.
+ */
+export function uploadOptions(context: ToolContext): UploadOptions {
+  const report = context.reportProgress;
+  if (!report) {
+    return { signal: context.signal };
+  }
+  const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+  let finished = 0; // Bytes of the uploads that have completed
+  return {
+    signal: context.signal,
+    onProgress: (sent, total) => {
+      report(finished + sent, finished + total, `Uploading media: ${mb(finished + sent)} of ${mb(finished + total)} MB`).catch(
+        () => undefined // A lost notification shouldn't fail the upload
+      );
+      if (sent === total) {
+        finished += total;
+      }
+    },
+  };
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  annotations: ToolAnnotations;
+  inputSchema: S;
+  outputSchema: z.AnyZodObject; // Shape of the result's structuredContent
+  // Declared as a method so a tool with a specific input schema is still a ToolDefinition;
+  // runTool only calls it with arguments that passed inputSchema
+  handler(client: PostProxyClient, args: z.infer<S>, context: ToolContext): Promise<ToolResult>;
+}
+
+/**
+ * Declare a tool. Ties the handler's argument type to the inferred input schema.
+ */
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition {
+  return definition;
+}
+
+/**
+ * Build a tool result: the data as structuredContent, plus the same data as a
+ * pretty-printed text block for clients that don't read structuredContent
+ */
+export function toolResult(data: object): ToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+    structuredContent: data as Record<string, unknown>,
+  };
+}
+
+/**
+ * Build an isError tool result describing a failure. The error goes in the text block
+ * only: clients validate structuredContent against the tool's outputSchema.
+ */
+export function errorResult(error: unknown): ToolResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({ error: describeToolError(error) }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Convert a tool's Zod input schema to the JSON Schema advertised in tools/list
+ */
+export function toInputJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  // $refStrategy "none" inlines shared sub-schemas (e.g. ThreadChildSchema) instead of emitting $refs
+  const converted: Record<string, unknown> = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+  });
+  const { $schema, ...jsonSchema } = converted;
+  return jsonSchema;
+}
+
+/**
+ * Convert a tool's Zod output schema to the JSON Schema advertised in tools/list.
+ * Objects stay open to extra properties so new API fields don't fail client-side validation.
+ */
+export function toOutputJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const converted: Record<string, unknown> = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+    removeAdditionalStrategy: "strict",
+  });
+  const { $schema, ...jsonSchema } = converted;
+  return jsonSchema;
+}
+
+/**
+ * Validate arguments against a tool's input schema and run its handler.
+ * Failures come back as isError results so the model sees the error code and can recover.
+ */
+export async function runTool(
+  tool: ToolDefinition,
+  client: PostProxyClient,
+  args: Record<string, unknown> | undefined,
+  context: ToolContext = {}
+): Promise<ToolResult> {
+  const parsed = tool.inputSchema.safeParse(args ?? {});
+  if (!parsed.success) {
+    return errorResult(
+      createError(
+        ErrorCodes.VALIDATION_ERROR,
+        `Invalid input for ${tool.name}: ${formatZodError(parsed.error)}`,
+        { issues: parsed.error.issues }
+      )
+    );
+  }
+  try {
+    return await tool.handler(client, parsed.data, context);
+  } catch (error) {
+    return errorResult(error);
+  }
+}
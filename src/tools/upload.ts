@@ -2,35 +2,46 @@
  * Upload tools: upload_create
  */
 
+import { z } from "zod";
 import type { PostProxyClient } from "../api/client.js";
-import { getApiKey } from "../auth/credentials.js";
-import { createError, ErrorCodes } from "../utils/errors.js";
+import { createError, ErrorCodes, wrapError } from "../utils/errors.js";
 import { logError, logToolCall } from "../utils/logger.js";
+import { defineTool, toolResult } from "./registry.js";
 
 export async function handleUploadCreate(client: PostProxyClient) {
   logToolCall("upload_create", {});
 
-  const apiKey = getApiKey();
-  if (!apiKey) {
+  if (!client.hasApiKey()) {
     throw createError(ErrorCodes.AUTH_MISSING, "API key is not configured");
   }
 
   try {
     const upload = await client.createUpload();
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(upload, null, 2),
-        },
-      ],
-    };
+    return toolResult(upload);
   } catch (error) {
     logError(error as Error, "upload_create");
-    throw createError(
-      ErrorCodes.API_ERROR,
-      `Failed to create upload URL: ${(error as Error).message}`
-    );
+    throw wrapError(error, ErrorCodes.API_ERROR, "Failed to create upload URL");
   }
 }
+
+export const uploadTools = [
+  defineTool({
+    name: "upload_create",
+    description: "Create a temporary file upload URL for sandboxed environments. Returns a `key`, an `upload_url`, and `expires_in` (seconds). Flow: (1) call this tool, (2) POST the raw file bytes to the returned `upload_url` (valid for `expires_in` seconds), which responds with `{\"url\": \"https://...\"}`, (3) pass that returned `url` in the `media` array of post_publish (or post_update). The upload host is `tmpfiles.postproxy.dev` — that domain must be whitelisted/allowlisted in the sandbox's network egress rules for the upload to succeed. Only use this when running against the remote (hosted) MCP server: if you are running the local (stdio) MCP server, do NOT use this — instead pass local file paths directly in the `media` array, which uploads them via multipart.",
+    annotations: {
+      title: "Create Upload URL",
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+      openWorldHint: true,
+    },
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      key: z.string(),
+      upload_url: z.string(),
+      expires_in: z.number(),
+    }),
+    handler: handleUploadCreate,
+  }),
+];
@@ -57,7 +57,7 @@ export interface CreatePostParams {
   idempotency_key?: string;
   draft?: boolean; // If true, creates a draft post that won't publish automatically
   platforms?: PlatformParams; // Platform-specific parameters
-  thread?: ThreadChild[]; // Thread posts (supported on X and Threads)
+  thread?: ThreadChild[]; // Thread posts (supported on X, Threads and Bluesky)
   queue_id?: string; // Queue ID to add post to
   queue_priority?: "high" | "medium" | "low"; // Queue priority (default: medium)
 }
@@ -84,6 +84,7 @@ export interface PlatformErrorDetails {
 
 export interface PlatformOutcome {
   platform: string;
+  profile_id?: string; // Profile the outcome is for
   status: "pending" | "processing" | "published" | "failed" | "deleted";
   params: Record<string, any>;
   attempted_at: string | null;
@@ -110,6 +111,7 @@ export interface PostDetails {
   media?: MediaAttachment[];
   platforms: PlatformOutcome[];
   thread?: Array<{ id: string; body: string; media?: MediaAttachment[] }>;
+  queue_id?: string | null; // Queue the post was added to
 }
 
 export interface Post {
@@ -215,6 +217,7 @@ export type BlueskyParams = Record<string, never>;
 
 /**
  * Platform-specific parameters for Telegram
+ * Note: chat_id comes from profiles_placements
  */
 export interface TelegramParams {
   chat_id: string;
@@ -226,6 +229,7 @@ export interface TelegramParams {
 /**
  * Platform-specific parameters for Google Business (local posts on a Business Profile location).
  * `location_id` is required by the API; kept optional in TS to allow partial-update flows.
+ * post_publish enforces it, plus the event/offer rules, via GoogleBusinessParamsSchema.
  */
 export interface GoogleBusinessParams {
   format?: "standard" | "event" | "offer";
@@ -21,6 +21,7 @@ export const ErrorCodes = {
   TARGET_NOT_FOUND: "TARGET_NOT_FOUND",
   PUBLISH_FAILED: "PUBLISH_FAILED",
   PLATFORM_ERROR: "PLATFORM_ERROR",
+  RATE_LIMITED: "RATE_LIMITED", // The client held back a request the API quota doesn't allow yet
   API_ERROR: "API_ERROR",
 } as const;
 
@@ -36,3 +37,101 @@ export function formatError(error: Error, code: ErrorCode, details?: any): MCPEr
 export function createError(code: ErrorCode, message: string, details?: any): MCPError {
   return new MCPError(code, message, details);
 }
+
+/**
+ * Wrap an error caught in a tool handler with context ("Failed to list queues: ...").
+ * Keeps the details (HTTP status, request ID, API errors) of an underlying MCPError,
+ * and its code when it is more specific than the generic API_ERROR.
+ */
+export function wrapError(error: unknown, code: ErrorCode, context: string): MCPError {
+  const message = `${context}: ${(error as Error).message}`;
+  if (error instanceof MCPError) {
+    return new MCPError(error.code === ErrorCodes.API_ERROR ? code : error.code, message, error.details);
+  }
+  return new MCPError(code, message);
+}
+
+/**
+ * Error payload returned to the model in an isError tool result
+ */
+export interface ToolErrorBody {
+  code: string;
+  message: string;
+  status?: number; // HTTP status from the PostProxy API, if the error came from a response
+  request_id: string | null; // X-Request-Id of the failed API request, for support
+  retryable: boolean; // Whether the same call may succeed if repeated later
+  suggested_fix: string;
+  errors?: string[]; // Validation messages from the API
+  platform_errors?: Array<{ platform: string; error?: string | null; error_details?: unknown }>;
+  details?: unknown;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+function suggestFix(code: string, status: number | undefined, retryable: boolean): string {
+  if (status === 429 || code === ErrorCodes.RATE_LIMITED) {
+    return "The API rate limit was hit. Wait before retrying; auth_status shows the remaining quota and when it resets.";
+  }
+  switch (code) {
+    case ErrorCodes.AUTH_MISSING:
+      return "No API key is configured. Set POSTPROXY_API_KEY for the server (or sign in to the remote server) and try again.";
+    case ErrorCodes.AUTH_INVALID:
+      return "The API key was rejected. Check that POSTPROXY_API_KEY is correct and has not been revoked, then run auth_status.";
+    case ErrorCodes.VALIDATION_ERROR:
+      return "Fix the arguments named in the message and call the tool again. Use profiles_list and profiles_placements to look up valid profile and placement IDs.";
+    case ErrorCodes.TARGET_NOT_FOUND:
+      return "The referenced resource does not exist. Check the ID; profiles_list, history_list, queues_list and dm_chats_list return valid IDs.";
+    case ErrorCodes.PUBLISH_FAILED:
+    case ErrorCodes.PLATFORM_ERROR:
+      return retryable
+        ? "Publishing failed on the API side. Retry post_publish with the same idempotency_key so the post is not duplicated."
+        : "A platform rejected the post. Check platform_errors, adjust the content, media or platform parameters, then publish again.";
+    default:
+      return retryable
+        ? "This looks like a temporary API problem. Retry the call shortly."
+        : "Unexpected API error. If it persists, contact PostProxy support with the request_id.";
+  }
+}
+
+/**
+ * Describe a tool failure for the model: code, message, request ID, whether a retry
+ * may help, and a suggested fix. Keeps the API's validation and per-platform errors.
+ */
+export function describeToolError(error: unknown): ToolErrorBody {
+  const mcpError = error instanceof MCPError
+    ? error
+    : formatError(error instanceof Error ? error : new Error(String(error)), ErrorCodes.API_ERROR);
+  const details = mcpError.details ?? undefined;
+  const status: number | undefined = typeof details?.status === "number" ? details.status : undefined;
+
+  // No HTTP status means the request never got a response (network error or timeout)
+  const retryable = status !== undefined
+    ? RETRYABLE_STATUSES.includes(status)
+    : mcpError.code === ErrorCodes.RATE_LIMITED ||
+      (mcpError.code === ErrorCodes.API_ERROR && /timeout|network|fetch failed|ECONN/i.test(mcpError.message));
+
+  const body: ToolErrorBody = {
+    code: mcpError.code,
+    message: mcpError.message,
+    ...(status !== undefined && { status }),
+    request_id: details?.requestId ?? null,
+    retryable,
+    suggested_fix: suggestFix(mcpError.code, status, retryable),
+  };
+
+  if (Array.isArray(details?.errors)) {
+    body.errors = details.errors;
+  }
+  if (Array.isArray(details?.platforms)) {
+    const platformErrors = details.platforms
+      .filter((p: any) => p && (p.error || p.error_details))
+      .map((p: any) => ({ platform: p.platform, error: p.error ?? null, error_details: p.error_details ?? null }));
+    if (platformErrors.length > 0) {
+      body.platform_errors = platformErrors;
+    }
+  }
+  if (details !== undefined) {
+    body.details = details;
+  }
+  return body;
+}
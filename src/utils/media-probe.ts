@@ -0,0 +1,471 @@
+/**
+ * Local media inspection: identifies a file by its magic bytes, then reads the headers of
+ * image files (JPEG, PNG, GIF, WebP, HEIC/HEIF, AVIF) and the boxes of MP4/M4V/MOV files
+ * to find their dimensions, duration and codecs without decoding them. MKV/WebM, AVI,
+ * PDF and SRT files are identified but not read further.
+ *
+ * Dimensions are as displayed: a JPEG's EXIF orientation, a HEIF image's rotation and a
+ * video track's rotation matrix are applied, so a portrait phone photo reports a
+ * portrait size.
+ */
+
+import type { LocalFileHandle } from "../api/runtime.js";
+import { createError, ErrorCodes } from "./errors.js";
+
+export type MediaFormat =
+  | "jpeg"
+  | "png"
+  | "gif"
+  | "webp"
+  | "heic"
+  | "heif"
+  | "avif"
+  | "mp4"
+  | "m4v"
+  | "mov"
+  | "mkv"
+  | "webm"
+  | "avi"
+  | "pdf"
+  | "srt";
+
+export interface MediaInfo {
+  type: "image" | "video" | "document" | "captions" | "unknown";
+  format?: MediaFormat;
+  mime_type?: string;
+  width?: number;
+  height?: number;
+  animated?: boolean; // Set for animated WebP
+  duration_seconds?: number;
+  video_codec?: string; // Sample entry type of the video track, e.g. avc1 or hvc1
+  audio_codec?: string; // Sample entry type of the audio track, e.g. mp4a
+}
+
+const MIME_TYPES: Record<MediaFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+  heif: "image/heif",
+  avif: "image/avif",
+  mp4: "video/mp4",
+  m4v: "video/x-m4v",
+  mov: "video/quicktime",
+  mkv: "video/x-matroska",
+  webm: "video/webm",
+  avi: "video/x-msvideo",
+  pdf: "application/pdf",
+  srt: "application/x-subrip",
+};
+
+// File extensions and the format they name
+const EXTENSIONS: Record<string, MediaFormat> = {
+  jpg: "jpeg",
+  jpeg: "jpeg",
+  png: "png",
+  gif: "gif",
+  webp: "webp",
+  heic: "heic",
+  heif: "heif",
+  avif: "avif",
+  mp4: "mp4",
+  m4v: "m4v",
+  mov: "mov",
+  mkv: "mkv",
+  webm: "webm",
+  avi: "avi",
+  pdf: "pdf",
+  srt: "srt",
+};
+
+// Formats sharing a container, so a file's extension may name either one
+const SAME_CONTAINER: MediaFormat[][] = [
+  ["mp4", "m4v", "mov"],
+  ["heic", "heif"],
+  ["mkv", "webm"],
+];
+
+// ftyp brands of HEIF files holding HEVC-coded images
+const HEIC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx"];
+
+// Boxes a QuickTime file may start with when it has no ftyp
+const QUICKTIME_LEADING_BOXES = ["moov", "mdat", "wide", "free", "skip"];
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+// Image headers and the start of a movie are within the first MB
+const HEAD_BYTES = 1024 * 1024;
+// A moov box bigger than this isn't read; the movie is then reported without its metadata
+const MAX_MOVIE_BOX_BYTES = 64 * 1024 * 1024;
+
+/**
+ * The parts of a file probeMedia needs, without reading all of it: the first MB, or for
+ * ISO media files (MP4, MOV, HEIF) the ftyp, meta and moov boxes, wherever they are.
+ */
+export async function readMediaHeaders(file: Pick<LocalFileHandle, "size" | "read">): Promise<Uint8Array> {
+  const head = await file.read(0, Math.min(file.size, HEAD_BYTES));
+  const leading = ascii(head, 4, 4);
+  if (head.length >= file.size || (leading !== "ftyp" && !QUICKTIME_LEADING_BOXES.includes(leading))) {
+    return head;
+  }
+
+  const found: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = await file.read(offset, offset + 16);
+    const type = ascii(header, 4, 4);
+    let size = view(header).getUint32(0);
+    if (size === 1) {
+      size = Number(view(header).getBigUint64(8));
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < 8) {
+      break;
+    }
+    if ((type === "ftyp" || type === "moov" || type === "meta") && size <= MAX_MOVIE_BOX_BYTES) {
+      found.push(offset + size <= head.length ? head.subarray(offset, offset + size) : await file.read(offset, offset + size));
+    }
+    if (type === "moov") {
+      break;
+    }
+    offset += size;
+  }
+  if (found.length === 0) {
+    return head;
+  }
+  const data = new Uint8Array(found.reduce((n, box) => n + box.length, 0));
+  let at = 0;
+  for (const box of found) {
+    data.set(box, at);
+    at += box.length;
+  }
+  return data;
+}
+
+// The first bytes of a file are enough to identify it
+const IDENTIFY_BYTES = 4096;
+
+/**
+ * Identify a file from its first few KB, for choosing the MIME type it's uploaded as.
+ * Fields that need more of the file, such as a movie's duration, may be missing.
+ */
+export async function identifyFile(file: Pick<LocalFileHandle, "size" | "read">): Promise<MediaInfo> {
+  return probeMedia(await file.read(0, Math.min(file.size, IDENTIFY_BYTES)));
+}
+
+/**
+ * Identify a media file from its contents and read what its headers say about it.
+ * Fields the headers don't provide (or that are truncated) are left out.
+ */
+export function probeMedia(data: Uint8Array): MediaInfo {
+  try {
+    if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+      return image("jpeg", jpegSize(data));
+    }
+    if (ascii(data, 1, 3) === "PNG" && data[0] === 0x89) {
+      return image("png", data.length >= 24 ? { width: view(data).getUint32(16), height: view(data).getUint32(20) } : undefined);
+    }
+    if (ascii(data, 0, 4) === "GIF8") {
+      return image("gif", data.length >= 10 ? { width: view(data).getUint16(6, true), height: view(data).getUint16(8, true) } : undefined);
+    }
+    if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 4) === "WEBP") {
+      const info = image("webp", webpSize(data));
+      // VP8X flags: bit 1 marks an animation
+      return ascii(data, 12, 4) === "VP8X" && data[20] & 0x02 ? { ...info, animated: true } : info;
+    }
+    if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 4) === "AVI ") {
+      return { type: "video", format: "avi", mime_type: MIME_TYPES.avi };
+    }
+    if (ascii(data, 0, 4) === "\x1a\x45\xdf\xa3") {
+      const format = ebmlDocType(data) === "webm" ? "webm" : "mkv";
+      return { type: "video", format, mime_type: MIME_TYPES[format] };
+    }
+    if (ascii(data, 0, 5) === "%PDF-") {
+      return { type: "document", format: "pdf", mime_type: MIME_TYPES.pdf };
+    }
+    if (isSrt(data)) {
+      return { type: "captions", format: "srt", mime_type: MIME_TYPES.srt };
+    }
+    const leading = ascii(data, 4, 4);
+    if (leading === "ftyp") {
+      const format = isoFormat(data);
+      return format === "heic" || format === "heif" || format === "avif" ? image(format, heifSize(data)) : video(format, data);
+    }
+    if (QUICKTIME_LEADING_BOXES.includes(leading)) {
+      return video("mov", data);
+    }
+  } catch {
+    // A header that ends early leaves the file unidentified rather than failing the call
+  }
+  return { type: "unknown" };
+}
+
+/**
+ * MIME type to upload a file as: from its contents, or from its extension when the
+ * contents aren't recognized. A file whose contents contradict its extension (a PNG
+ * named photo.jpg) is a validation error, since platforms reject or mangle such files.
+ */
+export function resolveMimeType(filePath: string, info: MediaInfo): string {
+  const extension = filePath.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  const named = extension ? EXTENSIONS[extension] : undefined;
+  if (!info.format) {
+    return named ? MIME_TYPES[named] : "application/octet-stream";
+  }
+  if (named && named !== info.format && !SAME_CONTAINER.some((group) => group.includes(named) && group.includes(info.format!))) {
+    throw createError(
+      ErrorCodes.VALIDATION_ERROR,
+      `File contents don't match the extension: ${filePath} is named .${extension} but contains ${info.format} (${MIME_TYPES[info.format]}) data. Rename or convert the file.`,
+      { path: filePath, extension, detected_format: info.format, detected_mime_type: MIME_TYPES[info.format] }
+    );
+  }
+  return MIME_TYPES[info.format];
+}
+
+function image(format: MediaFormat, size: { width: number; height: number } | undefined): MediaInfo {
+  return { type: "image", format, mime_type: MIME_TYPES[format], ...size };
+}
+
+/**
+ * Format of an ISO base media file from the brands in its ftyp box
+ */
+function isoFormat(data: Uint8Array): MediaFormat {
+  const end = Math.min(view(data).getUint32(0), data.length);
+  const major = ascii(data, 8, 4);
+  const compatible: string[] = [];
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    compatible.push(ascii(data, offset, 4));
+  }
+  if (major === "qt  ") {
+    return "mov";
+  }
+  if (major.startsWith("M4V")) {
+    return "m4v";
+  }
+  if (major === "avif" || major === "avis") {
+    return "avif";
+  }
+  if (HEIC_BRANDS.includes(major)) {
+    return "heic";
+  }
+  if (major === "mif1" || major === "msf1") {
+    // The generic HEIF brands; the compatible brands say how the images are coded
+    if (compatible.includes("avif")) {
+      return "avif";
+    }
+    return compatible.some((brand) => HEIC_BRANDS.includes(brand)) ? "heic" : "heif";
+  }
+  return "mp4";
+}
+
+/**
+ * Size of a HEIF image from its ispe properties, rotated by an irot property
+ */
+function heifSize(data: Uint8Array): { width: number; height: number } | undefined {
+  try {
+    const dv = view(data);
+    const meta = boxes(data, 0, data.length).find((b) => b.type === "meta");
+    // meta is a full box: its children follow a version and flags
+    const ipco = meta && child(data, { ...meta, start: meta.start + 4 }, "iprp", "ipco");
+    if (!ipco) {
+      return undefined;
+    }
+    const properties = boxes(data, ipco.start, ipco.end);
+    let size: { width: number; height: number } | undefined;
+    // Thumbnails and grid tiles have their own ispe; the primary image is the largest
+    for (const ispe of properties.filter((b) => b.type === "ispe")) {
+      const width = dv.getUint32(ispe.start + 4);
+      const height = dv.getUint32(ispe.start + 8);
+      if (!size || width * height > size.width * size.height) {
+        size = { width, height };
+      }
+    }
+    const irot = properties.find((b) => b.type === "irot");
+    // Angles 1 and 3 rotate by 90 and 270 degrees
+    return size && irot && data[irot.start] & 0x01 ? { width: size.height, height: size.width } : size;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * DocType of a Matroska EBML header: "webm" or "matroska"
+ */
+function ebmlDocType(data: Uint8Array): string | undefined {
+  for (let offset = 4; offset + 3 < Math.min(data.length, 64); offset++) {
+    // DocType element 0x4282 with a one-byte size
+    if (data[offset] === 0x42 && data[offset + 1] === 0x82 && data[offset + 2] & 0x80) {
+      return ascii(data, offset + 3, data[offset + 2] & 0x7f);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * An SRT file starts with a cue number, then a timing line
+ */
+function isSrt(data: Uint8Array): boolean {
+  const text = new TextDecoder().decode(data.subarray(0, 256)).replace(/^\uFEFF/, "");
+  return /^\s*\d+\r?\n\d{2}:\d{2}:\d{2},\d{3} --> \d{2}:\d{2}:\d{2},\d{3}/.test(text);
+}
+
+/**
+ * Size from the first SOF segment, swapped when the EXIF orientation rotates the image
+ */
+function jpegSize(data: Uint8Array): { width: number; height: number } | undefined {
+  const dv = view(data);
+  let rotated = false;
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = dv.getUint16(offset + 2);
+    if (marker === 0xe1 && ascii(data, offset + 4, 6) === "Exif\0\0") {
+      rotated = exifOrientation(data, offset + 10) >= 5;
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = dv.getUint16(offset + 5);
+      const width = dv.getUint16(offset + 7);
+      return rotated ? { width: height, height: width } : { width, height };
+    }
+    offset += 2 + length;
+  }
+  return undefined;
+}
+
+/**
+ * Orientation tag (1-8) of the TIFF structure at `tiff`; 5-8 rotate by 90 or 270 degrees
+ */
+function exifOrientation(data: Uint8Array, tiff: number): number {
+  const dv = view(data);
+  const little = ascii(data, tiff, 2) === "II";
+  const ifd = tiff + dv.getUint32(tiff + 4, little);
+  const entries = dv.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (dv.getUint16(entry, little) === 0x0112) {
+      return dv.getUint16(entry + 8, little);
+    }
+  }
+  return 1;
+}
+
+function webpSize(data: Uint8Array): { width: number; height: number } | undefined {
+  const dv = view(data);
+  const chunk = ascii(data, 12, 4);
+  if (chunk === "VP8 " && data.length >= 30) {
+    return { width: dv.getUint16(26, true) & 0x3fff, height: dv.getUint16(28, true) & 0x3fff };
+  }
+  if (chunk === "VP8L" && data.length >= 25) {
+    const bits = dv.getUint32(21, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8X" && data.length >= 30) {
+    const uint24 = (offset: number) => data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+    return { width: uint24(24) + 1, height: uint24(27) + 1 };
+  }
+  return undefined;
+}
+
+interface Box {
+  type: string;
+  start: number; // First byte of the box's contents
+  end: number;
+}
+
+/**
+ * Boxes directly inside [start, end). Stops at the first box with an impossible size.
+ */
+function boxes(data: Uint8Array, start: number, end: number): Box[] {
+  const dv = view(data);
+  const found: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = dv.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      size = Number(dv.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) {
+      break;
+    }
+    found.push({ type: ascii(data, offset + 4, 4), start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return found;
+}
+
+function child(data: Uint8Array, parent: Box, ...path: string[]): Box | undefined {
+  let box: Box | undefined = parent;
+  for (const type of path) {
+    box = boxes(data, box.start, box.end).find((b) => b.type === type);
+    if (!box) {
+      return undefined;
+    }
+  }
+  return box;
+}
+
+function video(format: MediaFormat, data: Uint8Array): MediaInfo {
+  const info: MediaInfo = { type: "video", format, mime_type: MIME_TYPES[format] };
+  try {
+    readMovie(data, info);
+  } catch {
+    // Truncated boxes: keep what was read before them
+  }
+  return info;
+}
+
+function readMovie(data: Uint8Array, info: MediaInfo): void {
+  const dv = view(data);
+  const moov = boxes(data, 0, data.length).find((b) => b.type === "moov");
+  if (!moov) {
+    return;
+  }
+
+  const mvhd = child(data, moov, "mvhd");
+  if (mvhd) {
+    const v1 = data[mvhd.start] === 1;
+    const timescale = dv.getUint32(mvhd.start + (v1 ? 20 : 12));
+    const duration = v1 ? Number(dv.getBigUint64(mvhd.start + 24)) : dv.getUint32(mvhd.start + 16);
+    if (timescale > 0) {
+      info.duration_seconds = Math.round((duration / timescale) * 100) / 100;
+    }
+  }
+
+  for (const trak of boxes(data, moov.start, moov.end).filter((b) => b.type === "trak")) {
+    const handler = child(data, trak, "mdia", "hdlr");
+    const stsd = child(data, trak, "mdia", "minf", "stbl", "stsd");
+    const kind = handler ? ascii(data, handler.start + 8, 4) : undefined;
+    const codec = stsd && dv.getUint32(stsd.start + 4) > 0 ? ascii(data, stsd.start + 12, 4) : undefined;
+
+    if (kind === "vide" && !info.video_codec) {
+      info.video_codec = codec;
+      const tkhd = child(data, trak, "tkhd");
+      if (tkhd) {
+        const v1 = data[tkhd.start] === 1;
+        const matrix = tkhd.start + (v1 ? 52 : 40);
+        const size = tkhd.start + (v1 ? 88 : 76);
+        const width = Math.round(dv.getUint32(size) / 65536);
+        const height = Math.round(dv.getUint32(size + 4) / 65536);
+        // A matrix with a = 0 rotates the track by 90 or 270 degrees
+        const rotated = dv.getInt32(matrix) === 0 && dv.getInt32(matrix + 4) !== 0;
+        Object.assign(info, rotated ? { width: height, height: width } : { width, height });
+      }
+    } else if (kind === "soun" && !info.audio_codec) {
+      info.audio_codec = codec;
+    }
+  }
+}
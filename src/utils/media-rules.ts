@@ -0,0 +1,341 @@
+/**
+ * Platform media rules: which image, video and document types each network accepts for
+ * each format it publishes (feed post, Reel, Story, Short, TikTok video, Pinterest pin,
+ * cover image), and the size, dimension, aspect ratio, duration and codec limits.
+ *
+ * Used by post_publish to fail before uploading media a platform will reject, and by
+ * media_inspect to run the same checks on their own. Only what a file's headers show is
+ * checked; files that can't be identified are left to the platform.
+ */
+
+import type { MediaFormat, MediaInfo } from "./media-probe.js";
+
+export interface MediaLimits {
+  formats: MediaFormat[];
+  maxBytes?: number;
+  maxBytesByFormat?: Partial<Record<MediaFormat, number>>; // Overrides maxBytes for some formats
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  minAspectRatio?: number; // Width / height
+  maxAspectRatio?: number;
+  minDurationSeconds?: number;
+  maxDurationSeconds?: number;
+  videoCodecs?: string[];
+}
+
+export interface MediaRule {
+  label: string; // "Instagram Reel"
+  image?: MediaLimits; // Omitted when the format takes no images
+  video?: MediaLimits; // Omitted when the format takes no videos
+  document?: MediaLimits; // PDFs, for LinkedIn document posts and Telegram files
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+const H264_HEVC = ["avc1", "avc3", "hvc1", "hev1"];
+
+export const MEDIA_RULES: Record<string, Record<string, MediaRule>> = {
+  twitter: {
+    post: {
+      label: "X post",
+      image: { formats: ["jpeg", "png", "gif", "webp"], maxBytes: 5 * MB, maxBytesByFormat: { gif: 15 * MB } },
+      video: {
+        formats: ["mp4", "mov"],
+        maxBytes: 512 * MB,
+        minDurationSeconds: 0.5,
+        maxDurationSeconds: 140,
+        minAspectRatio: 1 / 3,
+        maxAspectRatio: 3,
+        videoCodecs: ["avc1", "avc3"],
+      },
+    },
+  },
+  threads: {
+    post: {
+      label: "Threads post",
+      image: { formats: ["jpeg", "png"], maxBytes: 8 * MB, minWidth: 320, maxWidth: 1440, maxAspectRatio: 10 },
+      video: { formats: ["mp4", "mov"], maxBytes: 1 * GB, maxDurationSeconds: 300, videoCodecs: H264_HEVC },
+    },
+  },
+  bluesky: {
+    post: {
+      label: "Bluesky post",
+      image: { formats: ["jpeg", "png", "gif", "webp"], maxBytes: 1 * MB },
+      video: { formats: ["mp4", "mov"], maxBytes: 100 * MB, minDurationSeconds: 1, maxDurationSeconds: 60 },
+    },
+  },
+  instagram: {
+    post: {
+      label: "Instagram post",
+      image: { formats: ["jpeg", "png"], maxBytes: 8 * MB, minWidth: 320, minAspectRatio: 0.8, maxAspectRatio: 1.91 },
+      video: { formats: ["mp4", "mov"], maxBytes: 300 * MB, minDurationSeconds: 3, maxDurationSeconds: 900, videoCodecs: H264_HEVC },
+    },
+    reel: {
+      label: "Instagram Reel",
+      video: {
+        formats: ["mp4", "mov"],
+        maxBytes: 300 * MB,
+        minDurationSeconds: 3,
+        maxDurationSeconds: 900,
+        minAspectRatio: 0.01,
+        maxAspectRatio: 10,
+        videoCodecs: H264_HEVC,
+      },
+    },
+    story: {
+      label: "Instagram Story",
+      image: { formats: ["jpeg", "png"], maxBytes: 8 * MB, minAspectRatio: 0.1, maxAspectRatio: 10 },
+      video: {
+        formats: ["mp4", "mov"],
+        maxBytes: 100 * MB,
+        minDurationSeconds: 3,
+        maxDurationSeconds: 60,
+        minAspectRatio: 0.1,
+        maxAspectRatio: 10,
+        videoCodecs: H264_HEVC,
+      },
+    },
+    cover: {
+      label: "Instagram Reel cover",
+      image: { formats: ["jpeg", "png"], maxBytes: 8 * MB },
+    },
+  },
+  facebook: {
+    post: {
+      label: "Facebook post",
+      image: { formats: ["jpeg", "png", "gif", "webp"], maxBytes: 10 * MB },
+      video: { formats: ["mp4", "m4v", "mov", "mkv", "webm", "avi"], maxBytes: 10 * GB, maxDurationSeconds: 4 * 60 * 60 },
+    },
+    reel: {
+      label: "Facebook Reel",
+      video: {
+        formats: ["mp4", "mov"],
+        minWidth: 540,
+        minHeight: 960,
+        minAspectRatio: 0.55, // 9:16
+        maxAspectRatio: 0.57,
+        minDurationSeconds: 3,
+        maxDurationSeconds: 90,
+        videoCodecs: H264_HEVC,
+      },
+    },
+    story: {
+      label: "Facebook Story",
+      image: { formats: ["jpeg", "png"], maxBytes: 4 * MB },
+      video: { formats: ["mp4", "mov"], minWidth: 540, minHeight: 960, minDurationSeconds: 3, maxDurationSeconds: 60 },
+    },
+  },
+  tiktok: {
+    video: {
+      label: "TikTok video",
+      video: {
+        formats: ["mp4", "mov"],
+        maxBytes: 4 * GB,
+        minWidth: 360,
+        minHeight: 360,
+        maxWidth: 4096,
+        maxHeight: 4096,
+        minDurationSeconds: 3,
+        maxDurationSeconds: 600,
+        videoCodecs: H264_HEVC,
+      },
+    },
+    image: {
+      label: "TikTok photo post",
+      image: { formats: ["jpeg", "webp"], maxBytes: 20 * MB },
+    },
+  },
+  youtube: {
+    video: {
+      label: "YouTube video",
+      video: { formats: ["mp4", "m4v", "mov", "mkv", "webm", "avi"], maxBytes: 256 * GB, maxDurationSeconds: 12 * 60 * 60 },
+    },
+    short: {
+      label: "YouTube Short",
+      video: { formats: ["mp4", "mov"], maxAspectRatio: 1, maxDurationSeconds: 180 },
+    },
+    cover: {
+      label: "YouTube thumbnail",
+      image: { formats: ["jpeg", "png", "gif"], maxBytes: 2 * MB, minWidth: 640 },
+    },
+  },
+  pinterest: {
+    pin: {
+      label: "Pinterest pin",
+      image: { formats: ["jpeg", "png", "gif", "webp"], maxBytes: 20 * MB },
+      video: {
+        formats: ["mp4", "mov"],
+        maxBytes: 2 * GB,
+        minDurationSeconds: 4,
+        maxDurationSeconds: 900,
+        minAspectRatio: 0.5,
+        maxAspectRatio: 1.91,
+      },
+    },
+    cover: {
+      label: "Pinterest video cover",
+      image: { formats: ["jpeg", "png"], maxBytes: 20 * MB },
+    },
+  },
+  linkedin: {
+    post: {
+      label: "LinkedIn post",
+      image: { formats: ["jpeg", "png", "gif"] },
+      video: {
+        formats: ["mp4"],
+        maxBytes: 5 * GB,
+        minDurationSeconds: 3,
+        maxDurationSeconds: 30 * 60,
+        minAspectRatio: 1 / 2.4,
+        maxAspectRatio: 2.4,
+      },
+      document: { formats: ["pdf"], maxBytes: 100 * MB },
+    },
+  },
+  telegram: {
+    post: {
+      label: "Telegram post",
+      image: { formats: ["jpeg", "png", "gif", "webp"], maxBytes: 10 * MB },
+      video: { formats: ["mp4", "mov"], maxBytes: 50 * MB },
+      document: { formats: ["pdf"], maxBytes: 50 * MB },
+    },
+  },
+  google_business: {
+    post: {
+      label: "Google Business post",
+      image: { formats: ["jpeg", "png"], maxBytes: 5 * MB, minWidth: 400, minHeight: 300 },
+    },
+  },
+};
+
+/**
+ * Format a media item is published as on a platform, from its platform parameters
+ * (Instagram and Facebook format, TikTok format) or the media itself (YouTube Shorts
+ * are vertical or square videos up to 3 minutes). Undefined for platforms without rules.
+ */
+export function mediaFormatFor(platform: string, params: Record<string, any> | undefined, info: MediaInfo): string | undefined {
+  const formats = MEDIA_RULES[platform];
+  if (!formats) {
+    return undefined;
+  }
+  switch (platform) {
+    case "instagram":
+    case "facebook":
+      return params?.format ?? "post";
+    case "tiktok":
+      return params?.format ?? (info.type === "image" ? "image" : "video");
+    case "youtube": {
+      const vertical = info.width !== undefined && info.height !== undefined && info.width <= info.height;
+      return vertical && (info.duration_seconds ?? Infinity) <= 180 ? "short" : "video";
+    }
+    default:
+      return Object.keys(formats)[0];
+  }
+}
+
+export interface MediaItem {
+  part: string; // "media[0]", "thread[1].media[0]" or "platforms.youtube.cover_url"
+  path: string;
+  size_bytes: number;
+  info: MediaInfo;
+}
+
+export interface MediaViolation {
+  platform: string;
+  format: string;
+  part: string;
+  path: string;
+  rule: "type" | "max_size" | "min_width" | "min_height" | "max_width" | "max_height" | "aspect_ratio" | "min_duration" | "max_duration" | "codec";
+  limit: number | string;
+  actual: number | string;
+  message: string;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= GB ? `${+(bytes / GB).toFixed(1)} GB` : `${+(bytes / MB).toFixed(1)} MB`;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Check one media item against a platform format's rules. Returns undefined when the
+ * platform or format has no rules.
+ */
+export function lintMediaForPlatform(platform: string, format: string, item: MediaItem): MediaViolation[] | undefined {
+  const rule = MEDIA_RULES[platform]?.[format];
+  if (!rule) {
+    return undefined;
+  }
+  const { info } = item;
+  if (info.type === "unknown") {
+    return [];
+  }
+
+  const violations: MediaViolation[] = [];
+  const add = (kind: MediaViolation["rule"], limit: number | string, actual: number | string, detail: string) =>
+    violations.push({
+      platform,
+      format,
+      part: item.part,
+      path: item.path,
+      rule: kind,
+      limit,
+      actual,
+      message: `${rule.label} ${item.part}: ${detail}`,
+    });
+
+  // No format takes caption files as media
+  const limits = info.type === "captions" ? undefined : rule[info.type];
+  const accepted = [...(rule.image?.formats ?? []), ...(rule.video?.formats ?? []), ...(rule.document?.formats ?? [])];
+  if (!limits || !limits.formats.includes(info.format!)) {
+    const takes = [rule.image && "images", rule.video && "videos", rule.document && "documents"].filter(Boolean).join(" or ");
+    add("type", accepted.join(", "), info.format!, `${info.format} isn't supported; ${takes} must be ${accepted.join(", ")}`);
+    return violations;
+  }
+
+  const maxBytes = limits.maxBytesByFormat?.[info.format!] ?? limits.maxBytes;
+  if (maxBytes !== undefined && item.size_bytes > maxBytes) {
+    add("max_size", maxBytes, item.size_bytes, `${formatBytes(item.size_bytes)} is over the ${formatBytes(maxBytes)} limit`);
+  }
+
+  const { width, height, duration_seconds: duration } = info;
+  if (width !== undefined && height !== undefined) {
+    if (limits.minWidth !== undefined && width < limits.minWidth) {
+      add("min_width", limits.minWidth, width, `${width} px wide, below the minimum of ${limits.minWidth} px`);
+    }
+    if (limits.minHeight !== undefined && height < limits.minHeight) {
+      add("min_height", limits.minHeight, height, `${height} px tall, below the minimum of ${limits.minHeight} px`);
+    }
+    if (limits.maxWidth !== undefined && width > limits.maxWidth) {
+      add("max_width", limits.maxWidth, width, `${width} px wide, above the maximum of ${limits.maxWidth} px`);
+    }
+    if (limits.maxHeight !== undefined && height > limits.maxHeight) {
+      add("max_height", limits.maxHeight, height, `${height} px tall, above the maximum of ${limits.maxHeight} px`);
+    }
+    const ratio = width / height;
+    if (
+      height > 0 &&
+      ((limits.minAspectRatio !== undefined && ratio < limits.minAspectRatio) ||
+        (limits.maxAspectRatio !== undefined && ratio > limits.maxAspectRatio))
+    ) {
+      const range = `${round(limits.minAspectRatio ?? 0)}-${limits.maxAspectRatio !== undefined ? round(limits.maxAspectRatio) : "any"}`;
+      add("aspect_ratio", range, round(ratio), `aspect ratio ${round(ratio)} (${width}x${height}) is outside ${range} (width / height)`);
+    }
+  }
+
+  if (duration !== undefined) {
+    if (limits.minDurationSeconds !== undefined && duration < limits.minDurationSeconds) {
+      add("min_duration", limits.minDurationSeconds, duration, `${duration} s is shorter than the minimum of ${limits.minDurationSeconds} s`);
+    }
+    if (limits.maxDurationSeconds !== undefined && duration > limits.maxDurationSeconds) {
+      add("max_duration", limits.maxDurationSeconds, duration, `${duration} s is longer than the maximum of ${limits.maxDurationSeconds} s`);
+    }
+  }
+
+  if (limits.videoCodecs && info.video_codec && !limits.videoCodecs.includes(info.video_codec)) {
+    add("codec", limits.videoCodecs.join(", "), info.video_codec, `video codec ${info.video_codec} isn't supported; use ${limits.videoCodecs.join(", ")}`);
+  }
+  return violations;
+}
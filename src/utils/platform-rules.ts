@@ -0,0 +1,176 @@
+/**
+ * Platform text rules: how long a post body (and each thread child) may be on each
+ * network, measured the way that network counts, and how many hashtags it allows.
+ *
+ * Used by post_publish and post_update to fail before the API accepts a post that a
+ * platform will reject, and by post_lint to run the same checks on their own.
+ */
+
+export type LengthUnit = "characters" | "graphemes" | "weighted characters";
+
+export interface PlatformRule {
+  maxLength: number;
+  maxLengthWithMedia?: number; // Lower limit for captions, when the post has media
+  unit: LengthUnit;
+  maxHashtags?: number;
+  threads?: boolean; // Thread children are published here, so they are checked too
+}
+
+export const PLATFORM_RULES: Record<string, PlatformRule> = {
+  twitter: { maxLength: 280, unit: "weighted characters", threads: true },
+  threads: { maxLength: 500, unit: "characters", threads: true },
+  bluesky: { maxLength: 300, unit: "graphemes", threads: true },
+  instagram: { maxLength: 2200, unit: "characters", maxHashtags: 30 },
+  facebook: { maxLength: 63206, unit: "characters" },
+  linkedin: { maxLength: 3000, unit: "characters" },
+  tiktok: { maxLength: 2200, unit: "characters" },
+  youtube: { maxLength: 5000, unit: "characters" },
+  pinterest: { maxLength: 500, unit: "characters" },
+  telegram: { maxLength: 4096, maxLengthWithMedia: 1024, unit: "characters" },
+  google_business: { maxLength: 1500, unit: "characters" },
+};
+
+export function isKnownPlatform(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PLATFORM_RULES, name);
+}
+
+// X counts every link as 23 characters, whatever its length
+const X_URL_LENGTH = 23;
+// Links X recognizes: with a scheme, with www., or a bare domain with a common TLD
+const X_URL_PATTERN =
+  /\bhttps?:\/\/[^\s]+|\bwww\.[^\s]+|(?<![@\w.-])(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|org|net|io|co|ai|dev|app|me|ly|gg|tv|xyz|info|biz|us|uk|de|fr|ca|au|in)\b(?:\/[^\s]*)?/gi;
+// Code point ranges X weighs as one character (Latin, Greek, Cyrillic, common punctuation...); everything else is two
+const X_LIGHT_RANGES: Array<[number, number]> = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+function graphemes(text: string): string[] {
+  return Array.from(segmenter.segment(text), (s) => s.segment);
+}
+
+function xWeight(text: string): number {
+  let weight = 0;
+  for (const grapheme of graphemes(text)) {
+    // An emoji counts as two however many code points its sequence has
+    if (EMOJI_PATTERN.test(grapheme)) {
+      weight += 2;
+      continue;
+    }
+    for (const char of grapheme) {
+      const code = char.codePointAt(0)!;
+      weight += X_LIGHT_RANGES.some(([from, to]) => code >= from && code <= to) ? 1 : 2;
+    }
+  }
+  return weight;
+}
+
+/**
+ * Length of text in the given unit
+ */
+export function measureText(text: string, unit: LengthUnit): number {
+  const normalized = text.normalize("NFC");
+  switch (unit) {
+    case "graphemes":
+      return graphemes(normalized).length;
+    case "weighted characters": {
+      let urls = 0;
+      const rest = normalized.replace(X_URL_PATTERN, (match) => {
+        urls++;
+        // Trailing punctuation ends the sentence, not the link, so it still counts
+        return match.slice(match.replace(/[.,!?;:'")\]]+$/, "").length);
+      });
+      return urls * X_URL_LENGTH + xWeight(rest);
+    }
+    default:
+      return [...normalized].length;
+  }
+}
+
+export function countHashtags(text: string): number {
+  return text.match(/(?<![\p{L}\p{N}_&#])#[\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*/gu)?.length ?? 0;
+}
+
+export interface LintInput {
+  content: string;
+  media?: unknown[];
+  thread?: Array<{ body: string; media?: unknown[] }>;
+}
+
+export interface PartMeasurement {
+  part: string; // "body" or "thread[i]"
+  length: number;
+  max_length: number;
+  unit: LengthUnit;
+  hashtags: number;
+  max_hashtags?: number;
+}
+
+export interface PlatformViolation {
+  platform: string;
+  part: string;
+  rule: "max_length" | "max_hashtags";
+  limit: number;
+  actual: number;
+  message: string;
+}
+
+/**
+ * Measure a post for one platform. Returns undefined for platforms without rules.
+ */
+export function lintForPlatform(
+  platform: string,
+  input: LintInput
+): { parts: PartMeasurement[]; violations: PlatformViolation[] } | undefined {
+  const rule = PLATFORM_RULES[platform];
+  if (!rule) {
+    return undefined;
+  }
+
+  const texts = [{ part: "body", body: input.content, media: input.media }];
+  if (rule.threads) {
+    input.thread?.forEach((child, i) => texts.push({ part: `thread[${i}]`, body: child.body, media: child.media }));
+  }
+
+  const parts: PartMeasurement[] = [];
+  const violations: PlatformViolation[] = [];
+  for (const { part, body, media } of texts) {
+    const maxLength = media && media.length > 0 && rule.maxLengthWithMedia ? rule.maxLengthWithMedia : rule.maxLength;
+    const measurement: PartMeasurement = {
+      part,
+      length: measureText(body, rule.unit),
+      max_length: maxLength,
+      unit: rule.unit,
+      hashtags: countHashtags(body),
+      ...(rule.maxHashtags !== undefined && { max_hashtags: rule.maxHashtags }),
+    };
+    parts.push(measurement);
+
+    if (measurement.length > maxLength) {
+      violations.push({
+        platform,
+        part,
+        rule: "max_length",
+        limit: maxLength,
+        actual: measurement.length,
+        message: `${platform} ${part}: ${measurement.length}/${maxLength} ${rule.unit}`,
+      });
+    }
+    if (rule.maxHashtags !== undefined && measurement.hashtags > rule.maxHashtags) {
+      violations.push({
+        platform,
+        part,
+        rule: "max_hashtags",
+        limit: rule.maxHashtags,
+        actual: measurement.hashtags,
+        message: `${platform} ${part}: ${measurement.hashtags}/${rule.maxHashtags} hashtags`,
+      });
+    }
+  }
+  return { parts, violations };
+}
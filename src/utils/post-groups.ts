@@ -0,0 +1,37 @@
+/**
+ * Post group IDs tie together the posts post_publish fans out for per-platform variants.
+ *
+ * The API has no notion of a group, so the ID carries its member post IDs ("pg_" plus
+ * the base64url-encoded, comma-separated IDs). It needs no server-side state, so a group
+ * can be looked up from the Worker or after a restart.
+ */
+
+import { createError, ErrorCodes } from "./errors.js";
+
+const PREFIX = "pg_";
+
+export function encodePostGroupId(postIds: string[]): string {
+  const encoded = btoa(postIds.join(",")).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  return `${PREFIX}${encoded}`;
+}
+
+/**
+ * Member post IDs of a group. Malformed IDs are validation errors.
+ */
+export function decodePostGroupId(groupId: string): string[] {
+  const invalid = () => createError(ErrorCodes.VALIDATION_ERROR, `Invalid group_id: ${groupId}`);
+  if (!groupId.startsWith(PREFIX) || !/^[A-Za-z0-9_-]+$/.test(groupId.slice(PREFIX.length))) {
+    throw invalid();
+  }
+  let decoded: string;
+  try {
+    decoded = atob(groupId.slice(PREFIX.length).replace(/-/g, "+").replace(/_/g, "/"));
+  } catch {
+    throw invalid();
+  }
+  const postIds = decoded.split(",");
+  if (postIds.some((id) => !/^[\w-]+$/.test(id))) {
+    throw invalid();
+  }
+  return postIds;
+}
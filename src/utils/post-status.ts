@@ -0,0 +1,74 @@
+/**
+ * Overall post status derived from the API post status and per-platform outcomes
+ */
+
+import type { PostDetails } from "../types/index.js";
+
+export type OverallStatus =
+  | "pending"
+  | "processing"
+  | "complete"
+  | "failed"
+  | "draft"
+  | "media_processing_failed";
+
+/**
+ * Statuses a post never leaves on its own
+ */
+export const TERMINAL_STATUSES: readonly OverallStatus[] = ["complete", "failed", "media_processing_failed"];
+
+export function isTerminalStatus(status: OverallStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+export function getOverallStatus(post: Pick<PostDetails, "status" | "draft" | "platforms">): OverallStatus {
+  const platforms = post.platforms ?? [];
+
+  // Handle draft status first
+  if (post.status === "media_processing_failed") {
+    return "media_processing_failed";
+  } else if (post.status === "draft" || post.draft === true) {
+    return "draft";
+  } else if (post.status === "scheduled") {
+    return "pending";
+  } else if (post.status === "processing") {
+    return "processing";
+  } else if (post.status === "processed") {
+    if (platforms.length === 0) {
+      return "pending";
+    }
+    const allPublished = platforms.every((p) => p.status === "published");
+    const allFailed = platforms.every((p) => p.status === "failed");
+    const anyPending = platforms.some((p) => p.status === "pending" || p.status === "processing");
+
+    if (anyPending) {
+      // Only if there are pending/processing platforms - this is truly processing
+      return "processing";
+    } else if (allPublished) {
+      return "complete";
+    } else if (allFailed) {
+      return "failed";
+    }
+    // Mixed statuses (some published, some failed) - processing is complete
+    // Use "complete" since processing is finished, details are in platforms
+    return "complete";
+  }
+  return "pending";
+}
+
+/**
+ * Overall status of a group of posts (post_publish variants): still in progress while
+ * any post is, and complete once all have finished with at least one post complete
+ */
+export function getGroupOverallStatus(statuses: OverallStatus[]): OverallStatus {
+  if (statuses.every((status) => status === statuses[0])) {
+    return statuses[0];
+  }
+  if (statuses.some((status) => status === "pending" || status === "processing")) {
+    return "processing";
+  }
+  if (statuses.includes("draft")) {
+    return "draft";
+  }
+  return statuses.includes("complete") ? "complete" : "failed";
+}
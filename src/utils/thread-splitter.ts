@@ -0,0 +1,160 @@
+/**
+ * Automatic thread splitting for post_publish's auto_thread mode: breaks over-long
+ * content into a root body plus thread children that fit every target platform.
+ *
+ * Content is split at paragraph boundaries, then sentences, then words; a single word
+ * longer than a post is cut between graphemes. Posts are filled greedily, so a post
+ * ends at the last boundary that still fits. Media goes to the root post unless the
+ * content places it with a [media:N] marker (1-based index into the media list).
+ */
+
+import { createError, ErrorCodes } from "./errors.js";
+import { measureText, PLATFORM_RULES } from "./platform-rules.js";
+
+const MEDIA_MARKER = /\s*\[media:(\d+)\]/g;
+
+export interface ThreadSplitOptions {
+  platforms: string[]; // Target platforms; each must publish threads
+  numbering?: boolean; // Append " i/n" to every post
+}
+
+export interface ThreadSplit {
+  body: string;
+  media: string[];
+  thread: Array<{ body: string; media?: string[] }>;
+}
+
+interface Piece {
+  text: string;
+  sep: string; // Joins this piece to the previous one in the same post
+  media: number[]; // 0-based indexes of the media placed here
+}
+
+const sentences = new Intl.Segmenter(undefined, { granularity: "sentence" });
+const graphemes = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+
+/**
+ * Paragraphs and sentences, in order, with their media markers taken out
+ */
+function toPieces(content: string, mediaCount: number): Piece[] {
+  const pieces: Piece[] = [];
+  const seen = new Set<number>();
+  let pending: number[] = []; // Markers standing on their own attach to the next piece
+
+  content.split(/\n\s*\n/).forEach((paragraph, p) => {
+    Array.from(sentences.segment(paragraph), (s) => s.segment).forEach((sentence, s) => {
+      const media: number[] = [...pending];
+      const text = sentence
+        .replace(MEDIA_MARKER, (_, n: string) => {
+          const index = Number(n) - 1;
+          if (index < 0 || index >= mediaCount) {
+            throw createError(
+              ErrorCodes.VALIDATION_ERROR,
+              `[media:${n}] doesn't match any of the ${mediaCount} media items`
+            );
+          }
+          if (seen.has(index)) {
+            throw createError(ErrorCodes.VALIDATION_ERROR, `[media:${n}] is placed more than once`);
+          }
+          seen.add(index);
+          media.push(index);
+          return "";
+        })
+        .trim();
+      if (!text) {
+        pending = media;
+        return;
+      }
+      pending = [];
+      pieces.push({ text, sep: s === 0 ? (p === 0 ? "" : "\n\n") : " ", media });
+    });
+  });
+  if (pending.length > 0 && pieces.length > 0) {
+    pieces[pieces.length - 1].media.push(...pending);
+  }
+  return pieces;
+}
+
+/**
+ * Break a piece that doesn't fit a post on its own into words, or a word into graphemes
+ */
+function breakDown(piece: Piece): Piece[] {
+  const words = piece.text.split(/\s+/);
+  const parts =
+    words.length > 1
+      ? words.map((text) => ({ text, sep: " " }))
+      : Array.from(graphemes.segment(piece.text), (s) => ({ text: s.segment, sep: "" }));
+  return parts.map((part, i) => ({ ...part, media: i === 0 ? piece.media : [] }));
+}
+
+function pack(pieces: Piece[], fits: (text: string) => boolean): Array<{ text: string; media: number[] }> {
+  const posts: Array<{ text: string; media: number[] }> = [];
+  let current: { text: string; media: number[] } | undefined;
+
+  const add = (piece: Piece) => {
+    if (current) {
+      const candidate = current.text + piece.sep + piece.text;
+      if (fits(candidate)) {
+        current.text = candidate;
+        current.media.push(...piece.media);
+        return;
+      }
+      posts.push(current);
+      current = undefined;
+    }
+    if (fits(piece.text) || [...graphemes.segment(piece.text)].length <= 1) {
+      current = { text: piece.text, media: [...piece.media] };
+      return;
+    }
+    breakDown(piece).forEach(add);
+  };
+
+  pieces.forEach(add);
+  if (current) {
+    posts.push(current);
+  }
+  return posts;
+}
+
+/**
+ * Split content into a root post and thread children that fit every platform's limit
+ */
+export function splitIntoThread(content: string, media: string[], options: ThreadSplitOptions): ThreadSplit {
+  const rules = options.platforms.map((platform) => {
+    const rule = PLATFORM_RULES[platform];
+    if (!rule?.threads) {
+      throw createError(ErrorCodes.VALIDATION_ERROR, `auto_thread can't split posts for ${platform}: it doesn't publish threads`);
+    }
+    return rule;
+  });
+  const pieces = toPieces(content, media.length);
+  if (pieces.length === 0) {
+    throw createError(ErrorCodes.VALIDATION_ERROR, "Content is empty once media markers are removed");
+  }
+
+  // Numbering needs room for " n/n"; retry with wider numbers if the thread outgrows them
+  let posts: Array<{ text: string; media: number[] }> = [];
+  for (let digits = 1; ; digits++) {
+    const reserve = options.numbering ? ` ${"9".repeat(digits)}/${"9".repeat(digits)}` : "";
+    posts = pack(pieces, (text) => rules.every((rule) => measureText(text + reserve, rule.unit) <= rule.maxLength));
+    if (!options.numbering || posts.length < 10 ** digits) {
+      break;
+    }
+  }
+
+  const numbered = options.numbering && posts.length > 1;
+  const texts = posts.map((post, i) => (numbered ? `${post.text} ${i + 1}/${posts.length}` : post.text));
+
+  // Media without a marker stays on the root post
+  const placed = new Set(posts.slice(1).flatMap((post) => post.media));
+  const rootMedia = media.filter((_, i) => !placed.has(i));
+
+  return {
+    body: texts[0],
+    media: rootMedia,
+    thread: posts.slice(1).map((post, i) => ({
+      body: texts[i + 1],
+      ...(post.media.length > 0 && { media: post.media.map((m) => media[m]) }),
+    })),
+  };
+}
@@ -3,6 +3,7 @@
  */
 
 import { z } from "zod";
+import { MAX_PAGINATED_ITEMS } from "../api/pagination.js";
 
 /**
  * Schema for ISO 8601 date strings
@@ -24,6 +25,24 @@ export const URLSchema = z.string().url({
   message: "Must be a valid URL",
 });
 
+/**
+ * Cache control for tools that read cached resources (profile groups, profiles, placements, queues)
+ */
+export const CacheModeSchema = z.enum(["default", "bypass"]).optional().describe(
+  "Set to 'bypass' to skip the client cache and fetch fresh data (e.g. right after connecting a profile in the browser)"
+);
+
+/**
+ * Options for list tools that can gather results across pages
+ */
+export const AllPagesSchema = z.boolean().optional().describe(
+  `Fetch every page (starting at page, if given) and return all items, up to ${MAX_PAGINATED_ITEMS}`
+);
+
+export const MaxItemsSchema = z.number().int().positive().max(MAX_PAGINATED_ITEMS).optional().describe(
+  `Fetch pages until this many items are gathered (max ${MAX_PAGINATED_ITEMS}). Implies all pages.`
+);
+
 /**
  * Check if a string looks like a file path
  */
@@ -162,43 +181,204 @@ export const PinterestParamsSchema = z.object({
   link: z.string().optional(),
 }).strict();
 
-// Twitter/X and Threads don't have platform-specific parameters
+// Twitter/X, Threads and Bluesky don't have platform-specific parameters
 export const TwitterParamsSchema = z.object({}).strict();
 export const ThreadsParamsSchema = z.object({}).strict();
+export const BlueskyParamsSchema = z.object({}).strict();
+
+// Telegram parameters validation
+export const TelegramParamsSchema = z.object({
+  chat_id: z.string({
+    required_error: "Telegram chat_id is required (get it from profiles_placements)",
+  }).min(1, { message: "Telegram chat_id cannot be empty" }),
+  parse_mode: z.enum(["HTML", "MarkdownV2"], {
+    errorMap: () => ({ message: "Telegram parse_mode must be 'HTML' or 'MarkdownV2'" }),
+  }).optional(),
+  disable_link_preview: z.boolean().optional(),
+  disable_notification: z.boolean().optional(),
+}).strict();
+
+const GoogleBusinessDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, {
+  message: "Google Business dates must use YYYY-MM-DD format",
+});
+
+const GoogleBusinessTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, {
+  message: "Google Business times must use 24-hour HH:MM format",
+});
+
+// Google Business parameters validation
+export const GoogleBusinessParamsSchema = z.object({
+  format: z.enum(["standard", "event", "offer"], {
+    errorMap: () => ({ message: "Google Business format must be 'standard', 'event', or 'offer'" }),
+  }).optional(),
+  location_id: z.string({
+    required_error: "Google Business location_id is required (get it from profiles_placements)",
+  }).regex(/^accounts\/[^/]+\/locations\/[^/]+$/, {
+    message: "Google Business location_id must be a full resource path 'accounts/X/locations/Y'",
+  }),
+  language_code: z.string().optional(),
+  cta_action_type: z.enum(["LEARN_MORE", "BOOK", "ORDER", "SHOP", "SIGN_UP", "CALL"], {
+    errorMap: () => ({
+      message: "Google Business cta_action_type must be one of: LEARN_MORE, BOOK, ORDER, SHOP, SIGN_UP, CALL",
+    }),
+  }).optional(),
+  cta_url: URLSchema.refine((url) => url.startsWith("https://"), {
+    message: "Google Business cta_url must be an HTTPS URL",
+  }).optional(),
+  event_title: z.string().optional(),
+  event_start_date: GoogleBusinessDateSchema.optional(),
+  event_end_date: GoogleBusinessDateSchema.optional(),
+  event_start_time: GoogleBusinessTimeSchema.optional(),
+  event_end_time: GoogleBusinessTimeSchema.optional(),
+  offer_coupon_code: z.string().optional(),
+  offer_redeem_url: URLSchema.optional(),
+  offer_terms: z.string().optional(),
+}).strict().superRefine((params, ctx) => {
+  const format = params.format ?? "standard";
+
+  if (params.cta_action_type && params.cta_action_type !== "CALL" && !params.cta_url) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["cta_url"],
+      message: `Google Business cta_url is required for cta_action_type '${params.cta_action_type}'`,
+    });
+  }
+  if (params.cta_url && !params.cta_action_type) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["cta_action_type"],
+      message: "Google Business cta_action_type is required when cta_url is set",
+    });
+  }
+
+  // Events and offers both need a date window; events also need a title
+  if (format === "event" || format === "offer") {
+    if (format === "event" && !params.event_title) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["event_title"],
+        message: "Google Business event posts require event_title",
+      });
+    }
+    for (const field of ["event_start_date", "event_end_date"] as const) {
+      if (!params[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `Google Business ${format} posts require ${field}`,
+        });
+      }
+    }
+    if (
+      params.event_start_date &&
+      params.event_end_date &&
+      params.event_end_date < params.event_start_date
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["event_end_date"],
+        message: "Google Business event_end_date must not be before event_start_date",
+      });
+    }
+  } else {
+    for (const field of ["event_start_date", "event_end_date", "event_start_time", "event_end_time"] as const) {
+      if (params[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `Google Business ${field} is only valid for format 'event' or 'offer'`,
+        });
+      }
+    }
+  }
+
+  if (format === "offer") {
+    if (!params.offer_coupon_code && !params.offer_redeem_url && !params.offer_terms) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["offer_coupon_code"],
+        message: "Google Business offer posts require at least one of offer_coupon_code, offer_redeem_url or offer_terms",
+      });
+    }
+  } else {
+    for (const field of ["offer_coupon_code", "offer_redeem_url", "offer_terms"] as const) {
+      if (params[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `Google Business ${field} is only valid for format 'offer'`,
+        });
+      }
+    }
+  }
+});
 
 // Combined platform parameters schema
 export const PlatformParamsSchema = z.object({
-  instagram: InstagramParamsSchema.optional(),
-  youtube: YouTubeParamsSchema.optional(),
-  tiktok: TikTokParamsSchema.optional(),
-  facebook: FacebookParamsSchema.optional(),
-  linkedin: LinkedInParamsSchema.optional(),
-  pinterest: PinterestParamsSchema.optional(),
-  twitter: TwitterParamsSchema.optional(),
-  threads: ThreadsParamsSchema.optional(),
-}).strict().optional();
+  instagram: InstagramParamsSchema.optional().describe("Instagram: format (post|reel|story), collaborators (array of usernames), first_comment (string), cover_url (reel thumbnail — URL or local file path; local paths are uploaded as cover_file), audio_name (string), trial_strategy (MANUAL|SS_PERFORMANCE), thumb_offset (string in ms)"),
+  youtube: YouTubeParamsSchema.optional().describe("YouTube: title (string), privacy_status (public|unlisted|private), cover_url (custom thumbnail — URL or local file path; local paths are uploaded as cover_file), made_for_kids (bool), tags (array of strings), category_id (string, defaults to '22' People & Blogs), contains_synthetic_media (bool, disclose AI-generated content)"),
+  tiktok: TikTokParamsSchema.optional().describe("TikTok: format (video|image), privacy_status (PUBLIC_TO_EVERYONE|MUTUAL_FOLLOW_FRIENDS|FOLLOWER_OF_CREATOR|SELF_ONLY), photo_cover_index (integer, image only), auto_add_music (bool, image only), made_with_ai (bool, video only), disable_comment (bool), disable_duet (bool, video only), disable_stitch (bool, video only), brand_content_toggle (bool), brand_organic_toggle (bool)"),
+  facebook: FacebookParamsSchema.optional().describe("Facebook: format (post|story|reel), title (string, reel only), first_comment (string), page_id (string, use profiles.placements to get available pages)"),
+  linkedin: LinkedInParamsSchema.optional().describe("LinkedIn: organization_id (string for company pages)"),
+  pinterest: PinterestParamsSchema.optional().describe("Pinterest: cover_url (cover image for video pins — URL or local file path; local paths are uploaded as cover_file), board_id (string), title (string), link (string)"),
+  twitter: TwitterParamsSchema.optional().describe("Twitter/X: No platform-specific parameters available. Supports threads."),
+  threads: ThreadsParamsSchema.optional().describe("Threads: No platform-specific parameters available. Supports threads."),
+  bluesky: BlueskyParamsSchema.optional().describe("Bluesky: No platform-specific parameters available. Supports threads. Auto-converts @handles, #tags, and URLs into clickable facets; link cards are generated from URLs when no media is attached."),
+  telegram: TelegramParamsSchema.optional().describe("Telegram: chat_id (string, required — destination channel/chat ID from profiles_placements), parse_mode ('HTML'|'MarkdownV2'; omit for plain text), disable_link_preview (bool), disable_notification (bool). Character limit 4,096 for text-only / 1,024 with media."),
+  google_business: GoogleBusinessParamsSchema.optional().describe("Google Business: format ('standard'|'event'|'offer', default 'standard'), location_id (string, required — full resource path 'accounts/X/locations/Y' from profiles_placements), language_code (BCP47, e.g. 'en'; defaults to 'en'), cta_action_type ('LEARN_MORE'|'BOOK'|'ORDER'|'SHOP'|'SIGN_UP'|'CALL'), cta_url (HTTPS; required for every CTA except CALL). format='event' additional: event_title (required), event_start_date+event_end_date (YYYY-MM-DD, required), event_start_time+event_end_time (HH:MM, optional). format='offer' additional: event_start_date+event_end_date (required, validity window), event_title (optional, defaults to 'Special Offer'), offer_coupon_code (string), offer_redeem_url (string), offer_terms (string). Media: 1 image (jpg/png), max 5MB, min 400x300px (recommended 1200x900). No video. Text-only allowed. Character limit 1,500 (summary)."),
+}).strict().optional().describe(
+  "Platform-specific parameters. Keys are platform names, values are parameter objects. Use this to add collaborators, set video titles, privacy settings, etc."
+);
 
 /**
  * Schema for thread child posts
  */
 export const ThreadChildSchema = z.object({
-  body: z.string().min(1, "Thread child body cannot be empty"),
-  media: z.array(MediaItemSchema).optional(),
+  body: z.string().min(1, "Thread child body cannot be empty").describe("Text content for this thread post"),
+  media: z.array(MediaItemSchema).optional().describe("Optional array of media URLs or local file paths for this thread post"),
+});
+
+/**
+ * Schema for a per-platform or per-profile variant of a post
+ */
+export const PostVariantSchema = z.object({
+  content: z.string().min(1, "Variant content cannot be empty").optional().describe("Replaces content for these profiles"),
+  media: z.array(MediaItemSchema).optional().describe("Replaces media for these profiles"),
+  thread: z.array(ThreadChildSchema).optional().describe("Replaces thread for these profiles"),
 });
 
 /**
  * Schema for post.publish parameters
  */
 export const PostPublishSchema = z.object({
-  content: z.string().min(1, "Content cannot be empty"),
-  profiles: z.array(z.string()).min(1, "At least one profile is required"),
-  schedule: ISO8601DateSchema.optional(),
-  media: z.array(MediaItemSchema).optional(),
-  idempotency_key: z.string().optional(),
-  require_confirmation: z.boolean().optional(),
-  draft: z.boolean().optional(),
+  content: z.string().min(1, "Content cannot be empty").describe("Post content text (caption/description)"),
+  profiles: z.array(z.string()).min(1, "At least one profile is required").describe(
+    "Array of profile IDs (hashids) or platform names (e.g., 'linkedin', 'instagram', 'twitter'). When using platform names, posts to the first connected profile for that platform."
+  ),
+  schedule: ISO8601DateSchema.optional().describe("Optional ISO 8601 scheduled time (e.g., '2024-12-31T23:59:59Z')"),
+  media: z.array(MediaItemSchema).optional().describe(
+    "Optional array of media URLs or local file paths (images or videos). File paths can be absolute (/path/to/file.jpg), relative (./image.png), or use ~ for home directory (~/Pictures/photo.jpg)"
+  ),
+  idempotency_key: z.string().optional().describe("Optional idempotency key for request deduplication"),
+  require_confirmation: z.boolean().optional().describe("If true, return summary without publishing (dry run)"),
+  draft: z.boolean().optional().describe("If true, creates a draft post that won't publish automatically"),
   platforms: PlatformParamsSchema,
-  thread: z.array(ThreadChildSchema).optional(),
+  thread: z.array(ThreadChildSchema).optional().describe(
+    "Optional array of thread child posts (supported on X/Twitter, Threads and Bluesky only). The parent post is published first, then each child is published as a reply in order."
+  ),
+  queue_id: z.string().optional().describe(
+    "Optional queue ID to add the post to. The queue will automatically assign a timeslot. Do not use together with 'schedule'."
+  ),
+  queue_priority: z.enum(["high", "medium", "low"]).optional().describe(
+    "Optional priority when adding to a queue (default: medium). Higher priority posts get earlier timeslots."
+  ),
+  auto_thread: z.boolean().optional().describe(
+    "If true, split content that's too long for the targets into a thread at paragraph, sentence or word boundaries for X, Threads and Bluesky targets; other targets get the content unsplit in a separate auto_thread post (don't pass thread). Place media in a specific post with [media:N] markers in content (1-based index into media); unmarked media stays on the first post. Returns a preview of the split unless require_confirmation is false."
+  ),
+  thread_numbering: z.boolean().optional().describe("With auto_thread: append ' 1/n', ' 2/n'... to each post of the thread"),
+  variants: z.record(z.string(), PostVariantSchema).optional().describe(
+    "Optional per-platform or per-profile overrides of content, media and thread, keyed by a platform name or a profile ID from profiles (e.g. { linkedin: { content: '...' } }). Profiles with a variant get their own post; the rest share the base post. The posts are published together and returned with a group_id for post_status and post_stats."
+  ),
 });
 
 /**
@@ -210,6 +390,15 @@ export function validateScheduleInFuture(schedule: string): boolean {
   return scheduleDate > now;
 }
 
+/**
+ * Format Zod issues as a single readable message ("path: message; ...")
+ */
+export function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
 /**
  * Type inference helpers
  */
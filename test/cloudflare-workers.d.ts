@@ -0,0 +1,9 @@
+/**
+ * Types for the "cloudflare:workers" stand-in worker.test.ts registers in Node
+ */
+
+export declare class WorkerEntrypoint<Env = unknown> {
+  protected ctx: unknown;
+  protected env: Env;
+  constructor(ctx: unknown, env: Env);
+}
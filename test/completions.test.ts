@@ -0,0 +1,80 @@
+/**
+ * completion/complete for prompt and resource template arguments against the fake API
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness, type Harness } from "./harness.js";
+
+let harness: Harness;
+
+before(async () => {
+  harness = await createHarness();
+  harness.api.state.profiles.find((p) => p.id === "prof_ig")!.username = "acme.shop";
+});
+
+after(async () => {
+  await harness.close();
+});
+
+async function complete(
+  ref: { type: "ref/prompt"; name: string } | { type: "ref/resource"; uri: string },
+  name: string,
+  value: string,
+  context?: Record<string, string>
+): Promise<string[]> {
+  const { completion } = await harness.mcp.complete({
+    ref,
+    argument: { name, value },
+    ...(context && { context: { arguments: context } }),
+  });
+  return completion.values;
+}
+
+const report = { type: "ref/prompt" as const, name: "weekly_engagement_report" };
+
+test("profile IDs match on ID, name, username and platform", async () => {
+  assert.deepEqual(await complete(report, "profile_id", ""), ["prof_tw", "prof_li", "prof_ig", "prof_gb"]);
+  assert.deepEqual(await complete(report, "profile_id", "prof_l"), ["prof_li"]);
+  assert.deepEqual(await complete(report, "profile_id", "linked"), ["prof_li"]);
+  assert.deepEqual(await complete(report, "profile_id", "@acme.sh"), ["prof_ig"]);
+  assert.deepEqual(await complete(report, "profile_id", "STORE"), ["prof_gb"]);
+  // ID prefixes rank before name matches
+  assert.deepEqual(await complete(report, "profile_id", "acme on"), ["prof_tw", "prof_li", "prof_ig"]);
+});
+
+test("placement IDs are looked up for the profile in context", async () => {
+  assert.deepEqual(await complete(report, "placement_id", "", { profile_id: "prof_li" }), ["org_1"]);
+  assert.deepEqual(await complete(report, "placement_id", "acme inc", { profile_id: "prof_li" }), ["org_1"]);
+  assert.deepEqual(await complete(report, "placement_id", ""), []);
+});
+
+test("profile group and queue IDs complete by name", async () => {
+  assert.deepEqual(
+    await complete({ type: "ref/prompt", name: "announce_launch" }, "profile_group_id", "acm"),
+    ["grp_1"]
+  );
+  assert.deepEqual(await complete({ type: "ref/prompt", name: "fill_queue" }, "queue_id", "week"), ["queue_1"]);
+  assert.deepEqual(await complete({ type: "ref/resource", uri: "postproxy://queues/{queue_id}" }, "queue_id", "weekdays"), [
+    "queue_1",
+  ]);
+  assert.deepEqual(await complete({ type: "ref/prompt", name: "fill_queue" }, "queue_id", "monthly"), []);
+});
+
+test("arguments without suggestions complete to nothing", async () => {
+  assert.deepEqual(await complete({ type: "ref/prompt", name: "announce_launch" }, "product", "wid"), []);
+  assert.deepEqual(await complete({ type: "ref/prompt", name: "fill_queue" }, "profile_id", ""), []);
+});
+
+test("lookups that fail complete to nothing", async () => {
+  harness.api.failNext({ path: "/profiles/prof_tw/placements" }, 500, { error: "Boom" }, { times: 5 });
+  assert.deepEqual(await complete(report, "placement_id", "", { profile_id: "prof_tw" }), []);
+});
+
+test("unknown prompts and templates are invalid params", async () => {
+  await assert.rejects(complete({ type: "ref/prompt", name: "nope" }, "profile_id", ""), (error: any) => error.code === -32602);
+  await assert.rejects(
+    complete({ type: "ref/resource", uri: "postproxy://nope/{id}" }, "id", ""),
+    (error: any) => error.code === -32602
+  );
+});
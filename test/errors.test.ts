@@ -0,0 +1,266 @@
+/**
+ * Error mapping: API failures surface as isError tool results with the right code
+ */
+
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness, type Harness } from "./harness.js";
+
+let harness: Harness | undefined;
+
+async function setup(options?: Parameters<typeof createHarness>[0]): Promise<Harness> {
+  harness = await createHarness(options);
+  return harness;
+}
+
+afterEach(async () => {
+  await harness?.close();
+  harness = undefined;
+});
+
+describe("HTTP status mapping in request()", () => {
+  test("401 maps to AUTH_INVALID", async () => {
+    const h = await setup({ apiKey: "wrong-key" });
+    const result = await h.callTool("profiles_placements", { profile_id: "prof_li" });
+    assert.equal(result.isError, true);
+    assert.equal(result.structuredContent, undefined);
+    assert.equal(result.error?.code, "AUTH_INVALID");
+    assert.equal(result.error?.status, 401);
+    assert.equal(result.error?.retryable, false);
+    assert.equal(result.error?.message, "Failed to retrieve placements: Invalid API key");
+  });
+
+  test("404 maps to TARGET_NOT_FOUND", async () => {
+    const h = await setup();
+    const result = await h.callTool("post_status", { post_id: "missing" });
+    assert.equal(result.error?.code, "TARGET_NOT_FOUND");
+    assert.equal(result.error?.request_id, "req-404");
+    assert.equal(result.error?.message, "Failed to get post status: Post not found");
+  });
+
+  test("422 errors arrays map to VALIDATION_ERROR and keep every message", async () => {
+    const h = await setup();
+    const result = await h.callTool("post_publish", { content: "Hi", profiles: ["myspace", "friendster"] });
+    assert.equal(result.error?.code, "VALIDATION_ERROR");
+    assert.deepEqual(result.error?.errors, ["Unknown profiles: myspace, friendster"]);
+  });
+
+  test("400 message bodies use the message field", async () => {
+    const h = await setup();
+    h.api.failNext({ path: "/posts/post_1/comments" }, 400, { status: 400, error: "Bad Request", message: "per_page is too large" });
+    const result = await h.callTool("comments_list", { post_id: "post_1", profile_id: "prof_tw" });
+    assert.equal(result.error?.code, "VALIDATION_ERROR");
+    assert.equal(result.error?.message, "Failed to list comments: per_page is too large");
+  });
+
+  test("error-only bodies use the error field", async () => {
+    const h = await setup();
+    h.api.failNext({ path: "/uploads" }, 403, { error: "Uploads are not enabled for this plan" });
+    const result = await h.callTool("upload_create");
+    assert.equal(result.error?.code, "VALIDATION_ERROR");
+    assert.match(result.error?.message, /Uploads are not enabled for this plan$/);
+  });
+
+  test("bodies without a message fall back to the status", async () => {
+    const h = await setup();
+    h.api.failNext({ path: "/post_queues/queue_1" }, 500, { trace: "abc" });
+    const result = await h.callTool("queues_get", { queue_id: "queue_1" });
+    assert.equal(result.error?.code, "API_ERROR");
+    assert.equal(result.error?.retryable, true);
+    assert.match(result.error?.message, /API request failed with status 500$/);
+    assert.equal(result.error?.details.trace, "abc");
+  });
+
+  test("non-JSON bodies fall back to the status text", async () => {
+    const h = await setup();
+    h.api.failNext({ path: "/posts/post_1" }, 502, "<html>Bad Gateway</html>", { times: 4 });
+    const result = await h.callTool("post_status", { post_id: "post_1" });
+    assert.equal(result.error?.code, "API_ERROR");
+    assert.equal(result.error?.status, 502);
+    assert.equal(result.error?.details.retries.length, 3);
+  });
+
+  test("per-platform error details are surfaced", async () => {
+    const h = await setup();
+    h.api.failNext({ method: "POST", path: "/posts" }, 422, {
+      errors: ["Video is too long for instagram"],
+      platforms: [{ platform: "instagram", error: "Video is too long", error_details: { platform_error_code: "2207026" } }],
+    });
+    const result = await h.callTool("post_publish", { content: "Clip", profiles: ["instagram"] });
+    assert.equal(result.error?.code, "VALIDATION_ERROR");
+    assert.deepEqual(result.error?.platform_errors, [
+      { platform: "instagram", error: "Video is too long", error_details: { platform_error_code: "2207026" } },
+    ]);
+  });
+});
+
+describe("retries and transport failures", () => {
+  test("retryable statuses are retried until they succeed", async () => {
+    const h = await setup();
+    h.api.failNext({ path: "/posts/post_1" }, 503, {}, { times: 2 });
+    const result = await h.callTool("post_status", { post_id: "post_1" });
+    assert.equal(result.isError, false);
+    assert.equal(h.api.requestsTo("/posts/post_1").length, 3);
+  });
+
+  test("POSTs without an Idempotency-Key are not retried", async () => {
+    const h = await setup();
+    h.api.failNext({ path: "/uploads" }, 503, {});
+    const result = await h.callTool("upload_create");
+    assert.equal(result.error?.code, "API_ERROR");
+    assert.equal(h.api.requestsTo("/uploads").length, 1);
+  });
+
+  test("network errors are retried, then reported as retryable", async () => {
+    const h = await setup();
+    const reset = Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } });
+    h.api.throwNext({ path: "/post_queues/queue_1/next_slot" }, reset, 4);
+    const result = await h.callTool("queues_next_slot", { queue_id: "queue_1" });
+    assert.equal(result.error?.code, "API_ERROR");
+    assert.equal(result.error?.retryable, true);
+    assert.equal(result.error?.request_id, null);
+    assert.equal(result.error?.details.retries.length, 3);
+  });
+
+  test("an exhausted rate limit quota fails later calls fast instead of blocking", async () => {
+    const h = await setup();
+    h.api.failNext({ path: "/posts/post_1" }, 429, { error: "Too Many Requests" }, {
+      headers: { "retry-after": "3600", "x-ratelimit-limit": "100", "x-ratelimit-remaining": "0", "x-ratelimit-reset": "3600" },
+    });
+    const limited = await h.callTool("post_status", { post_id: "post_1" });
+    assert.equal(limited.error?.status, 429);
+    assert.equal(h.api.requestsTo("/posts/post_1").length, 1, "a Retry-After past the cap isn't waited for");
+
+    const held = await h.callTool("post_status", { post_id: "post_1" });
+    assert.equal(held.error?.code, "RATE_LIMITED");
+    assert.equal(held.error?.retryable, true);
+    assert.match(held.error?.suggested_fix, /rate limit/);
+    assert.equal(h.api.requestsTo("/posts/post_1").length, 1);
+  });
+
+  test("timeouts map to a timeout error", async () => {
+    const h = await setup();
+    h.api.throwNext({ path: "/posts/post_1" }, new DOMException("The operation timed out", "TimeoutError"));
+    const result = await h.callTool("post_status", { post_id: "post_1" });
+    assert.equal(result.error?.code, "API_ERROR");
+    assert.equal(result.error?.retryable, true);
+    assert.match(result.error?.message, /Request timeout - API did not respond within 30 seconds$/);
+  });
+
+  test("retried multipart uploads send the files again", async () => {
+    const h = await setup({ fixtures: { files: { "/tmp/a.png": new Uint8Array([0x89, 0x50]) } } });
+    h.api.failNext({ method: "POST", path: "/posts" }, 503, {});
+    const result = await h.callTool("post_publish", { content: "Hi", profiles: ["twitter"], media: ["/tmp/a.png"] });
+    assert.equal(result.isError, false);
+    const attempts = h.api.requestsTo("/posts", "POST");
+    assert.deepEqual(attempts.map((r) => r.files?.map((f) => f.size)), [[2], [2]]);
+    assert.equal(attempts[1].headers.get("content-length"), attempts[0].headers.get("content-length"));
+  });
+
+  test("retried multipart uploads don't move progress backwards", async () => {
+    const h = await setup({ fixtures: { files: { "/tmp/a.png": new Uint8Array(256 * 1024) } } });
+    h.api.failNext({ method: "POST", path: "/posts" }, 503, {});
+    const progress: number[] = [];
+    const result = await h.mcp.callTool(
+      { name: "post_publish", arguments: { content: "Hi", profiles: ["twitter"], media: ["/tmp/a.png"] } },
+      undefined,
+      { onprogress: (notification) => progress.push(notification.progress) }
+    );
+    assert.equal(result.isError, undefined);
+    assert.equal(h.api.requestsTo("/posts", "POST").length, 2);
+    assert.deepEqual(progress, [...progress].sort((a, b) => a - b));
+  });
+
+  test("cancelling a tool call aborts its upload instead of retrying it", async () => {
+    let attempts = 0;
+    let started!: () => void;
+    const uploadStarted = new Promise<void>((resolve) => (started = resolve));
+    let aborted!: (reason: unknown) => void;
+    const uploadAborted = new Promise<unknown>((resolve) => (aborted = resolve));
+    const h: Harness = await setup({
+      fixtures: { files: { "/tmp/a.png": new Uint8Array([0x89, 0x50]) } },
+      runtime: {
+        fetch: (url, init) => {
+          if (init.method !== "POST" || !url.endsWith("/posts")) {
+            return h.api.fetch(url, init);
+          }
+          attempts++;
+          started();
+          // Hang like a slow upload until the request is aborted
+          return new Promise((_, reject) => {
+            init.signal!.addEventListener("abort", () => {
+              aborted(init.signal!.reason);
+              reject(init.signal!.reason);
+            });
+          });
+        },
+      },
+    });
+
+    const controller = new AbortController();
+    const call = h.mcp.callTool(
+      { name: "post_publish", arguments: { content: "Hi", profiles: ["twitter"], media: ["/tmp/a.png"] } },
+      undefined,
+      { signal: controller.signal }
+    );
+    await uploadStarted;
+    controller.abort();
+    await assert.rejects(call);
+    assert.notEqual((await uploadAborted as Error).name, "TimeoutError");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(attempts, 1);
+  });
+
+  test("upload timeouts allow for the size of the body", async () => {
+    const h = await setup({ fixtures: { files: { "/tmp/a.png": new Uint8Array(1024 * 1024) } } });
+    h.api.throwNext({ method: "POST", path: "/posts" }, new DOMException("The operation timed out", "TimeoutError"), 4);
+    const result = await h.callTool("post_publish", { content: "Hi", profiles: ["twitter"], media: ["/tmp/a.png"] });
+    assert.match(result.error?.message, /Request timeout - API did not respond within 64 seconds$/);
+  });
+
+  test("multipart uploads map errors the same way", async () => {
+    const h = await setup({ fixtures: { files: { "/tmp/a.png": new Uint8Array([0x89, 0x50]) } } });
+    h.api.failNext({ method: "POST", path: "/chats/chat_1/messages" }, 404, { error: "Not Found", message: "Chat not found" });
+    const result = await h.callTool("dm_message_send", { chat_id: "chat_1", media: ["/tmp/a.png"] });
+    assert.equal(result.error?.code, "TARGET_NOT_FOUND");
+    assert.equal(h.api.requestsTo("/chats/chat_1/messages")[0].files?.[0].type, "image/png");
+  });
+});
+
+describe("tool-level failures", () => {
+  test("invalid arguments are rejected before any request", async () => {
+    const h = await setup();
+    const result = await h.callTool("post_wait", {});
+    assert.equal(result.error?.code, "VALIDATION_ERROR");
+    assert.match(result.error?.message, /^Invalid input for post_wait: post_id/);
+    assert.equal(h.api.requests.length, 0);
+  });
+
+  test("a missing API key is reported as AUTH_MISSING", async () => {
+    const h = await setup({ apiKey: "" });
+    const result = await h.callTool("profiles_list");
+    assert.equal(result.error?.code, "AUTH_MISSING");
+  });
+
+  test("unreadable local files are validation errors", async () => {
+    const h = await setup();
+    const result = await h.callTool("post_publish", { content: "Hi", profiles: ["twitter"], media: ["/tmp/missing.jpg"] });
+    assert.equal(result.error?.code, "VALIDATION_ERROR");
+    assert.match(result.error?.message, /Failed to read file: \/tmp\/missing\.jpg/);
+  });
+
+  test("local files whose contents contradict their extension are validation errors", async () => {
+    const h = await setup({ fixtures: { files: { "/tmp/photo.jpg": new Uint8Array([0x89, 0x50, 0x4e, 0x47]) } } });
+    const result = await h.callTool("dm_message_send", { chat_id: "chat_1", media: ["/tmp/photo.jpg"] });
+    assert.equal(result.error?.code, "VALIDATION_ERROR");
+    assert.equal(result.error?.details.detected_format, "png");
+    assert.equal(h.api.requestsTo("/chats/chat_1/messages").length, 0);
+  });
+
+  test("unknown tools return an error result", async () => {
+    const h = await setup();
+    const result = await h.callTool("nonexistent_tool");
+    assert.equal(result.isError, true);
+    assert.equal(result.error?.message, "Unknown tool: nonexistent_tool");
+  });
+});
@@ -0,0 +1,1058 @@
+/**
+ * In-process fake of the PostProxy REST API for offline tests.
+ *
+ * `FakePostProxyApi.fetch` is a drop-in FetchFn for PostProxyClient: it routes
+ * requests to handlers that read and mutate an in-memory store seeded from
+ * fixtures, so writes made through one tool are visible to the next. Every
+ * request is recorded, and `failNext` / `throwNext` inject error responses and
+ * network failures for the client's error-handling paths.
+ */
+
+import type {
+  Chat,
+  Comment,
+  DirectMessage,
+  MediaAttachment,
+  Placement,
+  PlatformOutcome,
+  PostDetails,
+  PostQueue,
+  PostStats,
+  Profile,
+  ProfileComment,
+  ProfileGroup,
+  ProfileStatsResponse,
+  UploadResponse,
+} from "../src/types/index.js";
+import type { FetchFn, FileAccess } from "../src/api/runtime.js";
+
+export const FAKE_API_KEY = "test-api-key";
+export const FAKE_BASE_URL = "https://api.postproxy.test/api";
+
+export interface FakeFixtures {
+  profileGroups: ProfileGroup[];
+  profiles: Profile[];
+  placements: Record<string, Placement[]>; // Keyed by profile ID
+  posts: PostDetails[]; // Newest first, like GET /posts
+  queues: PostQueue[];
+  comments: Record<string, Comment[]>; // Keyed by post ID
+  profileComments: Record<string, ProfileComment[]>; // Keyed by profile ID
+  chats: Chat[];
+  messages: DirectMessage[];
+  postStats: Record<string, PostStats>; // Keyed by post ID
+  profileStats: Record<string, ProfileStatsResponse["data"]>; // Keyed by profile ID
+  files: Record<string, Uint8Array>; // Local files readable through `fileAccess`, keyed by path
+}
+
+/**
+ * A request as the fake received it. Multipart bodies are flattened into
+ * `fields` (repeated names collect into arrays) and `files`.
+ */
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  body?: any;
+  fields?: Record<string, string | string[]>;
+  files?: Array<{ field: string; name: string; type: string; size: number }>;
+}
+
+type RequestMatcher = { method?: string; path: string | RegExp };
+
+interface Injection extends RequestMatcher {
+  respond: (request: RecordedRequest) => Response | Promise<Response>;
+  times: number;
+}
+
+interface RouteContext extends RecordedRequest {
+  params: Record<string, string>;
+}
+
+type RouteHandler = (ctx: RouteContext) => Response | Promise<Response>;
+
+const TIMESTAMP = "2026-01-05T09:00:00.000Z";
+
+/**
+ * Default workspace: one group with X, LinkedIn, Instagram and Google Business
+ * profiles, a published post, a draft, a queue, comments, a review and a DM chat
+ */
+export function createFixtures(): FakeFixtures {
+  const errorDetails = {
+    platform_error_code: null,
+    platform_error_subcode: null,
+    platform_error_message: null,
+    postproxy_note: null,
+  };
+  return {
+    profileGroups: [
+      { id: "grp_1", name: "Acme", profiles_count: 4, created_at: TIMESTAMP, updated_at: TIMESTAMP },
+    ],
+    profiles: [
+      { id: "prof_tw", name: "Acme on X", platform: "twitter", profile_group_id: "grp_1", expires_at: null, post_count: 1 },
+      { id: "prof_li", name: "Acme on LinkedIn", platform: "linkedin", profile_group_id: "grp_1", expires_at: null, post_count: 1 },
+      { id: "prof_ig", name: "Acme on Instagram", platform: "instagram", profile_group_id: "grp_1", expires_at: null, post_count: 0 },
+      { id: "prof_gb", name: "Acme Store", platform: "google_business", profile_group_id: "grp_1", expires_at: null, post_count: 0 },
+    ],
+    placements: {
+      prof_li: [
+        { id: null, name: "Personal profile" },
+        { id: "org_1", name: "Acme Inc." },
+      ],
+      prof_gb: [{ id: "accounts/1/locations/2", name: "Acme Store, Main St" }],
+    },
+    posts: [
+      {
+        id: "post_1",
+        body: "Hello from Acme",
+        status: "processed",
+        draft: false,
+        scheduled_at: null,
+        created_at: TIMESTAMP,
+        platforms: [
+          {
+            platform: "twitter",
+            status: "published",
+            params: {},
+            attempted_at: TIMESTAMP,
+            url: "https://x.com/acme/status/1",
+            post_id: "1",
+            error: null,
+            error_details: null,
+            insights: { impressions: 120, on: TIMESTAMP },
+          },
+          {
+            platform: "linkedin",
+            status: "failed",
+            params: {},
+            attempted_at: TIMESTAMP,
+            error: "Token expired",
+            error_details: { ...errorDetails, platform_error_code: "401", postproxy_note: "Reconnect the profile" },
+          },
+        ],
+      },
+      {
+        id: "post_draft",
+        body: "Draft announcement",
+        status: "draft",
+        draft: true,
+        scheduled_at: null,
+        created_at: TIMESTAMP,
+        platforms: [{ platform: "twitter", status: "pending", params: {}, attempted_at: null, error: null, error_details: null }],
+      },
+    ],
+    queues: [
+      {
+        id: "queue_1",
+        name: "Weekdays",
+        description: null,
+        timezone: "UTC",
+        enabled: true,
+        jitter: 0,
+        profile_group_id: "grp_1",
+        timeslots: [
+          { id: 1, day: 1, time: "09:00" },
+          { id: 2, day: 3, time: "09:00" },
+        ],
+        posts_count: 0,
+      },
+    ],
+    comments: {
+      post_1: [
+        {
+          id: "cmt_1",
+          external_id: "ext_cmt_1",
+          body: "Congrats!",
+          status: "synced",
+          author_username: "fan",
+          author_avatar_url: null,
+          author_external_id: "user_9",
+          parent_external_id: null,
+          like_count: 0,
+          is_hidden: false,
+          permalink: null,
+          platform_data: null,
+          posted_at: TIMESTAMP,
+          created_at: TIMESTAMP,
+          replies: [],
+        },
+      ],
+    },
+    profileComments: {
+      prof_gb: [
+        {
+          id: "rev_1",
+          external_id: "accounts/1/locations/2/reviews/1",
+          parent_external_id: null,
+          placement_id: "accounts/1/locations/2",
+          body: "Great service",
+          status: "synced",
+          author_username: "Jo",
+          author_avatar_url: null,
+          platform_data: { star_rating: "FIVE" },
+          posted_at: TIMESTAMP,
+          created_at: TIMESTAMP,
+          replies: [],
+        },
+      ],
+    },
+    chats: [
+      {
+        id: "chat_1",
+        profile_id: "prof_ig",
+        platform: "instagram",
+        participant_external_id: "user_9",
+        participant_username: "fan",
+        participant_name: "A Fan",
+        participant_avatar_url: null,
+        external_conversation_id: "conv_1",
+        last_inbound_at: TIMESTAMP,
+        last_outbound_at: null,
+        last_message_at: TIMESTAMP,
+        metadata: null,
+        created_at: TIMESTAMP,
+      },
+    ],
+    messages: [
+      {
+        id: "msg_1",
+        chat_id: "chat_1",
+        external_id: "ext_msg_1",
+        direction: "inbound",
+        body: "Do you ship to Canada?",
+        status: "received",
+        tag: null,
+        error_message: null,
+        platform_data: null,
+        external_posted_at: TIMESTAMP,
+        reactions: [],
+        attachments: [],
+        created_at: TIMESTAMP,
+      },
+    ],
+    postStats: {
+      post_1: {
+        platforms: [
+          { profile_id: "prof_tw", platform: "twitter", records: [{ stats: { impressions: 120, likes: 4 }, recorded_at: TIMESTAMP }] },
+        ],
+      },
+    },
+    profileStats: {
+      prof_tw: {
+        profile_id: "prof_tw",
+        platform: "twitter",
+        placement_id: null,
+        records: [{ stats: { followers: 1000 }, recorded_at: TIMESTAMP }],
+      },
+    },
+    files: {},
+  };
+}
+
+export class FakePostProxyApi {
+  readonly state: FakeFixtures;
+  readonly requests: RecordedRequest[] = [];
+  private injections: Injection[] = [];
+  private idempotentPosts = new Map<string, PostDetails>();
+  private uploads: UploadResponse[] = [];
+  private nextId = 1;
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [];
+
+  constructor(
+    fixtures: Partial<FakeFixtures> = {},
+    readonly apiKey: string = FAKE_API_KEY,
+    readonly baseUrl: string = FAKE_BASE_URL
+  ) {
+    this.state = { ...createFixtures(), ...structuredClone(fixtures) };
+    this.registerRoutes();
+  }
+
+  /**
+   * FetchFn to pass to PostProxyClient through ClientRuntime.fetch
+   */
+  readonly fetch: FetchFn = async (url, init) => {
+    const request = await this.record(url, init);
+    const injection = this.injections.find((i) => matches(i, request));
+    if (injection) {
+      if (--injection.times <= 0) {
+        this.injections.splice(this.injections.indexOf(injection), 1);
+      }
+      return injection.respond(request);
+    }
+    if (request.headers.get("authorization") !== `Bearer ${this.apiKey}`) {
+      return json(401, { error: "Unauthorized", message: "Invalid API key" });
+    }
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+      if (match) {
+        return route.handler({ ...request, params: { ...match.groups } });
+      }
+    }
+    return json(404, { error: "Not Found", message: `No route for ${request.method} ${request.path}` });
+  };
+
+  /**
+   * FileAccess serving the fixtures' `files`, for local-path media
+   */
+  readonly fileAccess: FileAccess = {
+    readFile: async (filePath) => {
+      const data = this.state.files[filePath];
+      if (!data) {
+        throw new Error(`ENOENT: no such file or directory, open '${filePath}'`);
+      }
+      return { name: filePath.split("/").pop()!, data };
+    },
+  };
+
+  /**
+   * Answer the next `times` matching requests with the given status and JSON body
+   * (or a raw text body when `body` is a string)
+   */
+  failNext(
+    matcher: RequestMatcher,
+    status: number,
+    body?: unknown,
+    options: { headers?: Record<string, string>; times?: number } = {}
+  ): void {
+    this.injections.push({
+      ...matcher,
+      times: options.times ?? 1,
+      respond: () =>
+        typeof body === "string"
+          ? new Response(body, { status, headers: { "content-type": "text/html", ...options.headers } })
+          : json(status, body ?? {}, options.headers),
+    });
+  }
+
+  /**
+   * Make the next `times` matching requests reject, as fetch does on network failures
+   */
+  throwNext(matcher: RequestMatcher, error: Error, times: number = 1): void {
+    this.injections.push({
+      ...matcher,
+      times,
+      respond: () => {
+        throw error;
+      },
+    });
+  }
+
+  /**
+   * Requests received for a path, optionally filtered by method
+   */
+  requestsTo(path: string | RegExp, method?: string): RecordedRequest[] {
+    return this.requests.filter((r) => matches({ method, path }, r));
+  }
+
+  /**
+   * Finish publishing a post: every pending platform becomes published, or failed
+   * for the platforms or profile IDs listed in `failures`
+   */
+  settlePost(postId: string, failures: Record<string, string> = {}): PostDetails {
+    const post = this.findPost(postId);
+    if (!post) {
+      throw new Error(`Unknown fake post ${postId}`);
+    }
+    post.status = "processed";
+    for (const outcome of post.platforms) {
+      if (outcome.status !== "pending" && outcome.status !== "processing") continue;
+      outcome.attempted_at = TIMESTAMP;
+      const failure = failures[outcome.profile_id ?? ""] ?? failures[outcome.platform];
+      if (failure) {
+        outcome.status = "failed";
+        outcome.error = failure;
+      } else {
+        outcome.status = "published";
+        outcome.url = `https://${outcome.platform}.example/posts/${post.id}`;
+        outcome.post_id = `${outcome.platform}_${post.id}`;
+      }
+    }
+    return post;
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_${this.nextId++}`;
+  }
+
+  private findPost(postId: string): PostDetails | undefined {
+    return this.state.posts.find((p) => p.id === postId);
+  }
+
+  private async record(url: string, init: RequestInit): Promise<RecordedRequest> {
+    const parsed = new URL(url);
+    const method = (init.method ?? "GET").toUpperCase();
+    const request: RecordedRequest = {
+      method,
+      path: parsed.pathname.slice(new URL(this.baseUrl).pathname.length) || "/",
+      query: parsed.searchParams,
+      headers: new Headers(init.headers),
+    };
+
+    // Streamed multipart bodies are read back into FormData the way a server would parse them
+    const form =
+      init.body instanceof ReadableStream
+        ? await new Response(init.body, { headers: { "content-type": request.headers.get("content-type")! } }).formData()
+        : init.body;
+    if (form instanceof FormData) {
+      request.fields = {};
+      request.files = [];
+      for (const [field, value] of form.entries()) {
+        if (typeof value === "string") {
+          const existing = request.fields[field];
+          request.fields[field] = field.endsWith("[]")
+            ? [...((existing as string[] | undefined) ?? []), value]
+            : value;
+        } else {
+          request.files.push({ field, name: value.name, type: value.type, size: value.size });
+        }
+      }
+    } else if (typeof init.body === "string") {
+      request.body = JSON.parse(init.body);
+    }
+
+    this.requests.push(request);
+    return request;
+  }
+
+  private route(method: string, path: string, handler: RouteHandler): void {
+    // ":name" segments capture one path segment
+    const pattern = new RegExp(`^${path.replace(/:(\w+)/g, "(?<$1>[^/]+)")}/?$`);
+    this.routes.push({ method, pattern, handler });
+  }
+
+  private registerRoutes(): void {
+    const s = this.state;
+
+    // ─── Profile groups & profiles ────────────────────────────────────
+    this.route("GET", "/profile_groups", () => json(200, { data: s.profileGroups }));
+    this.route("POST", "/profile_groups/:groupId/initialize_connection", ({ params, body }) => {
+      if (!s.profileGroups.some((g) => g.id === params.groupId)) {
+        return notFound("Profile group");
+      }
+      return json(200, { url: `https://app.postproxy.test/connect/${body.platform}?group=${params.groupId}` });
+    });
+    this.route("GET", "/profiles", ({ query }) => {
+      const groupId = query.get("profile_group_id");
+      return json(200, { data: s.profiles.filter((p) => !groupId || p.profile_group_id === groupId) });
+    });
+    this.route("GET", "/profiles/:profileId/placements", ({ params }) => {
+      if (!s.profiles.some((p) => p.id === params.profileId)) {
+        return notFound("Profile");
+      }
+      return json(200, { data: s.placements[params.profileId] ?? [] });
+    });
+    this.route("GET", "/profiles/:profileId/stats", ({ params, query }) => {
+      const stats = s.profileStats[params.profileId];
+      if (!stats) {
+        return notFound("Profile");
+      }
+      return json(200, { data: { ...stats, placement_id: query.get("placement_id") ?? stats.placement_id } });
+    });
+
+    // ─── Uploads ──────────────────────────────────────────────────────
+    this.route("POST", "/uploads", () => {
+      const key = this.id("upload");
+      const upload = { key, upload_url: `https://tmpfiles.postproxy.test/${key}`, expires_in: 3600 };
+      this.uploads.push(upload);
+      return json(201, upload);
+    });
+
+    // ─── Posts ────────────────────────────────────────────────────────
+    this.route("GET", "/posts", ({ query }) => json(200, page(s.posts, query)));
+    this.route("GET", "/posts/stats", ({ query }) => {
+      const ids = (query.get("post_ids") ?? "").split(",").filter(Boolean);
+      const data: Record<string, PostStats> = {};
+      for (const id of ids) {
+        data[id] = s.postStats[id] ?? { platforms: [] };
+      }
+      return json(200, { data });
+    });
+    this.route("POST", "/posts", (ctx) => this.createPost(ctx));
+    this.route("GET", "/posts/:postId", ({ params }) => {
+      const post = this.findPost(params.postId);
+      return post ? json(200, post) : notFound("Post");
+    });
+    this.route("PATCH", "/posts/:postId", ({ params, body: jsonBody, fields, files }) => {
+      const body = fields ? multipartUpdate(fields, files) : jsonBody;
+      const post = this.findPost(params.postId);
+      if (!post) {
+        return notFound("Post");
+      }
+      if (post.status !== "draft" && post.status !== "scheduled") {
+        return json(422, { errors: ["Only draft and scheduled posts can be updated"] });
+      }
+      if (body.post?.body !== undefined) post.body = body.post.body;
+      if (body.post?.scheduled_at !== undefined) post.scheduled_at = body.post.scheduled_at;
+      if (body.post?.draft !== undefined) {
+        post.draft = body.post.draft;
+        post.status = body.post.draft ? "draft" : post.scheduled_at ? "scheduled" : "pending";
+      }
+      if (body.profiles) post.platforms = this.outcomes(body.profiles, body.platforms);
+      if (body.media) post.media = this.attachments(body.media);
+      if (body.thread) post.thread = body.thread.map((child: any) => ({ id: this.id("thread"), body: child.body }));
+      if (body.queue_id && body.queue_id !== post.queue_id) {
+        const queue = s.queues.find((q) => q.id === body.queue_id);
+        if (!queue) {
+          return json(422, { errors: ["Queue not found"] });
+        }
+        const previous = s.queues.find((q) => q.id === post.queue_id);
+        if (previous) previous.posts_count--;
+        queue.posts_count++;
+        post.queue_id = queue.id;
+        post.scheduled_at = nextTimeslot(queue, new Date());
+      }
+      post.updated_at = TIMESTAMP;
+      return json(200, post);
+    });
+    this.route("DELETE", "/posts/:postId", ({ params }) => {
+      const index = s.posts.findIndex((p) => p.id === params.postId);
+      if (index === -1) {
+        return notFound("Post");
+      }
+      const queue = s.queues.find((q) => q.id === s.posts[index].queue_id);
+      if (queue) queue.posts_count--;
+      s.posts.splice(index, 1);
+      return new Response(null, { status: 204 });
+    });
+    this.route("POST", "/posts/:postId/publish", ({ params }) => {
+      const post = this.findPost(params.postId);
+      if (!post) {
+        return notFound("Post");
+      }
+      if (post.status !== "draft") {
+        return json(422, { errors: ["Post is not a draft"] });
+      }
+      post.draft = false;
+      post.status = "pending";
+      return json(200, post);
+    });
+    this.route("POST", "/posts/:postId/delete_on_platform", ({ params }) => {
+      const post = this.findPost(params.postId);
+      if (!post) {
+        return notFound("Post");
+      }
+      return json(202, { accepted: true, post_id: post.id });
+    });
+
+    // ─── Post comments ────────────────────────────────────────────────
+    const postComments = (postId: string) => (s.comments[postId] ??= []);
+    const withComment = (handler: (comment: Comment, ctx: RouteContext) => Response): RouteHandler => (ctx) => {
+      if (!ctx.query.get("profile_id")) {
+        return json(400, { status: 400, error: "Bad Request", message: "profile_id is required" });
+      }
+      const comment = postComments(ctx.params.postId).find((c) => c.id === ctx.params.commentId);
+      return comment ? handler(comment, ctx) : notFound("Comment");
+    };
+    this.route("GET", "/posts/:postId/comments", ({ params, query }) => {
+      if (!this.findPost(params.postId)) {
+        return notFound("Post");
+      }
+      return json(200, page(postComments(params.postId), query));
+    });
+    this.route("POST", "/posts/:postId/comments", ({ params, body }) => {
+      if (!this.findPost(params.postId)) {
+        return notFound("Post");
+      }
+      const comment: Comment = {
+        id: this.id("cmt"),
+        external_id: null,
+        body: body.text,
+        status: "pending",
+        author_username: null,
+        author_avatar_url: null,
+        author_external_id: null,
+        parent_external_id: body.parent_id ?? null,
+        like_count: 0,
+        is_hidden: false,
+        permalink: null,
+        platform_data: null,
+        posted_at: null,
+        created_at: TIMESTAMP,
+      };
+      postComments(params.postId).push(comment);
+      return json(201, comment);
+    });
+    this.route("GET", "/posts/:postId/comments/:commentId", withComment((comment) => json(200, comment)));
+    this.route("DELETE", "/posts/:postId/comments/:commentId", withComment((comment, { params }) => {
+      const comments = postComments(params.postId);
+      comments.splice(comments.indexOf(comment), 1);
+      return json(202, { accepted: true });
+    }));
+    this.route("POST", "/posts/:postId/comments/:commentId/:action", withComment((comment, { params, body }) => {
+      switch (params.action) {
+        case "hide":
+        case "unhide":
+          comment.is_hidden = params.action === "hide";
+          return json(202, { accepted: true });
+        case "like":
+        case "unlike":
+          comment.like_count += params.action === "like" ? 1 : -1;
+          return json(202, { accepted: true });
+        case "private_reply": {
+          const chat = this.chatFor(comment.author_external_id ?? "unknown");
+          return json(201, this.addMessage(chat.id, { body: body.text, external_comment_id: comment.external_id }));
+        }
+        default:
+          return notFound("Action");
+      }
+    }));
+
+    // ─── Profile comments (Google Business reviews) ───────────────────
+    const reviews = (profileId: string) => (s.profileComments[profileId] ??= []);
+    this.route("GET", "/profiles/:profileId/comments", ({ params, query }) => {
+      const placementId = query.get("placement_id");
+      const items = reviews(params.profileId).filter((c) => !placementId || c.placement_id === placementId);
+      return json(200, page(items, query));
+    });
+    this.route("GET", "/profiles/:profileId/comments/:commentId", ({ params }) => {
+      const comment = reviews(params.profileId).find((c) => c.id === decodeURIComponent(params.commentId));
+      return comment ? json(200, comment) : notFound("Comment");
+    });
+    this.route("POST", "/profiles/:profileId/comments", ({ params, body }) => {
+      const parent = reviews(params.profileId).find((c) => c.id === body.parent_id || c.external_id === body.parent_id);
+      if (!parent) {
+        return json(422, { errors: ["Parent comment not found"] });
+      }
+      const reply: ProfileComment = {
+        id: this.id("rev"),
+        external_id: null,
+        parent_external_id: parent.external_id,
+        placement_id: parent.placement_id,
+        body: body.text,
+        status: "pending",
+        author_username: null,
+        author_avatar_url: null,
+        platform_data: null,
+        posted_at: null,
+        created_at: TIMESTAMP,
+      };
+      (parent.replies ??= []).push(reply);
+      return json(201, reply);
+    });
+    this.route("DELETE", "/profiles/:profileId/comments/:commentId", ({ params }) => {
+      const comments = reviews(params.profileId);
+      const replies = comments.flatMap((c) => c.replies ?? []);
+      const target = [...comments, ...replies].find((c) => c.id === decodeURIComponent(params.commentId));
+      if (!target) {
+        return notFound("Comment");
+      }
+      for (const comment of comments) {
+        comment.replies = comment.replies?.filter((r) => r !== target);
+      }
+      return json(202, { accepted: true });
+    });
+
+    // ─── Queues ───────────────────────────────────────────────────────
+    const findQueue = (queueId: string) => s.queues.find((q) => q.id === queueId);
+    let nextTimeslotId = 100;
+    const applyTimeslots = (queue: PostQueue, attributes: any[] | undefined) => {
+      for (const attr of attributes ?? []) {
+        if (attr._destroy) {
+          queue.timeslots = queue.timeslots.filter((t) => t.id !== attr.id);
+        } else {
+          queue.timeslots.push({ id: nextTimeslotId++, day: attr.day, time: attr.time });
+        }
+      }
+    };
+    this.route("GET", "/post_queues", ({ query }) => {
+      const groupId = query.get("profile_group_id");
+      return json(200, { data: s.queues.filter((q) => !groupId || q.profile_group_id === groupId) });
+    });
+    this.route("POST", "/post_queues", ({ body }) => {
+      if (!body.post_queue?.name) {
+        return json(422, { errors: ["Name can't be blank"] });
+      }
+      if (!s.profileGroups.some((g) => g.id === body.profile_group_id)) {
+        return notFound("Profile group");
+      }
+      const queue: PostQueue = {
+        id: this.id("queue"),
+        name: body.post_queue.name,
+        description: body.post_queue.description ?? null,
+        timezone: body.post_queue.timezone ?? "UTC",
+        enabled: true,
+        jitter: body.post_queue.jitter ?? 0,
+        profile_group_id: body.profile_group_id,
+        timeslots: [],
+        posts_count: 0,
+      };
+      applyTimeslots(queue, body.post_queue.queue_timeslots_attributes);
+      s.queues.push(queue);
+      return json(201, queue);
+    });
+    this.route("GET", "/post_queues/:queueId", ({ params }) => {
+      const queue = findQueue(params.queueId);
+      return queue ? json(200, queue) : notFound("Queue");
+    });
+    this.route("PATCH", "/post_queues/:queueId", ({ params, body }) => {
+      const queue = findQueue(params.queueId);
+      if (!queue) {
+        return notFound("Queue");
+      }
+      const { queue_timeslots_attributes, ...fields } = body.post_queue ?? {};
+      Object.assign(queue, fields);
+      applyTimeslots(queue, queue_timeslots_attributes);
+      return json(200, queue);
+    });
+    this.route("DELETE", "/post_queues/:queueId", ({ params }) => {
+      const queue = findQueue(params.queueId);
+      if (!queue) {
+        return notFound("Queue");
+      }
+      s.queues.splice(s.queues.indexOf(queue), 1);
+      return new Response(null, { status: 204 });
+    });
+    this.route("GET", "/post_queues/:queueId/next_slot", ({ params }) => {
+      const queue = findQueue(params.queueId);
+      if (!queue) {
+        return notFound("Queue");
+      }
+      const nextSlot = nextTimeslot(queue, new Date());
+      return nextSlot
+        ? json(200, { next_slot: nextSlot })
+        : json(422, { errors: ["Queue has no timeslots"] });
+    });
+
+    // ─── Chats & messages ─────────────────────────────────────────────
+    const findChat = (chatId: string) => s.chats.find((c) => c.id === decodeURIComponent(chatId));
+    const findMessage = (messageId: string) => s.messages.find((m) => m.id === decodeURIComponent(messageId));
+    this.route("GET", "/profiles/:profileId/chats", ({ params, query }) =>
+      json(200, page(s.chats.filter((c) => c.profile_id === params.profileId), query))
+    );
+    this.route("POST", "/profiles/:profileId/chats", ({ params, body }) => {
+      const profile = s.profiles.find((p) => p.id === params.profileId);
+      if (!profile) {
+        return notFound("Profile");
+      }
+      return json(201, this.chatFor(body.participant_external_id, profile, body));
+    });
+    this.route("GET", "/chats/:chatId", ({ params }) => {
+      const chat = findChat(params.chatId);
+      return chat ? json(200, chat) : notFound("Chat");
+    });
+    this.route("POST", "/chats/:chatId/archive", ({ params }) => {
+      const chat = findChat(params.chatId);
+      return chat ? json(200, Object.assign(chat, { archived: true })) : notFound("Chat");
+    });
+    this.route("DELETE", "/chats/:chatId/archive", ({ params }) => {
+      const chat = findChat(params.chatId);
+      return chat ? json(200, Object.assign(chat, { archived: false })) : notFound("Chat");
+    });
+    this.route("GET", "/chats/:chatId/messages", ({ params, query }) => {
+      const chat = findChat(params.chatId);
+      if (!chat) {
+        return notFound("Chat");
+      }
+      const direction = query.get("direction");
+      const status = query.get("status");
+      const items = s.messages.filter(
+        (m) => m.chat_id === chat.id && (!direction || m.direction === direction) && (!status || m.status === status)
+      );
+      return json(200, page(items, query));
+    });
+    this.route("POST", "/chats/:chatId/messages", ({ params, body, fields, files }) => {
+      const chat = findChat(params.chatId);
+      if (!chat) {
+        return notFound("Chat");
+      }
+      const payload = fields ? { body: fields.body as string | undefined, tag: fields.tag as string | undefined } : body;
+      const media: string[] = fields ? ((fields["media[]"] as string[] | undefined) ?? []) : (body.media ?? []);
+      const attachments = [...media, ...(files ?? []).map((f) => f.name)].map((source) => ({
+        id: this.id("att"),
+        type: "image" as const,
+        url: source.startsWith("http") ? source : null,
+        status: "pending" as const,
+      }));
+      if (!payload.body && attachments.length === 0) {
+        return json(422, { errors: ["Message must have a body or media"] });
+      }
+      return json(201, this.addMessage(chat.id, { ...payload, attachments }));
+    });
+    this.route("GET", "/messages/:messageId", ({ params }) => {
+      const message = findMessage(params.messageId);
+      return message ? json(200, message) : notFound("Message");
+    });
+    this.route("PATCH", "/messages/:messageId", ({ params, body }) => {
+      const message = findMessage(params.messageId);
+      if (!message) {
+        return notFound("Message");
+      }
+      if (message.direction !== "outbound") {
+        return json(422, { errors: ["Only outbound messages can be edited"] });
+      }
+      if (body.body !== undefined) message.body = body.body;
+      if (body.reply_markup !== undefined) message.reply_markup = body.reply_markup;
+      message.external_edited_at = TIMESTAMP;
+      return json(200, message);
+    });
+    this.route("POST", "/messages/:messageId/react", ({ params, body }) => {
+      const message = findMessage(params.messageId);
+      if (!message) {
+        return notFound("Message");
+      }
+      message.reactions = [
+        { sender_external_id: "me", emoji: body.emoji ?? "❤️", reaction: body.reaction ?? "love", at: TIMESTAMP },
+      ];
+      return json(200, message);
+    });
+    this.route("DELETE", "/messages/:messageId/unreact", ({ params }) => {
+      const message = findMessage(params.messageId);
+      return message ? json(200, Object.assign(message, { reactions: [] })) : notFound("Message");
+    });
+  }
+
+  /**
+   * POST /posts, as JSON or multipart. Repeated Idempotency-Keys return the first post.
+   */
+  private createPost({ headers, body, fields, files }: RouteContext): Response {
+    const idempotencyKey = headers.get("idempotency-key");
+    if (idempotencyKey && this.idempotentPosts.has(idempotencyKey)) {
+      return json(200, this.idempotentPosts.get(idempotencyKey));
+    }
+
+    const input = fields
+      ? {
+          body: fields["post[body]"] as string,
+          scheduled_at: fields["post[scheduled_at]"] as string | undefined,
+          draft: fields["post[draft]"] === "true",
+          profiles: (fields["profiles[]"] as string[] | undefined) ?? [],
+          media: [...((fields["media[]"] as string[] | undefined) ?? []), ...filesIn(files, "media[]")],
+          platforms: typeof fields.platforms === "string" ? JSON.parse(fields.platforms) : undefined,
+          thread: typeof fields.thread === "string" ? JSON.parse(fields.thread) : bracketThread(fields, files),
+          queue_id: fields.queue_id as string | undefined,
+        }
+      : {
+          body: body.post?.body,
+          scheduled_at: body.post?.scheduled_at,
+          draft: body.post?.draft === true,
+          profiles: body.profiles ?? [],
+          media: body.media ?? [],
+          platforms: body.platforms,
+          thread: body.thread,
+          queue_id: body.queue_id,
+        };
+
+    const errors: string[] = [];
+    if (!input.body) errors.push("Body can't be blank");
+    if (input.profiles.length === 0) errors.push("Profiles can't be blank");
+    const unknown = input.profiles.filter(
+      (p: string) => !this.state.profiles.some((profile) => profile.id === p || profile.platform === p)
+    );
+    if (unknown.length > 0) errors.push(`Unknown profiles: ${unknown.join(", ")}`);
+    if (errors.length > 0) {
+      return json(422, { errors });
+    }
+
+    let scheduledAt = input.scheduled_at ?? null;
+    if (input.queue_id) {
+      const queue = this.state.queues.find((q) => q.id === input.queue_id);
+      if (!queue) {
+        return json(422, { errors: ["Queue not found"] });
+      }
+      queue.posts_count++;
+      scheduledAt = nextTimeslot(queue, new Date());
+    }
+
+    const post: PostDetails = {
+      id: this.id("post"),
+      body: input.body,
+      status: input.draft ? "draft" : scheduledAt ? "scheduled" : "processed",
+      draft: input.draft,
+      scheduled_at: scheduledAt,
+      created_at: TIMESTAMP,
+      ...(input.queue_id && { queue_id: input.queue_id }),
+      media: this.attachments(input.media),
+      platforms: this.outcomes(input.profiles, input.platforms),
+    };
+    if (input.thread) {
+      post.thread = input.thread.map((child: any) => ({ id: this.id("thread"), body: child.body }));
+    }
+    this.state.posts.unshift(post);
+    if (idempotencyKey) {
+      this.idempotentPosts.set(idempotencyKey, post);
+    }
+    return json(201, post);
+  }
+
+  /**
+   * Media attachments for sources sent as URLs or uploaded file names
+   */
+  private attachments(sources: string[]): MediaAttachment[] {
+    return sources.map((source) => ({
+      id: this.id("media"),
+      status: "pending" as const,
+      error_message: null,
+      content_type: "image/jpeg",
+      source_url: source.startsWith("http") ? source : null,
+      url: null,
+    }));
+  }
+
+  private outcomes(profiles: string[], platformParams: Record<string, any> = {}): PlatformOutcome[] {
+    return profiles.map((ref) => {
+      const profile = this.state.profiles.find((p) => p.id === ref || p.platform === ref);
+      const platform = profile?.platform ?? ref;
+      return {
+        platform,
+        ...(profile && { profile_id: profile.id }),
+        status: "pending",
+        params: platformParams[platform] ?? {},
+        attempted_at: null,
+        error: null,
+        error_details: null,
+      };
+    });
+  }
+
+  /**
+   * The chat with a participant on the profile, created if it doesn't exist yet
+   */
+  private chatFor(
+    participantExternalId: string,
+    profile: Profile = this.state.profiles.find((p) => p.platform === "instagram")!,
+    details: { participant_username?: string; participant_name?: string } = {}
+  ): Chat {
+    const existing = this.state.chats.find(
+      (c) => c.profile_id === profile.id && c.participant_external_id === participantExternalId
+    );
+    if (existing) {
+      return existing;
+    }
+    const chat: Chat = {
+      id: this.id("chat"),
+      profile_id: profile.id,
+      platform: profile.platform,
+      participant_external_id: participantExternalId,
+      participant_username: details.participant_username ?? null,
+      participant_name: details.participant_name ?? null,
+      participant_avatar_url: null,
+      external_conversation_id: null,
+      last_inbound_at: null,
+      last_outbound_at: null,
+      last_message_at: null,
+      metadata: null,
+      created_at: TIMESTAMP,
+    };
+    this.state.chats.push(chat);
+    return chat;
+  }
+
+  private addMessage(chatId: string, fields: Partial<DirectMessage>): DirectMessage {
+    const message: DirectMessage = {
+      id: this.id("msg"),
+      chat_id: chatId,
+      external_id: null,
+      direction: "outbound",
+      body: "",
+      status: "pending",
+      tag: null,
+      error_message: null,
+      platform_data: null,
+      external_posted_at: null,
+      reactions: [],
+      attachments: [],
+      created_at: TIMESTAMP,
+      ...fields,
+    };
+    this.state.messages.push(message);
+    const chat = this.state.chats.find((c) => c.id === chatId)!;
+    chat.last_outbound_at = chat.last_message_at = TIMESTAMP;
+    return message;
+  }
+}
+
+function matches(matcher: RequestMatcher, request: RecordedRequest): boolean {
+  if (matcher.method && matcher.method !== request.method) {
+    return false;
+  }
+  return typeof matcher.path === "string" ? matcher.path === request.path : matcher.path.test(request.path);
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", "x-request-id": `req-${status}`, ...headers },
+  });
+}
+
+/**
+ * Names of the files uploaded under one multipart field
+ */
+function filesIn(files: RecordedRequest["files"], field: string): string[] {
+  return (files ?? []).filter((f) => f.field === field).map((f) => f.name);
+}
+
+/**
+ * Thread children sent in bracket notation: thread[<i>][body] and thread[<i>][media][]
+ */
+function bracketThread(fields: Record<string, string | string[]>, files: RecordedRequest["files"]) {
+  const thread: Array<{ body: string; media: string[] }> = [];
+  for (let i = 0; typeof fields[`thread[${i}][body]`] === "string"; i++) {
+    const media = `thread[${i}][media][]`;
+    thread.push({
+      body: fields[`thread[${i}][body]`] as string,
+      media: [...((fields[media] as string[] | undefined) ?? []), ...filesIn(files, media)],
+    });
+  }
+  return thread.length > 0 ? thread : undefined;
+}
+
+/**
+ * A multipart PATCH /posts/:id in the shape of its JSON equivalent, with only the fields sent
+ */
+function multipartUpdate(fields: Record<string, string | string[]>, files: RecordedRequest["files"]) {
+  const field = (name: string) => fields[name] as string | undefined;
+  return {
+    post: {
+      body: field("post[body]"),
+      scheduled_at: field("post[scheduled_at]"),
+      draft: field("post[draft]") === undefined ? undefined : field("post[draft]") === "true",
+    },
+    profiles: fields["profiles[]"] as string[] | undefined,
+    media: typeof fields.media === "string"
+      ? JSON.parse(fields.media)
+      : fields["media[]"] || filesIn(files, "media[]").length > 0
+        ? [...((fields["media[]"] as string[] | undefined) ?? []), ...filesIn(files, "media[]")]
+        : undefined,
+    thread: typeof fields.thread === "string" ? JSON.parse(fields.thread) : bracketThread(fields, files),
+    queue_id: field("queue_id"),
+  };
+}
+
+function notFound(resource: string): Response {
+  return json(404, { error: "Not Found", message: `${resource} not found` });
+}
+
+/**
+ * Page envelope for a list endpoint; pages are zero-indexed like the real API
+ */
+function page<T>(items: T[], query: URLSearchParams, defaultPerPage: number = 20) {
+  const perPage = Number(query.get("per_page") ?? defaultPerPage);
+  const pageIndex = Number(query.get("page") ?? 0);
+  return {
+    total: items.length,
+    page: pageIndex,
+    per_page: perPage,
+    data: items.slice(pageIndex * perPage, (pageIndex + 1) * perPage),
+  };
+}
+
+/**
+ * The queue's next timeslot after `from`, treating timeslot times as UTC
+ */
+function nextTimeslot(queue: PostQueue, from: Date): string | null {
+  if (queue.timeslots.length === 0) {
+    return null;
+  }
+  const candidates = queue.timeslots.map((slot) => {
+    const [hours, minutes] = slot.time.split(":").map(Number);
+    const date = new Date(from);
+    date.setUTCHours(hours, minutes, 0, 0);
+    date.setUTCDate(date.getUTCDate() + ((slot.day - date.getUTCDay() + 7) % 7));
+    if (date <= from) {
+      date.setUTCDate(date.getUTCDate() + 7);
+    }
+    return date;
+  });
+  return new Date(Math.min(...candidates.map((d) => d.getTime()))).toISOString();
+}
@@ -0,0 +1,68 @@
+/**
+ * End-to-end harness: a real MCP client talking to createMCPServer over an
+ * in-memory transport, with PostProxyClient pointed at FakePostProxyApi.
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { PostProxyClient } from "../src/api/client.js";
+import type { ClientRuntime } from "../src/api/runtime.js";
+import { createMCPServer, type MCPServerOptions } from "../src/server.js";
+import { FakePostProxyApi, type FakeFixtures } from "./fake-api.js";
+
+export interface HarnessOptions {
+  fixtures?: Partial<FakeFixtures>;
+  apiKey?: string; // Key the client sends; defaults to the one the fake accepts
+  runtime?: ClientRuntime; // Overrides for the client runtime (retry, rate limit, cache)
+  server?: MCPServerOptions;
+}
+
+export interface ToolCallResult {
+  isError: boolean;
+  structuredContent?: Record<string, any>;
+  text: string;
+  error?: Record<string, any>; // Parsed `error` body of an isError result
+}
+
+export interface Harness {
+  api: FakePostProxyApi;
+  mcp: Client;
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolCallResult>;
+  close(): Promise<void>;
+}
+
+export async function createHarness(options: HarnessOptions = {}): Promise<Harness> {
+  const api = new FakePostProxyApi(options.fixtures);
+  const client = new PostProxyClient(options.apiKey ?? api.apiKey, api.baseUrl, {
+    fetch: api.fetch,
+    files: api.fileAccess,
+    // Keep retries fast and never let the limiter slow a test down
+    retry: { baseDelayMs: 1, maxDelayMs: 5 },
+    rateLimit: { requestsPerSecond: 1000, maxConcurrency: 16 },
+    ...options.runtime,
+  });
+
+  const server = await createMCPServer(client, { postPollIntervalMs: 10, ...options.server });
+  const mcp = new Client({ name: "postproxy-mcp-tests", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), mcp.connect(clientTransport)]);
+
+  return {
+    api,
+    mcp,
+    async callTool(name, args = {}) {
+      const result = await mcp.callTool({ name, arguments: args });
+      const text = (result.content as Array<{ type: string; text: string }>)[0]?.text ?? "";
+      return {
+        isError: result.isError === true,
+        structuredContent: result.structuredContent as Record<string, any> | undefined,
+        text,
+        error: result.isError ? JSON.parse(text).error : undefined,
+      };
+    },
+    async close() {
+      await mcp.close();
+      await server.close();
+    },
+  };
+}
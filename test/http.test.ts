@@ -0,0 +1,165 @@
+/**
+ * Streamable HTTP mode: sessions, bearer API keys and the health endpoint
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { PostProxyClient } from "../src/api/client.js";
+import { startHttpServer, type RunningHttpServer } from "../src/http-server.js";
+import { FakePostProxyApi, FAKE_API_KEY } from "./fake-api.js";
+
+let server: RunningHttpServer;
+let baseUrl: string;
+const api = new FakePostProxyApi({ files: { "/etc/photo.jpg": new Uint8Array([0xff, 0xd8, 0xff, 0xe0]) } });
+const clientKeys: string[] = [];
+
+before(async () => {
+  server = await startHttpServer({
+    port: 0,
+    host: "127.0.0.1",
+    defaultApiKey: null,
+    createClient: (apiKey, files) => {
+      clientKeys.push(apiKey);
+      return new PostProxyClient(apiKey, api.baseUrl, { fetch: api.fetch, files });
+    },
+  });
+  baseUrl = `http://127.0.0.1:${server.port}`;
+});
+
+after(async () => {
+  await server.close();
+});
+
+async function connect(apiKey: string, url = baseUrl): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const transport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+    requestInit: { headers: { Authorization: `Bearer ${apiKey}` } },
+  });
+  const client = new Client({ name: "http-test", version: "0.0.0" });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+async function health(): Promise<any> {
+  return (await fetch(`${baseUrl}/health`)).json();
+}
+
+describe("HTTP transport", () => {
+  test("health endpoint reports status without auth", async () => {
+    const body = await health();
+    assert.equal(body.status, "ok");
+    assert.equal(body.transport, "streamable-http");
+    assert.equal(body.sessions, 0);
+  });
+
+  test("requests without an API key get 401 with WWW-Authenticate", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get("www-authenticate") ?? "", /^Bearer/);
+  });
+
+  test("a session lists and calls tools with the caller's key", async () => {
+    const { client, transport } = await connect(FAKE_API_KEY);
+    assert.ok(transport.sessionId);
+    assert.equal((await health()).sessions, 1);
+
+    const { tools } = await client.listTools();
+    assert.ok(tools.some((t) => t.name === "post_publish"));
+
+    const result = await client.callTool({ name: "profiles_placements", arguments: { profile_id: "prof_li" } });
+    assert.equal(result.isError, undefined);
+    assert.equal((result.structuredContent as any).placements.length, 2);
+    assert.equal(api.requests.at(-1)?.headers.get("authorization"), `Bearer ${FAKE_API_KEY}`);
+
+    await transport.terminateSession();
+    await client.close();
+    assert.equal((await health()).sessions, 0);
+  });
+
+  test("each session uses its own key; sessions with the same key share a client", async () => {
+    const first = await connect(FAKE_API_KEY);
+    const second = await connect(FAKE_API_KEY);
+    const other = await connect("someone-elses-key");
+    assert.equal(clientKeys.filter((k) => k === FAKE_API_KEY).length, 2, "one client for the earlier session, one shared by these two");
+
+    const denied = await other.client.callTool({ name: "profiles_placements", arguments: { profile_id: "prof_li" } });
+    assert.equal(denied.isError, true);
+    assert.match((denied.content as any)[0].text, /AUTH_INVALID/);
+
+    for (const { client, transport } of [first, second, other]) {
+      await transport.terminateSession();
+      await client.close();
+    }
+  });
+
+  test("a session can't be used with a different key", async () => {
+    const { client, transport } = await connect(FAKE_API_KEY);
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        Authorization: "Bearer another-key",
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": transport.sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    assert.equal(response.status, 403);
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  test("unknown sessions and non-initialize requests without a session are rejected", async () => {
+    const post = (headers: Record<string, string>) =>
+      fetch(`${baseUrl}/mcp`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${FAKE_API_KEY}`,
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+      });
+    assert.equal((await post({ "Mcp-Session-Id": "no-such-session" })).status, 404);
+    assert.equal((await post({})).status, 400);
+  });
+
+  test("local file paths are rejected unless the operator allows them", async () => {
+    const { client, transport } = await connect(FAKE_API_KEY);
+    const posted = await client.callTool({
+      name: "post_publish",
+      arguments: { content: "Hi", profiles: ["twitter"], media: ["/etc/photo.jpg"] },
+    });
+    assert.equal(posted.isError, true);
+    assert.match((posted.content as any)[0].text, /Local file paths are not supported in this environment: \/etc\/photo\.jpg/);
+    const inspected = await client.callTool({ name: "media_inspect", arguments: { profiles: ["twitter"], media: ["/etc/photo.jpg"] } });
+    assert.equal(inspected.isError, true);
+    assert.equal(api.requestsTo("/posts", "POST").length, 0);
+    await transport.terminateSession();
+    await client.close();
+
+    const allowing = await startHttpServer({
+      port: 0,
+      host: "127.0.0.1",
+      defaultApiKey: null,
+      localFiles: api.fileAccess,
+      createClient: (apiKey, files) => new PostProxyClient(apiKey, api.baseUrl, { fetch: api.fetch, files }),
+    });
+    const local = await connect(FAKE_API_KEY, `http://127.0.0.1:${allowing.port}`);
+    const uploaded = await local.client.callTool({
+      name: "post_publish",
+      arguments: { content: "Hi", profiles: ["twitter"], media: ["/etc/photo.jpg"] },
+    });
+    assert.equal(uploaded.isError, undefined);
+    assert.equal(api.requestsTo("/posts", "POST")[0].files?.[0].name, "photo.jpg");
+    await local.client.close();
+    await allowing.close();
+  });
+});
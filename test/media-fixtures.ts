@@ -0,0 +1,122 @@
+/**
+ * Minimal media files for tests: just the headers and boxes the media probe reads
+ */
+
+function bytes(...parts: Array<number[] | Uint8Array | string>): Uint8Array {
+  const arrays = parts.map((part) =>
+    typeof part === "string" ? new TextEncoder().encode(part) : Uint8Array.from(part)
+  );
+  const out = new Uint8Array(arrays.reduce((n, a) => n + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    out.set(a, offset);
+    offset += a.length;
+  }
+  return out;
+}
+
+const u16 = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const le16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const le24 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff];
+
+/**
+ * JPEG with an optional EXIF orientation, padded to `size` bytes
+ */
+export function jpeg(width: number, height: number, options: { orientation?: number; size?: number } = {}): Uint8Array {
+  const exif = options.orientation
+    ? bytes([0xff, 0xe1], u16(2 + 6 + 8 + 2 + 12), "Exif\0\0", "MM", u16(42), u32(8), u16(1), u16(0x0112), u16(3), u32(1), u16(options.orientation), u16(0))
+    : bytes();
+  const sof = bytes([0xff, 0xc0], u16(17), [8], u16(height), u16(width), [3], new Array(9).fill(0));
+  return pad(bytes([0xff, 0xd8], exif, sof, [0xff, 0xd9]), options.size);
+}
+
+export function png(width: number, height: number): Uint8Array {
+  return bytes([0x89], "PNG\r\n\x1a\n", u32(13), "IHDR", u32(width), u32(height), [8, 6, 0, 0, 0]);
+}
+
+export function gif(width: number, height: number): Uint8Array {
+  return bytes("GIF89a", le16(width), le16(height), [0, 0, 0]);
+}
+
+export function webp(width: number, height: number, options: { animated?: boolean } = {}): Uint8Array {
+  return bytes("RIFF", [0, 0, 0, 0], "WEBPVP8X", [10, 0, 0, 0], [options.animated ? 0x02 : 0, 0, 0, 0], le24(width - 1), le24(height - 1));
+}
+
+/**
+ * Matroska EBML header with the given DocType ("matroska" or "webm")
+ */
+export function mkv(docType = "matroska"): Uint8Array {
+  return bytes([0x1a, 0x45, 0xdf, 0xa3, 0x80 | (7 + docType.length)], [0x42, 0x82, 0x80 | docType.length], docType, [0x42, 0x87, 0x81, 4]);
+}
+
+function box(type: string, ...contents: Array<number[] | Uint8Array | string>): Uint8Array {
+  const body = bytes(...contents);
+  return bytes(u32(body.length + 8), type, body);
+}
+
+/**
+ * HEIF image (HEIC or AVIF, by brand) with a primary image and a thumbnail, optionally rotated 90 degrees
+ */
+export function heif(width: number, height: number, options: { brand?: string; compatible?: string; rotate?: boolean } = {}): Uint8Array {
+  const ispe = (w: number, h: number) => box("ispe", [0, 0, 0, 0], u32(w), u32(h));
+  return bytes(
+    box("ftyp", options.brand ?? "heic", u32(0), "mif1", options.compatible ?? "heic"),
+    box(
+      "meta",
+      [0, 0, 0, 0],
+      box("hdlr", [0, 0, 0, 0], u32(0), "pict", new Array(13).fill(0)),
+      box("iprp", box("ipco", ispe(320, 240), ispe(width, height), options.rotate ? box("irot", [1]) : bytes()))
+    ),
+    box("mdat", new Array(16).fill(0))
+  );
+}
+
+/**
+ * MP4 (or MOV, with brand "qt  ") with one video track and, optionally, an audio track
+ */
+export function mp4(options: {
+  width: number;
+  height: number;
+  duration: number; // Seconds
+  codec?: string;
+  audio?: boolean;
+  rotate?: boolean; // 90 degree rotation matrix, as phones record portrait video
+  brand?: string;
+  mdat?: number; // Bytes of sample data
+  moovLast?: boolean; // moov after mdat, as files are written without faststart
+}): Uint8Array {
+  const timescale = 1000;
+  const mvhd = box("mvhd", [0, 0, 0, 0], u32(0), u32(0), u32(timescale), u32(options.duration * timescale), new Array(80).fill(0));
+  const matrix = options.rotate
+    ? [...u32(0), ...u32(0x10000), ...u32(0), ...u32(-0x10000 >>> 0), ...u32(0), ...u32(0), ...u32(0), ...u32(0), ...u32(0x40000000)]
+    : [...u32(0x10000), ...u32(0), ...u32(0), ...u32(0), ...u32(0x10000), ...u32(0), ...u32(0), ...u32(0), ...u32(0x40000000)];
+  const track = (handler: string, codec: string, width = 0, height = 0) =>
+    box(
+      "trak",
+      box("tkhd", [0, 0, 0, 3], new Array(32).fill(0), new Array(4).fill(0), matrix, u32(width * 0x10000), u32(height * 0x10000)),
+      box(
+        "mdia",
+        box("hdlr", [0, 0, 0, 0], u32(0), handler, new Array(13).fill(0)),
+        box("minf", box("stbl", box("stsd", [0, 0, 0, 0], u32(1), u32(16), codec, new Array(8).fill(0))))
+      )
+    );
+  const moov = box(
+    "moov",
+    mvhd,
+    track("vide", options.codec ?? "avc1", options.width, options.height),
+    options.audio ? track("soun", "mp4a") : bytes()
+  );
+  const mdat = box("mdat", new Uint8Array(options.mdat ?? 16));
+  const ftyp = box("ftyp", options.brand ?? "isom", u32(0x200), "isommp41");
+  return options.moovLast ? bytes(ftyp, mdat, moov) : bytes(ftyp, moov, mdat);
+}
+
+function pad(data: Uint8Array, size?: number): Uint8Array {
+  if (!size || size <= data.length) {
+    return data;
+  }
+  const out = new Uint8Array(size);
+  out.set(data);
+  return out;
+}
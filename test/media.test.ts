@@ -0,0 +1,161 @@
+/**
+ * Local media preflight: header probing and per-platform media rules
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { inMemoryFile } from "../src/api/multipart.js";
+import { probeMedia, readMediaHeaders, resolveMimeType } from "../src/utils/media-probe.js";
+import { lintMediaForPlatform, mediaFormatFor, type MediaItem } from "../src/utils/media-rules.js";
+import { gif, heif, jpeg, mkv, mp4, png, webp } from "./media-fixtures.js";
+
+function item(data: Uint8Array, size_bytes = data.length): MediaItem {
+  return { part: "media[0]", path: "/tmp/file", size_bytes, info: probeMedia(data) };
+}
+
+test("image headers give the type and displayed size", () => {
+  assert.deepEqual(probeMedia(jpeg(1080, 1350)), { type: "image", format: "jpeg", mime_type: "image/jpeg", width: 1080, height: 1350 });
+  assert.deepEqual(probeMedia(png(640, 480)), { type: "image", format: "png", mime_type: "image/png", width: 640, height: 480 });
+  assert.equal(probeMedia(gif(320, 200)).width, 320);
+  assert.deepEqual([probeMedia(webp(2000, 1000)).width, probeMedia(webp(2000, 1000)).height], [2000, 1000]);
+
+  // A phone photo stored landscape with orientation 6 is displayed portrait
+  const rotated = probeMedia(jpeg(4032, 3024, { orientation: 6 }));
+  assert.deepEqual([rotated.width, rotated.height], [3024, 4032]);
+});
+
+test("MP4 and MOV boxes give duration, size and codecs", () => {
+  assert.deepEqual(probeMedia(mp4({ width: 1920, height: 1080, duration: 12.5, audio: true })), {
+    type: "video",
+    format: "mp4",
+    mime_type: "video/mp4",
+    duration_seconds: 12.5,
+    video_codec: "avc1",
+    width: 1920,
+    height: 1080,
+    audio_codec: "mp4a",
+  });
+  const portrait = probeMedia(mp4({ width: 1920, height: 1080, duration: 30, rotate: true, codec: "hvc1", brand: "qt  " }));
+  assert.deepEqual([portrait.format, portrait.width, portrait.height, portrait.video_codec], ["mov", 1080, 1920, "hvc1"]);
+});
+
+test("newer image formats, containers and documents are identified by their magic bytes", () => {
+  assert.deepEqual(probeMedia(heif(4032, 3024, { rotate: true })), { type: "image", format: "heic", mime_type: "image/heic", width: 3024, height: 4032 });
+  assert.equal(probeMedia(heif(800, 600, { brand: "mif1", compatible: "avif" })).format, "avif");
+  assert.equal(probeMedia(heif(800, 600, { brand: "mif1", compatible: "miaf" })).format, "heif");
+  assert.deepEqual(probeMedia(webp(480, 270, { animated: true })).animated, true);
+  assert.equal(probeMedia(webp(480, 270)).animated, undefined);
+
+  const m4v = probeMedia(mp4({ width: 1280, height: 720, duration: 8, brand: "M4V " }));
+  assert.deepEqual([m4v.format, m4v.mime_type, m4v.width], ["m4v", "video/x-m4v", 1280]);
+  assert.deepEqual(probeMedia(mkv()), { type: "video", format: "mkv", mime_type: "video/x-matroska" });
+  assert.equal(probeMedia(mkv("webm")).format, "webm");
+
+  const text = (value: string) => new TextEncoder().encode(value);
+  assert.deepEqual(probeMedia(text("%PDF-1.7\n")), { type: "document", format: "pdf", mime_type: "application/pdf" });
+  assert.deepEqual(probeMedia(text("\uFEFF1\r\n00:00:01,000 --> 00:00:03,500\r\nHello\r\n")), {
+    type: "captions",
+    format: "srt",
+    mime_type: "application/x-subrip",
+  });
+});
+
+test("MIME types come from the contents, then the extension", () => {
+  assert.equal(resolveMimeType("/tmp/clip", probeMedia(mp4({ width: 1, height: 1, duration: 1 }))), "video/mp4");
+  assert.equal(resolveMimeType("/tmp/clip.MOV", probeMedia(mp4({ width: 1, height: 1, duration: 1 }))), "video/mp4");
+  assert.equal(resolveMimeType("/tmp/photo.heif", probeMedia(heif(10, 10))), "image/heic");
+  assert.equal(resolveMimeType("/tmp/notes.srt", { type: "unknown" }), "application/x-subrip");
+  assert.equal(resolveMimeType("/tmp/archive.zip", { type: "unknown" }), "application/octet-stream");
+
+  assert.throws(
+    () => resolveMimeType("/tmp/photo.jpg", probeMedia(png(10, 10))),
+    (error: any) =>
+      error.code === "VALIDATION_ERROR" &&
+      error.message === "File contents don't match the extension: /tmp/photo.jpg is named .jpg but contains png (image/png) data. Rename or convert the file." &&
+      error.details.detected_mime_type === "image/png"
+  );
+});
+
+test("only the headers of large files are read", async () => {
+  const reads: number[] = [];
+  const read = (data: Uint8Array) => {
+    const file = inMemoryFile({ name: "clip.mp4", data });
+    return readMediaHeaders({ size: file.size, read: (start, end) => (reads.push(end - start), file.read(start, end)) });
+  };
+  const clip = mp4({ width: 1080, height: 1920, duration: 20, mdat: 3 * 1024 * 1024, moovLast: true });
+  const info = probeMedia(await read(clip));
+  assert.deepEqual([info.width, info.height, info.duration_seconds], [1080, 1920, 20]);
+  assert.ok(reads.reduce((n, r) => n + r, 0) < 2 * 1024 * 1024);
+
+  const photo = jpeg(1080, 1350, { size: 3 * 1024 * 1024 });
+  assert.equal((await read(photo)).length, 1024 * 1024);
+
+  // HEIF properties are in the meta box
+  assert.equal(probeMedia(await read(heif(1200, 800))).width, 1200);
+});
+
+test("unrecognized and truncated files don't throw", () => {
+  assert.deepEqual(probeMedia(new TextEncoder().encode("PK\x03\x04")), { type: "unknown" });
+  assert.deepEqual(probeMedia(new Uint8Array([0xff, 0xd8, 0xff, 0xe0])), { type: "image", format: "jpeg", mime_type: "image/jpeg" });
+  assert.equal(probeMedia(mp4({ width: 1080, height: 1920, duration: 5 }).subarray(0, 40)).type, "video");
+});
+
+test("the format comes from platform parameters or the media", () => {
+  const vertical = probeMedia(mp4({ width: 1080, height: 1920, duration: 45 }));
+  assert.equal(mediaFormatFor("instagram", { format: "reel" }, vertical), "reel");
+  assert.equal(mediaFormatFor("instagram", undefined, vertical), "post");
+  assert.equal(mediaFormatFor("youtube", {}, vertical), "short");
+  assert.equal(mediaFormatFor("youtube", {}, probeMedia(mp4({ width: 1920, height: 1080, duration: 45 }))), "video");
+  assert.equal(mediaFormatFor("tiktok", {}, probeMedia(jpeg(1080, 1920))), "image");
+  assert.equal(mediaFormatFor("pinterest", {}, vertical), "pin");
+  assert.equal(mediaFormatFor("myspace", {}, vertical), undefined);
+});
+
+test("violations name the platform format, part and limit", () => {
+  const landscape = item(mp4({ width: 1920, height: 1080, duration: 95, codec: "vp09" }));
+  assert.deepEqual(lintMediaForPlatform("facebook", "reel", landscape)!.map((v) => [v.rule, v.limit, v.actual]), [
+    ["aspect_ratio", "0.55-0.57", 1.78],
+    ["max_duration", 90, 95],
+    ["codec", "avc1, avc3, hvc1, hev1", "vp09"],
+  ]);
+
+  const [wide] = lintMediaForPlatform("instagram", "post", item(jpeg(1200, 500)))!;
+  assert.equal(wide.message, "Instagram post media[0]: aspect ratio 2.4 (1200x500) is outside 0.8-1.91 (width / height)");
+
+  const [photo] = lintMediaForPlatform("instagram", "reel", item(jpeg(1080, 1920)))!;
+  assert.equal(photo.message, "Instagram Reel media[0]: jpeg isn't supported; videos must be mp4, mov");
+
+  const [big] = lintMediaForPlatform("google_business", "post", item(png(1200, 900), 6 * 1024 * 1024))!;
+  assert.deepEqual([big.rule, big.message], ["max_size", "Google Business post media[0]: 6 MB is over the 5 MB limit"]);
+
+  // X allows bigger GIFs than other images
+  assert.equal(lintMediaForPlatform("twitter", "post", item(gif(400, 400), 10 * 1024 * 1024))!.length, 0);
+  assert.equal(lintMediaForPlatform("twitter", "post", item(png(400, 400), 10 * 1024 * 1024))!.length, 1);
+
+  // PDFs are LinkedIn documents; other networks take no documents
+  const pdf = item(new TextEncoder().encode("%PDF-1.7"));
+  assert.deepEqual(lintMediaForPlatform("linkedin", "post", pdf), []);
+  assert.equal(
+    lintMediaForPlatform("instagram", "post", pdf)![0].message,
+    "Instagram post media[0]: pdf isn't supported; images or videos must be jpeg, png, mp4, mov"
+  );
+});
+
+test("Bluesky and Telegram limits match the documented ones", () => {
+  const [photo] = lintMediaForPlatform("bluesky", "post", item(jpeg(1200, 800), 2 * 1024 * 1024))!;
+  assert.deepEqual([photo.rule, photo.limit], ["max_size", 1024 * 1024]);
+  assert.equal(lintMediaForPlatform("bluesky", "post", item(jpeg(1200, 800), 900 * 1024))!.length, 0);
+
+  const [long] = lintMediaForPlatform("bluesky", "post", item(mp4({ width: 1080, height: 1920, duration: 90 })))!;
+  assert.equal(long.message, "Bluesky post media[0]: 90 s is longer than the maximum of 60 s");
+  assert.equal(lintMediaForPlatform("bluesky", "post", item(mp4({ width: 1080, height: 1920, duration: 0.5 })))![0].rule, "min_duration");
+
+  const pdf = new TextEncoder().encode("%PDF-1.7");
+  assert.deepEqual(lintMediaForPlatform("telegram", "post", item(pdf)), []);
+  assert.equal(lintMediaForPlatform("telegram", "post", item(pdf, 60 * 1024 * 1024))![0].message, "Telegram post media[0]: 60 MB is over the 50 MB limit");
+});
+
+test("unrecognized files and formats without rules aren't checked", () => {
+  assert.deepEqual(lintMediaForPlatform("instagram", "reel", item(new Uint8Array(8))), []);
+  assert.equal(lintMediaForPlatform("instagram", "carousel", item(jpeg(10, 10))), undefined);
+});
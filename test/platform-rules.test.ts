@@ -0,0 +1,54 @@
+/**
+ * Platform text rules: length units, hashtag counting and per-platform limits
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { countHashtags, lintForPlatform, measureText } from "../src/utils/platform-rules.js";
+
+test("X weighs links as 23 and CJK and emoji as 2", () => {
+  assert.equal(measureText("hello", "weighted characters"), 5);
+  assert.equal(measureText(`see https://example.com/${"a".repeat(100)}`, "weighted characters"), 4 + 23);
+  assert.equal(measureText("read postproxy.dev/docs.", "weighted characters"), 5 + 23 + 1);
+  assert.equal(measureText("mail me at hi@acme.com", "weighted characters"), 22);
+  assert.equal(measureText("こんにちは", "weighted characters"), 10);
+  assert.equal(measureText("👍🏽 and 👨‍👩‍👧", "weighted characters"), 2 + 5 + 2);
+  assert.equal(measureText("“quoted” — café", "weighted characters"), 15);
+});
+
+test("graphemes count what a reader sees as one character", () => {
+  assert.equal(measureText("👨‍👩‍👧", "graphemes"), 1);
+  assert.equal(measureText("é", "graphemes"), 1);
+  assert.equal(measureText("👨‍👩‍👧", "characters"), 5);
+});
+
+test("hashtags need a letter and a word boundary", () => {
+  assert.equal(countHashtags("#launch #día2 #2024 a#b &#39; ##x"), 2);
+});
+
+test("lintForPlatform reports length and hashtag violations per part", () => {
+  const x = lintForPlatform("twitter", {
+    content: "a".repeat(281),
+    thread: [{ body: "fine" }, { body: "b".repeat(300) }],
+  })!;
+  assert.deepEqual(x.parts.map((p) => [p.part, p.length]), [["body", 281], ["thread[0]", 4], ["thread[1]", 300]]);
+  assert.deepEqual(x.violations.map((v) => v.message), [
+    "twitter body: 281/280 weighted characters",
+    "twitter thread[1]: 300/280 weighted characters",
+  ]);
+
+  // Threads aren't published on Instagram, so only the body counts
+  const tags = Array.from({ length: 31 }, (_, i) => `#tag${i}`).join(" ");
+  const instagram = lintForPlatform("instagram", { content: tags, thread: [{ body: "x".repeat(5000) }] })!;
+  assert.deepEqual(instagram.violations.map((v) => [v.rule, v.actual, v.limit]), [["max_hashtags", 31, 30]]);
+});
+
+test("Telegram captions have a lower limit than text posts", () => {
+  const body = "t".repeat(2000);
+  assert.equal(lintForPlatform("telegram", { content: body })!.violations.length, 0);
+  assert.equal(lintForPlatform("telegram", { content: body, media: ["https://cdn.example/a.jpg"] })!.violations[0].limit, 1024);
+});
+
+test("platforms without rules aren't linted", () => {
+  assert.equal(lintForPlatform("myspace", { content: "hi" }), undefined);
+});
@@ -0,0 +1,123 @@
+/**
+ * prompts/list and prompts/get against the fake API
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness, type Harness } from "./harness.js";
+
+let harness: Harness;
+
+before(async () => {
+  harness = await createHarness();
+});
+
+after(async () => {
+  await harness.close();
+});
+
+async function promptText(name: string, args: Record<string, string>): Promise<string> {
+  const { messages } = await harness.mcp.getPrompt({ name, arguments: args });
+  assert.equal(messages.length, 1);
+  assert.equal(messages[0].role, "user");
+  assert.equal(messages[0].content.type, "text");
+  return (messages[0].content as { text: string }).text;
+}
+
+test("prompts/list advertises every workflow with its arguments", async () => {
+  const { prompts } = await harness.mcp.listPrompts();
+  assert.deepEqual(prompts.map((p) => p.name), [
+    "announce_launch",
+    "weekly_engagement_report",
+    "triage_comments",
+    "fill_queue",
+  ]);
+  const fillQueue = prompts.find((p) => p.name === "fill_queue")!;
+  assert.deepEqual(fillQueue.arguments!.map((a) => [a.name, a.required ?? false]), [
+    ["queue_id", true],
+    ["topics", false],
+  ]);
+});
+
+test("announce_launch lists the group's profiles", async () => {
+  const text = await promptText("announce_launch", { profile_group_id: "grp_1", product: "Widgets 2.0", link: "https://acme.test" });
+  assert.match(text, /launch of Widgets 2\.0/);
+  assert.match(text, /Include this link: https:\/\/acme\.test/);
+  assert.match(text, /Acme on X \(twitter, id: prof_tw\)/);
+  assert.match(text, /Acme Store \(google_business, id: prof_gb\)/);
+});
+
+test("weekly_engagement_report covers the profile's last seven days", async () => {
+  harness.api.state.posts.find((p) => p.id === "post_1")!.created_at = new Date().toISOString();
+  const text = await promptText("weekly_engagement_report", { profile_id: "prof_li" });
+  assert.match(text, /Acme on LinkedIn \(linkedin, id: prof_li\)/);
+  assert.match(text, /- post_1 \[complete\]/);
+  assert.doesNotMatch(text, /post_draft/);
+  assert.match(text, /profiles_stats with profile_id "prof_li"/);
+});
+
+test("triage_comments checks the profiles the post went to", async () => {
+  const text = await promptText("triage_comments", { post_id: "post_1" });
+  assert.match(text, /prof_tw/);
+  assert.match(text, /prof_li/);
+  assert.doesNotMatch(text, /prof_ig/);
+
+  const single = await promptText("triage_comments", { post_id: "post_1", profile_id: "prof_li" });
+  assert.doesNotMatch(single, /prof_tw/);
+});
+
+test("triage_comments uses the post's own profiles when several share a platform", async () => {
+  const { profiles, posts } = harness.api.state;
+  profiles.push({ ...profiles.find((p) => p.id === "prof_tw")!, id: "prof_tw2", name: "Acme Support" });
+  const post_1 = posts.find((p) => p.id === "post_1")!;
+  posts.push({
+    ...post_1,
+    id: "post_tw",
+    platforms: [{ ...post_1.platforms[0], profile_id: "prof_tw" }, post_1.platforms[1]],
+  });
+  const text = await promptText("triage_comments", { post_id: "post_tw" });
+  assert.match(text, /prof_tw\)/);
+  assert.doesNotMatch(text, /prof_tw2/);
+  assert.match(text, /prof_li/, "an outcome without a profile ID falls back to its platform");
+
+  const { platforms: _, ...bare } = post_1;
+  posts.push({ ...bare, id: "post_bare" } as typeof post_1);
+  const empty = await promptText("triage_comments", { post_id: "post_bare" });
+  assert.match(empty, /Profiles to check:\n\(no connected profiles\)/);
+
+  profiles.pop();
+  posts.splice(-2);
+});
+
+test("fill_queue includes the queue's timeslots and recent posts", async () => {
+  const text = await promptText("fill_queue", { queue_id: "queue_1", topics: "spring sale" });
+  assert.match(text, /"Weekdays" \(id: queue_1\)/);
+  assert.match(text, /Topics to draw from: spring sale/);
+  assert.match(text, /Monday at /);
+  assert.match(text, /- post_1 /);
+  assert.match(text, /queue_id "queue_1"/);
+});
+
+test("unknown prompts, missing arguments and missing targets are invalid params", async () => {
+  await assert.rejects(harness.mcp.getPrompt({ name: "nope" }), (error: any) => error.code === -32602);
+  await assert.rejects(
+    harness.mcp.getPrompt({ name: "announce_launch", arguments: { product: "Widgets" } }),
+    (error: any) => error.code === -32602 && /profile_group_id/.test(error.message)
+  );
+  await assert.rejects(
+    harness.mcp.getPrompt({ name: "fill_queue", arguments: { queue_id: "nope" } }),
+    (error: any) => error.code === -32602 && error.data.code === "TARGET_NOT_FOUND"
+  );
+  await assert.rejects(
+    harness.mcp.getPrompt({ name: "weekly_engagement_report", arguments: { profile_id: "nope" } }),
+    (error: any) => error.code === -32602
+  );
+});
+
+test("API failures are internal errors carrying the PostProxy error code", async () => {
+  harness.api.failNext({ path: "/posts/post_1" }, 401, { error: "Unauthorized" });
+  await assert.rejects(
+    harness.mcp.getPrompt({ name: "triage_comments", arguments: { post_id: "post_1" } }),
+    (error: any) => error.code === -32603 && error.data.code === "AUTH_INVALID"
+  );
+});
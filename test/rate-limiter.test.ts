@@ -0,0 +1,108 @@
+/**
+ * Client-side rate limiting: the token bucket, the concurrency limit and adapting to
+ * the API's X-RateLimit-* headers
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RateLimiter } from "../src/api/rate-limiter.js";
+import { MCPError } from "../src/utils/errors.js";
+
+const quota = (limit: number, remaining: number, resetSeconds: number) =>
+  new Headers({
+    "x-ratelimit-limit": String(limit),
+    "x-ratelimit-remaining": String(remaining),
+    "x-ratelimit-reset": String(resetSeconds),
+  });
+
+// Milliseconds from the start until each acquire resolves, releasing each slot at once
+async function acquireTimes(limiter: RateLimiter, count: number): Promise<number[]> {
+  const start = Date.now();
+  return Promise.all(
+    Array.from({ length: count }, async () => {
+      const release = await limiter.acquire();
+      release();
+      return Date.now() - start;
+    })
+  );
+}
+
+test("a full bucket allows a burst, then requests are spaced at the configured rate", async () => {
+  const limiter = new RateLimiter({ requestsPerSecond: 10, maxConcurrency: 100 });
+  const times = await acquireTimes(limiter, 12);
+  assert.ok(times.slice(0, 10).every((ms) => ms < 50), `burst: ${times}`);
+  assert.ok(times[10] >= 80 && times[11] >= 180, `spaced: ${times}`);
+});
+
+test("requests beyond maxConcurrency wait for a release", async () => {
+  const limiter = new RateLimiter({ requestsPerSecond: 100, maxConcurrency: 2 });
+  const first = await limiter.acquire();
+  await limiter.acquire();
+  let third = false;
+  const pending = limiter.acquire().then((release) => {
+    third = true;
+    return release;
+  });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.equal(third, false);
+  assert.deepEqual([limiter.getStatus().in_flight, limiter.getStatus().queued], [2, 1]);
+
+  first();
+  first(); // Releasing twice frees one slot only
+  (await pending)();
+  assert.equal(third, true);
+  assert.equal(limiter.getStatus().in_flight, 1);
+});
+
+test("the API's quota headers are reported and counted down", () => {
+  const limiter = new RateLimiter();
+  const now = Date.now();
+  limiter.update(quota(100, 42, 30), now);
+  assert.deepEqual(limiter.getStatus(now), {
+    requests_per_second: 5,
+    max_concurrency: 4,
+    in_flight: 0,
+    queued: 0,
+    limit: 100,
+    remaining: 42,
+    reset_at: new Date(now + 30_000).toISOString(),
+  });
+
+  // Epoch-second resets are taken as is; once past, the old remaining count is dropped
+  limiter.update(quota(100, 0, Math.floor(now / 1000) - 1), now);
+  const status = limiter.getStatus(now);
+  assert.equal(status.remaining, undefined);
+  assert.equal(status.reset_at, undefined);
+});
+
+test("an exhausted quota holds requests until the reset", async () => {
+  const limiter = new RateLimiter();
+  // A one-second window that started 850 ms ago
+  limiter.update(quota(100, 0, 1), Date.now() - 850);
+  const [waited] = await acquireTimes(limiter, 1);
+  assert.ok(waited >= 100, `waited ${waited}ms`);
+});
+
+test("a nearly used-up quota is spread over the rest of the window", async () => {
+  const limiter = new RateLimiter({ requestsPerSecond: 100, maxConcurrency: 100 });
+  await acquireTimes(limiter, 100); // Empty the bucket
+  limiter.update(quota(100, 5, 1));
+  const times = await acquireTimes(limiter, 2);
+  // 5 requests left for 1 s: about one every 200 ms instead of every 10 ms
+  assert.ok(times[1] >= 300, `spread: ${times}`);
+});
+
+test("waiting longer than maxWaitMs fails fast with a retryable RATE_LIMITED error", async () => {
+  const limiter = new RateLimiter({ maxWaitMs: 1000 });
+  limiter.update(quota(100, 0, 3600));
+  const requests = [limiter.acquire(), limiter.acquire()];
+  for (const request of requests) {
+    await assert.rejects(request, (error: MCPError) => {
+      assert.equal(error.code, "RATE_LIMITED");
+      assert.match(error.message, /quota is used up until .*, so the request would wait 3600s/);
+      assert.equal(error.details.retry_after_seconds, 3600);
+      return true;
+    });
+  }
+  assert.equal(limiter.getStatus().queued, 0);
+});
@@ -0,0 +1,124 @@
+/**
+ * resources/list, resources/templates/list, resources/read and post subscriptions
+ * against the fake API
+ */
+
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as delay } from "node:timers/promises";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createHarness, type Harness } from "./harness.js";
+
+let harness: Harness;
+
+before(async () => {
+  harness = await createHarness();
+});
+
+after(async () => {
+  await harness.close();
+});
+
+async function read(uri: string): Promise<any> {
+  const { contents } = await harness.mcp.readResource({ uri });
+  assert.equal(contents[0].mimeType, "application/json");
+  assert.ok("text" in contents[0]);
+  return JSON.parse(contents[0].text);
+}
+
+test("resources/list includes profile groups, profiles and queues", async () => {
+  const { resources } = await harness.mcp.listResources();
+  assert.deepEqual(resources.map((r) => r.uri), [
+    "postproxy://profile-groups",
+    "postproxy://profiles/prof_tw",
+    "postproxy://profiles/prof_li",
+    "postproxy://profiles/prof_ig",
+    "postproxy://profiles/prof_gb",
+    "postproxy://queues/queue_1",
+  ]);
+});
+
+test("resources/templates/list advertises the addressable resources", async () => {
+  const { resourceTemplates } = await harness.mcp.listResourceTemplates();
+  assert.deepEqual(resourceTemplates.map((t) => t.uriTemplate), [
+    "postproxy://profiles/{profile_id}",
+    "postproxy://queues/{queue_id}",
+    "postproxy://posts/{post_id}",
+    "postproxy://chats/{chat_id}/messages",
+  ]);
+});
+
+test("resources/read returns each resource as JSON", async () => {
+  assert.equal((await read("postproxy://profile-groups"))[0].id, "grp_1");
+  assert.equal((await read("postproxy://profiles/prof_li")).platform, "linkedin");
+  assert.equal((await read("postproxy://queues/queue_1")).timeslots.length, 2);
+  assert.equal((await read("postproxy://posts/post_1")).platforms[1].error, "Token expired");
+  assert.equal((await read("postproxy://chats/chat_1/messages")).data[0].body, "Do you ship to Canada?");
+});
+
+test("missing targets and unknown URIs are resource-not-found errors", async () => {
+  for (const uri of ["postproxy://posts/nope", "postproxy://profiles/nope", "postproxy://unknown"]) {
+    await assert.rejects(harness.mcp.readResource({ uri }), (error: any) => error.code === -32002);
+  }
+});
+
+test("API failures are reported with the PostProxy error code", async () => {
+  harness.api.failNext({ path: "/posts/post_1" }, 401, { error: "Unauthorized" });
+  await assert.rejects(
+    harness.mcp.readResource({ uri: "postproxy://posts/post_1" }),
+    (error: any) => error.code === -32603 && error.data.code === "AUTH_INVALID"
+  );
+});
+
+test("subscribed posts notify on every status change until they settle", async () => {
+  const updated: string[] = [];
+  harness.mcp.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updated.push(notification.params.uri);
+  });
+
+  const { structuredContent } = await harness.callTool("post_publish", { content: "Watch me", profiles: ["twitter", "linkedin"] });
+  const uri = `postproxy://posts/${structuredContent!.post_id}`;
+  await harness.mcp.subscribeResource({ uri });
+
+  // No change yet: polling doesn't notify
+  await delay(50);
+  assert.deepEqual(updated, []);
+
+  const post = harness.api.state.posts.find((p) => p.id === structuredContent!.post_id)!;
+  post.platforms[0].status = "published";
+  await waitFor(() => updated.length === 1);
+
+  harness.api.settlePost(post.id, { linkedin: "Token expired" });
+  await waitFor(() => updated.length === 2);
+  assert.deepEqual(updated, [uri, uri]);
+
+  // Terminal: no more polling
+  const polls = harness.api.requestsTo(`/posts/${post.id}`).length;
+  await delay(50);
+  assert.equal(harness.api.requestsTo(`/posts/${post.id}`).length, polls);
+});
+
+test("unsubscribing stops polling", async () => {
+  const uri = "postproxy://posts/post_draft";
+  await harness.mcp.subscribeResource({ uri });
+  await delay(30);
+  await harness.mcp.unsubscribeResource({ uri });
+  const polls = harness.api.requestsTo("/posts/post_draft").length;
+  await delay(50);
+  assert.equal(harness.api.requestsTo("/posts/post_draft").length, polls);
+});
+
+test("only existing posts can be subscribed to", async () => {
+  await assert.rejects(harness.mcp.subscribeResource({ uri: "postproxy://queues/queue_1" }), (error: any) => error.code === -32602);
+  await assert.rejects(harness.mcp.subscribeResource({ uri: "postproxy://posts/nope" }), (error: any) => error.code === -32002);
+});
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      assert.fail("Timed out waiting for condition");
+    }
+    await delay(5);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Automatic thread splitting: boundaries, per-platform limits, numbering and media markers
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { splitIntoThread } from "../src/utils/thread-splitter.js";
+import { measureText } from "../src/utils/platform-rules.js";
+import { MCPError } from "../src/utils/errors.js";
+
+const sentence = (word: string) => `${word} ${"word ".repeat(20).trim()}.`; // 107 characters
+
+test("content that fits stays a single post", () => {
+  assert.deepEqual(splitIntoThread("Short and sweet.", [], { platforms: ["twitter"], numbering: true }), {
+    body: "Short and sweet.",
+    media: [],
+    thread: [],
+  });
+});
+
+test("posts end at sentence boundaries and paragraphs keep their break", () => {
+  const content = `${sentence("One")} ${sentence("Two")}\n\n${sentence("Three")} ${sentence("Four")}`;
+  const split = splitIntoThread(content, [], { platforms: ["twitter"] });
+  assert.equal(split.body, `${sentence("One")} ${sentence("Two")}`);
+  assert.deepEqual(split.thread.map((t) => t.body), [`${sentence("Three")} ${sentence("Four")}`]);
+
+  // Threads allows 500 characters, so everything fits one post there
+  const threads = splitIntoThread(content, [], { platforms: ["threads"] });
+  assert.equal(threads.body, content);
+});
+
+test("every post fits the strictest target", () => {
+  const content = Array.from({ length: 12 }, (_, i) => sentence(`S${i}`)).join(" ");
+  const split = splitIntoThread(content, [], { platforms: ["threads", "bluesky", "twitter"], numbering: true });
+  const posts = [split.body, ...split.thread.map((t) => t.body)];
+  assert.equal(posts.length, 6);
+  posts.forEach((post, i) => {
+    assert.ok(post.endsWith(` ${i + 1}/6`), post);
+    assert.ok(measureText(post, "weighted characters") <= 280);
+  });
+});
+
+test("sentences longer than a post break between words, and words between graphemes", () => {
+  const words = "lorem ".repeat(100).trim();
+  const split = splitIntoThread(words, [], { platforms: ["bluesky"] });
+  assert.ok(split.thread.length > 0);
+  assert.ok([split.body, ...split.thread.map((t) => t.body)].every((p) => !p.startsWith(" ") && p.length <= 300));
+
+  const word = "a".repeat(700);
+  const cut = splitIntoThread(word, [], { platforms: ["bluesky"] });
+  assert.deepEqual([cut.body, ...cut.thread.map((t) => t.body)].map((p) => p.length), [300, 300, 100]);
+});
+
+test("media markers place media on their post; unmarked media stays on the first", () => {
+  const content = `${sentence("One")} [media:2] ${sentence("Two")}\n\n[media:3]\n\n${sentence("Three")} ${sentence("Four")}`;
+  const split = splitIntoThread(content, ["a.jpg", "b.jpg", "c.jpg"], { platforms: ["twitter"] });
+  assert.equal(split.body, `${sentence("One")} ${sentence("Two")}`);
+  assert.deepEqual(split.media, ["a.jpg", "b.jpg"]);
+  assert.deepEqual(split.thread, [{ body: `${sentence("Three")} ${sentence("Four")}`, media: ["c.jpg"] }]);
+});
+
+test("invalid markers and platforms without threads are validation errors", () => {
+  const isValidationError = (error: unknown) => error instanceof MCPError && error.code === "VALIDATION_ERROR";
+  assert.throws(() => splitIntoThread("Hi [media:2]", ["a.jpg"], { platforms: ["twitter"] }), isValidationError);
+  assert.throws(() => splitIntoThread("[media:1] Hi [media:1]", ["a.jpg"], { platforms: ["twitter"] }), isValidationError);
+  assert.throws(() => splitIntoThread("Hi", [], { platforms: ["twitter", "linkedin"] }), isValidationError);
+});
@@ -0,0 +1,697 @@
+/**
+ * Every tool in TOOL_DEFINITIONS, called through an MCP client against the fake API
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { TOOL_DEFINITIONS } from "../src/server.js";
+import { createHarness, type Harness } from "./harness.js";
+import { mp4, png } from "./media-fixtures.js";
+
+let harness: Harness;
+const called = new Set<string>();
+
+async function call(name: string, args: Record<string, unknown> = {}) {
+  called.add(name);
+  const result = await harness.callTool(name, args);
+  assert.equal(result.isError, false, `${name} failed: ${result.text}`);
+  assert.ok(result.structuredContent, `${name} returned no structuredContent`);
+  return result.structuredContent;
+}
+
+before(async () => {
+  harness = await createHarness({
+    fixtures: {
+      files: {
+        "/tmp/photo.jpg": new Uint8Array([0xff, 0xd8, 0xff, 0xe0]),
+        "/tmp/clip.mp4": mp4({ width: 1080, height: 1920, duration: 75, audio: true }),
+        "/tmp/cover.png": png(1080, 1920),
+      },
+    },
+  });
+});
+
+after(async () => {
+  await harness.close();
+});
+
+describe("auth and profiles", () => {
+  test("auth_status reports the workspace", async () => {
+    const result = await call("auth_status");
+    assert.equal(result.authenticated, true);
+    assert.equal(result.profile_groups_count, 1);
+    assert.equal(result.rate_limit.requests_per_second, 1000);
+  });
+
+  test("profile_groups_list and profiles_list", async () => {
+    const groups = await call("profile_groups_list");
+    assert.deepEqual(groups.profile_groups.map((g: any) => g.id), ["grp_1"]);
+
+    const profiles = await call("profiles_list");
+    assert.deepEqual(profiles.profiles.map((p: any) => p.id), ["prof_tw", "prof_li", "prof_ig", "prof_gb"]);
+
+    const filtered = await call("profiles_list", { profile_group_id: "grp_1", cache: "bypass" });
+    assert.equal(filtered.profiles.length, 4);
+  });
+
+  test("profiles_placements and profiles_stats", async () => {
+    const placements = await call("profiles_placements", { profile_id: "prof_li" });
+    assert.deepEqual(placements.placements.map((p: any) => p.id), [null, "org_1"]);
+
+    const stats = await call("profiles_stats", { profile_id: "prof_tw" });
+    assert.equal(stats.data.records[0].stats.followers, 1000);
+  });
+
+  test("profile_groups_initialize_connection returns the connect URL", async () => {
+    const result = await call("profile_groups_initialize_connection", { profile_group_id: "grp_1", platform: "linkedin" });
+    assert.match(result.url, /connect\/linkedin/);
+    const [request] = harness.api.requestsTo("/profile_groups/grp_1/initialize_connection");
+    assert.equal(request.body.force_no_redirect, true);
+  });
+
+  test("cached reads only hit the API once", async () => {
+    const before = harness.api.requestsTo("/profiles/prof_gb/placements").length;
+    await call("profiles_placements", { profile_id: "prof_gb" });
+    await call("profiles_placements", { profile_id: "prof_gb" });
+    assert.equal(harness.api.requestsTo("/profiles/prof_gb/placements").length, before + 1);
+  });
+});
+
+describe("posts", () => {
+  let postId: string;
+
+  test("upload_create returns an upload key", async () => {
+    const upload = await call("upload_create");
+    assert.match(upload.key, /^upload_/);
+    assert.equal(upload.expires_in, 3600);
+  });
+
+  test("post_publish creates a post with an idempotency key", async () => {
+    const result = await call("post_publish", {
+      content: "Launch day",
+      profiles: ["twitter", "prof_li"],
+      platforms: { linkedin: {} },
+    });
+    postId = result.post_id;
+    assert.equal(result.status, "processed");
+
+    const [request] = harness.api.requestsTo("/posts", "POST");
+    assert.ok(request.headers.get("idempotency-key"));
+    assert.deepEqual(request.body.profiles, ["twitter", "prof_li"]);
+
+    const again = await call("post_publish", { content: "Launch day", profiles: ["twitter", "prof_li"], platforms: { linkedin: {} } });
+    assert.equal(again.post_id, postId, "same content and profiles reuse the idempotency key");
+  });
+
+  test("post_publish with require_confirmation doesn't call the API", async () => {
+    const before = harness.api.requests.length;
+    const result = await call("post_publish", { content: "Preview", profiles: ["twitter"], require_confirmation: true });
+    assert.equal(result.summary.content_preview, "Preview");
+    assert.equal(harness.api.requests.length, before);
+  });
+
+  test("post_publish uploads local media as multipart", async () => {
+    const result = await call("post_publish", { content: "With a photo", profiles: ["instagram"], media: ["/tmp/photo.jpg"] });
+    const request = harness.api.requestsTo("/posts", "POST").at(-1)!;
+    assert.equal(request.fields?.["post[body]"], "With a photo");
+    assert.deepEqual(request.files?.map((f) => [f.field, f.name, f.type]), [["media[]", "photo.jpg", "image/jpeg"]]);
+    assert.ok(result.post_id);
+  });
+
+  test("post_publish uploads thread children's local media as indexed parts", async () => {
+    const result = await call("post_publish", {
+      content: "How we cut build times",
+      profiles: ["twitter"],
+      thread: [
+        { body: "Before", media: ["/tmp/photo.jpg"] },
+        { body: "After", media: ["https://cdn.example/chart.png", "/tmp/cover.png"] },
+        { body: "Thanks for reading" },
+      ],
+    });
+    assert.ok(result.post_id);
+    const request = harness.api.requestsTo("/posts", "POST").at(-1)!;
+    assert.equal(request.fields?.thread, undefined);
+    assert.equal(request.fields?.["thread[2][body]"], "Thanks for reading");
+    assert.deepEqual(request.fields?.["thread[1][media][]"], ["https://cdn.example/chart.png"]);
+    assert.deepEqual(request.files?.map((f) => [f.field, f.name, f.type]), [
+      ["thread[0][media][]", "photo.jpg", "image/jpeg"],
+      ["thread[1][media][]", "cover.png", "image/png"],
+    ]);
+  });
+
+  test("post_publish reports upload progress", async () => {
+    const progress: Array<{ progress: number; total?: number; message?: string }> = [];
+    const result = await harness.mcp.callTool(
+      { name: "post_publish", arguments: { content: "With a clip", profiles: ["twitter"], media: ["/tmp/clip.mp4"] } },
+      undefined,
+      { onprogress: (notification) => progress.push(notification) }
+    );
+    assert.equal(result.isError, undefined);
+    const last = progress.at(-1)!;
+    assert.equal(last.progress, last.total);
+    assert.equal(last.total, Number(harness.api.requestsTo("/posts", "POST").at(-1)!.headers.get("content-length")));
+    assert.match(last.message!, /^Uploading media: [\d.]+ of [\d.]+ MB$/);
+    assert.deepEqual(progress.map((p) => p.progress), [...progress.map((p) => p.progress)].sort((a, b) => a - b));
+  });
+
+  test("post_publish into a queue schedules the next timeslot", async () => {
+    const result = await call("post_publish", { content: "Queued", profiles: ["twitter"], queue_id: "queue_1" });
+    assert.equal(result.status, "scheduled");
+    assert.ok(result.scheduled_at);
+  });
+
+  test("post_lint measures the post for every target platform", async () => {
+    const result = await call("post_lint", {
+      content: `${"a".repeat(270)} https://example.com/a-long-path`,
+      profiles: ["twitter", "prof_li", "nope"],
+      thread: [{ body: "b".repeat(281) }],
+    });
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.platforms.map((p: any) => p.platform), ["twitter", "linkedin"]);
+    assert.equal(result.platforms[0].parts[0].length, 294);
+    assert.deepEqual(result.violations.map((v: any) => v.message), [
+      "twitter body: 294/280 weighted characters",
+      "twitter thread[0]: 281/280 weighted characters",
+    ]);
+    assert.deepEqual(result.unresolved_profiles, ["nope"]);
+  });
+
+  test("post_publish and post_update fail early on platform limits", async () => {
+    const before = harness.api.requestsTo("/posts", "POST").length;
+    const rejected = await harness.callTool("post_publish", { content: "x".repeat(301), profiles: ["prof_li", "bluesky"] });
+    assert.equal(rejected.error!.code, "VALIDATION_ERROR");
+    assert.match(rejected.error!.message, /bluesky body: 301\/300 graphemes/);
+    assert.equal(rejected.error!.details.violations[0].platform, "bluesky");
+    assert.equal(harness.api.requestsTo("/posts", "POST").length, before);
+
+    // post_draft goes to twitter, so new content is checked against X's limit
+    const updated = await harness.callTool("post_update", { post_id: "post_draft", content: "y".repeat(281) });
+    assert.equal(updated.error!.code, "VALIDATION_ERROR");
+    assert.equal(harness.api.requestsTo("/posts/post_draft", "PATCH").length, 0);
+  });
+
+  test("media_inspect checks local files against the requested format", async () => {
+    const result = await call("media_inspect", {
+      profiles: ["instagram", "twitter"],
+      media: ["/tmp/clip.mp4", "https://cdn.example/a.jpg"],
+      platforms: { instagram: { format: "reel", cover_url: "/tmp/cover.png" } },
+    });
+    assert.deepEqual(result.media.map((m: any) => [m.part, m.type, m.width, m.height, m.duration_seconds]), [
+      ["media[0]", "video", 1080, 1920, 75],
+      ["platforms.instagram.cover_url", "image", 1080, 1920, undefined],
+    ]);
+    assert.deepEqual(result.media[0].checked, [{ platform: "instagram", format: "reel" }, { platform: "twitter", format: "post" }]);
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.valid, true);
+  });
+
+  test("post_publish fails early when media breaks a platform's rules", async () => {
+    const before = harness.api.requestsTo("/posts", "POST").length;
+    const story = await harness.callTool("post_publish", {
+      content: "Behind the scenes",
+      profiles: ["instagram"],
+      media: ["/tmp/clip.mp4"],
+      platforms: { instagram: { format: "story" } },
+    });
+    assert.equal(story.error!.code, "VALIDATION_ERROR");
+    assert.match(story.error!.message, /Instagram Story media\[0\]: 75 s is longer than the maximum of 60 s/);
+    assert.deepEqual(story.error!.details.violations.map((v: any) => [v.platform, v.format, v.rule]), [["instagram", "story", "max_duration"]]);
+    assert.equal(harness.api.requestsTo("/posts", "POST").length, before);
+  });
+
+  test("post_publish with auto_thread previews the split, then publishes it", async () => {
+    const paragraph = (n: number) => `Part ${n}: ${"lorem ipsum ".repeat(20).trim()}.`;
+    const args = {
+      content: `${paragraph(1)}\n\n[media:1]\n\n${paragraph(2)}`,
+      profiles: ["twitter"],
+      media: ["https://cdn.example/chart.png"],
+      auto_thread: true,
+      thread_numbering: true,
+    };
+    const before = harness.api.requestsTo("/posts", "POST").length;
+    const preview = await call("post_publish", args);
+    assert.equal(preview.summary.body, `${paragraph(1)} 1/2`);
+    assert.deepEqual(preview.summary.media, []);
+    assert.deepEqual(preview.summary.thread, [{ body: `${paragraph(2)} 2/2`, media: ["https://cdn.example/chart.png"] }]);
+    assert.equal(harness.api.requestsTo("/posts", "POST").length, before);
+
+    await call("post_publish", { ...args, require_confirmation: false });
+    const request = harness.api.requestsTo("/posts", "POST").at(-1)!;
+    assert.equal(request.body.post.body, `${paragraph(1)} 1/2`);
+    assert.deepEqual(request.body.media, []);
+    assert.deepEqual(request.body.thread, preview.summary.thread);
+
+    // LinkedIn doesn't publish threads, so it gets the content unsplit in a post of its own
+    const mixed = { ...args, profiles: ["twitter", "prof_li"], platforms: { twitter: {}, linkedin: {} } };
+    const mixedPreview = await call("post_publish", mixed);
+    assert.deepEqual(mixedPreview.summary.posts.map((p: any) => [p.variant, p.profiles, p.body, p.thread.length]), [
+      [null, ["prof_li"], args.content, 0],
+      ["auto_thread", ["twitter"], `${paragraph(1)} 1/2`, 1],
+    ]);
+
+    const sent = harness.api.requestsTo("/posts", "POST").length;
+    const result = await call("post_publish", { ...mixed, require_confirmation: false });
+    const [linkedin, twitter] = harness.api.requestsTo("/posts", "POST").slice(sent);
+    assert.deepEqual([linkedin.body.profiles, linkedin.body.post.body, linkedin.body.thread], [["prof_li"], args.content, undefined]);
+    assert.deepEqual(linkedin.body.platforms, { linkedin: {} });
+    assert.deepEqual([twitter.body.profiles, twitter.body.thread], [["twitter"], preview.summary.thread]);
+    assert.deepEqual(twitter.body.platforms, { twitter: {} });
+    assert.deepEqual(result.posts.map((p: any) => p.variant), [null, "auto_thread"]);
+    assert.match(result.group_id, /^pg_/);
+  });
+
+  test("post_publish with variants publishes a post per variant under one group", async () => {
+    const args = {
+      content: "We're live",
+      profiles: ["twitter", "prof_li"],
+      variants: { linkedin: { content: "We're live. Here's the longer story for LinkedIn." } },
+    };
+    const preview = await call("post_publish", { ...args, require_confirmation: true });
+    assert.deepEqual(preview.summary.posts.map((p: any) => [p.variant, p.profiles, p.body]), [
+      [null, ["twitter"], "We're live"],
+      ["linkedin", ["prof_li"], "We're live. Here's the longer story for LinkedIn."],
+    ]);
+
+    const before = harness.api.requestsTo("/posts", "POST").length;
+    const result = await call("post_publish", args);
+    const requests = harness.api.requestsTo("/posts", "POST").slice(before);
+    assert.deepEqual(requests.map((r) => [r.body.post.body, r.body.profiles]), [
+      ["We're live", ["twitter"]],
+      ["We're live. Here's the longer story for LinkedIn.", ["prof_li"]],
+    ]);
+    assert.match(result.group_id, /^pg_/);
+    assert.deepEqual(result.posts.map((p: any) => p.variant), [null, "linkedin"]);
+
+    const again = await call("post_publish", args);
+    assert.equal(again.group_id, result.group_id, "a repeated call reuses each post's idempotency key");
+
+    const [twitter, linkedin] = result.posts.map((p: any) => p.post_id);
+    harness.api.settlePost(twitter, {});
+    harness.api.settlePost(linkedin, { linkedin: "Token expired" });
+    const status = await call("post_status", { group_id: result.group_id });
+    assert.equal(status.overall_status, "complete");
+    assert.deepEqual(status.posts.map((p: any) => [p.post_id, p.overall_status]), [[twitter, "complete"], [linkedin, "failed"]]);
+
+    const stats = await call("post_stats", { group_id: result.group_id });
+    assert.deepEqual(Object.keys(stats.data), [twitter, linkedin]);
+
+    const unknown = await harness.callTool("post_publish", { ...args, variants: { facebook: { content: "Hi" } } });
+    assert.equal(unknown.error!.code, "VALIDATION_ERROR");
+    assert.match(unknown.error!.message, /no profile matches: facebook/);
+
+    const invalid = await harness.callTool("post_status", { group_id: "pg_!!" });
+    assert.equal(invalid.error!.code, "VALIDATION_ERROR");
+  });
+
+  test("post_status aggregates platform outcomes", async () => {
+    assert.equal((await call("post_status", { post_id: postId })).overall_status, "processing");
+
+    harness.api.settlePost(postId, { linkedin: "Token expired" });
+    const status = await call("post_status", { post_id: postId });
+    assert.equal(status.overall_status, "complete");
+    assert.deepEqual(status.platforms.map((p: any) => p.status), ["published", "failed"]);
+
+    const existing = await call("post_status", { post_id: "post_1" });
+    assert.equal(existing.platforms[1].error_details.platform_error_code, "401");
+  });
+
+  test("post_wait returns the outcome of a settled post at once", async () => {
+    const result = await call("post_wait", { post_id: postId });
+    assert.equal(result.overall_status, "complete");
+    assert.equal(result.timed_out, false);
+    assert.equal(result.polls, 1);
+    assert.equal(result.platforms[0].url, `https://twitter.example/posts/${postId}`);
+    assert.equal(result.platforms[1].error, "Token expired");
+  });
+
+  test("post_wait polls with progress until the post settles", async () => {
+    const { post_id } = await call("post_publish", { content: "Wait for me", profiles: ["twitter"] });
+    const progress: Array<{ progress: number; total?: number; message?: string }> = [];
+    const result = await harness.mcp.callTool({ name: "post_wait", arguments: { post_id } }, undefined, {
+      onprogress: (notification) => {
+        progress.push(notification);
+        harness.api.settlePost(post_id);
+      },
+    });
+    const waited = result.structuredContent as Record<string, any>;
+    assert.equal(waited.overall_status, "complete");
+    assert.equal(waited.polls, 2);
+    assert.equal(progress.length, 1);
+    assert.equal(progress[0].total, 50);
+    assert.match(progress[0].message!, /is processing \(twitter: pending\)/);
+  });
+
+  test("post_wait returns the current status when the timeout passes", async () => {
+    const { post_id } = await call("post_publish", { content: "Still going", profiles: ["twitter"] });
+    const result = await call("post_wait", { post_id, timeout_seconds: 0.2 });
+    assert.equal(result.overall_status, "processing");
+    assert.equal(result.timed_out, true);
+    assert.equal(result.polls, 2);
+    assert.ok(result.waited_seconds >= 0.2);
+  });
+
+  test("post_wait refuses drafts", async () => {
+    const { post_id } = await call("post_publish", { content: "Not yet", profiles: ["twitter"], draft: true });
+    const result = await harness.callTool("post_wait", { post_id });
+    assert.equal(result.error!.code, "VALIDATION_ERROR");
+    assert.match(result.error!.message, /post_publish_draft/);
+  });
+
+  test("post_retry_failed republishes the failed platforms only", async () => {
+    const { post_id } = await call("post_publish", {
+      content: "Retry me",
+      profiles: ["twitter", "linkedin", "instagram"],
+      media: ["https://cdn.example/launch.jpg"],
+      platforms: { instagram: { format: "reel" } },
+    });
+    harness.api.settlePost(post_id, { linkedin: "Token expired", instagram: "Media rejected" });
+
+    const retry = await call("post_retry_failed", { post_id });
+    assert.equal(retry.retry_of, post_id);
+    assert.deepEqual(retry.retried_platforms, ["linkedin", "instagram"]);
+    assert.deepEqual(retry.retried_profiles, ["prof_li", "prof_ig"]);
+    assert.notEqual(retry.post_id, post_id);
+
+    const request = harness.api.requestsTo("/posts", "POST").at(-1)!;
+    assert.equal(request.body.post.body, "Retry me");
+    assert.deepEqual(request.body.profiles, ["prof_li", "prof_ig"]);
+    assert.deepEqual(request.body.media, ["https://cdn.example/launch.jpg"]);
+    assert.deepEqual(request.body.platforms, { instagram: { format: "reel" } });
+
+    const again = await call("post_retry_failed", { post_id });
+    assert.equal(again.post_id, retry.post_id, "retrying the same post twice reuses the idempotency key");
+
+    const nothingFailed = await harness.callTool("post_retry_failed", { post_id: retry.post_id });
+    assert.equal(nothingFailed.error!.code, "VALIDATION_ERROR");
+    assert.match(nothingFailed.error!.message, /no failed platforms/);
+  });
+
+  test("post_retry_failed targets the failed profile when a platform has several", async () => {
+    const linkedin = harness.api.state.profiles.find((p) => p.id === "prof_li")!;
+    const h = await createHarness({
+      fixtures: { profiles: [linkedin, { ...linkedin, id: "prof_li2", name: "Acme Careers" }] },
+    });
+    try {
+      const queued = await h.callTool("post_publish", { content: "Hiring", profiles: ["prof_li", "prof_li2"], queue_id: "queue_1" });
+      const postId = queued.structuredContent!.post_id;
+      h.api.settlePost(postId, { prof_li2: "Token expired" });
+
+      const retry = await h.callTool("post_retry_failed", { post_id: postId });
+      assert.deepEqual(retry.structuredContent!.retried_profiles, ["prof_li2"]);
+      const request = h.api.requestsTo("/posts", "POST").at(-1)!;
+      assert.deepEqual(request.body.profiles, ["prof_li2"]);
+      assert.equal(request.body.queue_id, "queue_1");
+
+      // Both failed: each profile once
+      const scheduled = await h.callTool("post_publish", {
+        content: "Later",
+        profiles: ["prof_li", "prof_li2"],
+        schedule: "2099-01-01T09:00:00Z",
+      });
+      h.api.settlePost(scheduled.structuredContent!.post_id, { linkedin: "Rate limited" });
+      await h.callTool("post_retry_failed", { post_id: scheduled.structuredContent!.post_id });
+      const both = h.api.requestsTo("/posts", "POST").at(-1)!;
+      assert.deepEqual(both.body.profiles, ["prof_li", "prof_li2"]);
+      assert.equal(both.body.post.scheduled_at, "2099-01-01T09:00:00Z");
+
+      // Without profile IDs on the outcomes, the platform is ambiguous
+      const old = await h.callTool("post_publish", { content: "Old", profiles: ["prof_li", "prof_li2"] });
+      const unknown = h.api.settlePost(old.structuredContent!.post_id, { linkedin: "Expired" });
+      unknown.platforms.forEach((outcome) => delete outcome.profile_id);
+      const ambiguous = await h.callTool("post_retry_failed", { post_id: unknown.id });
+      assert.equal(ambiguous.error?.code, "VALIDATION_ERROR");
+      assert.match(ambiguous.error?.message, /Can't tell which linkedin profile failed .* 2 linkedin profiles are connected/);
+    } finally {
+      await h.close();
+    }
+  });
+
+  test("post_update uploads local media and covers with a multipart PATCH", async () => {
+    const rejected = await harness.callTool("post_update", {
+      post_id: "post_draft",
+      profiles: ["instagram"],
+      media: ["/tmp/clip.mp4"],
+      platforms: { instagram: { format: "story" } },
+    });
+    assert.equal(rejected.error?.code, "VALIDATION_ERROR");
+    assert.match(rejected.error?.message, /Instagram Story media\[0\]: 75 s is longer than the maximum of 60 s/);
+    assert.equal(harness.api.requestsTo("/posts/post_draft", "PATCH").length, 0);
+
+    const updated = await call("post_update", {
+      post_id: "post_draft",
+      profiles: ["twitter", "instagram"],
+      media: ["/tmp/clip.mp4"],
+      platforms: { instagram: { format: "reel", cover_url: "/tmp/cover.png" } },
+    });
+    assert.equal(updated.message, "Post updated successfully");
+    const request = harness.api.requestsTo("/posts/post_draft", "PATCH").at(-1)!;
+    assert.equal(request.body, undefined);
+    assert.equal(request.fields?.["post[body]"], undefined);
+    assert.deepEqual(request.fields?.["profiles[]"], ["twitter", "instagram"]);
+    assert.equal(request.fields?.["platforms[instagram][format]"], "reel");
+    assert.deepEqual(request.files?.map((f) => [f.field, f.name, f.type]), [
+      ["media[]", "clip.mp4", "video/mp4"],
+      ["platforms[instagram][cover_file]", "cover.png", "image/png"],
+    ]);
+    assert.deepEqual(harness.api.state.posts.find((p) => p.id === "post_draft")!.platforms.map((p) => p.platform), ["twitter", "instagram"]);
+  });
+
+  test("post_update clears media with an empty list when it uploads a cover", async () => {
+    const draft = harness.api.state.posts.find((p) => p.id === "post_draft")!;
+    await call("post_update", { post_id: "post_draft", media: ["https://cdn.example/old.jpg"] });
+    assert.equal(draft.media?.length, 1);
+
+    await call("post_update", {
+      post_id: "post_draft",
+      profiles: ["instagram"],
+      media: [],
+      platforms: { instagram: { format: "reel", cover_url: "/tmp/cover.png" } },
+    });
+    const request = harness.api.requestsTo("/posts/post_draft", "PATCH").at(-1)!;
+    assert.equal(request.fields?.media, "[]");
+    assert.deepEqual(request.files?.map((f) => f.field), ["platforms[instagram][cover_file]"]);
+    assert.deepEqual(draft.media, []);
+  });
+
+  test("post_update with local media refreshes the cached queues it moves the post between", async () => {
+    const weekdays = { ...harness.api.state.queues[0], posts_count: 0 };
+    const h = await createHarness({
+      fixtures: {
+        files: { "/tmp/photo.jpg": new Uint8Array([0xff, 0xd8, 0xff, 0xe0]) },
+        queues: [weekdays, { ...weekdays, id: "queue_2", name: "Weekends" }],
+      },
+    });
+    const postsIn = async (queueId: string) =>
+      (await h.callTool("queues_get", { queue_id: queueId })).structuredContent!.posts_count;
+    try {
+      assert.equal(await postsIn("queue_1"), 0);
+      assert.equal(await postsIn("queue_2"), 0);
+
+      await h.callTool("post_update", { post_id: "post_draft", media: ["/tmp/photo.jpg"], queue_id: "queue_1" });
+      assert.equal(h.api.requestsTo("/posts/post_draft", "PATCH").at(-1)!.fields?.queue_id, "queue_1");
+      assert.equal(await postsIn("queue_1"), 1);
+
+      await h.callTool("post_update", { post_id: "post_draft", media: ["/tmp/photo.jpg"], queue_id: "queue_2" });
+      assert.equal(await postsIn("queue_1"), 0);
+      assert.equal(await postsIn("queue_2"), 1);
+    } finally {
+      await h.close();
+    }
+  });
+
+  test("post_update and post_publish_draft", async () => {
+    const updated = await call("post_update", { post_id: "post_draft", content: "Final copy" });
+    assert.equal(updated.message, "Post updated successfully");
+    assert.equal(harness.api.state.posts.find((p) => p.id === "post_draft")!.body, "Final copy");
+
+    const published = await call("post_publish_draft", { post_id: "post_draft" });
+    assert.equal(published.draft, false);
+    assert.equal(published.status, "pending");
+  });
+
+  test("post_stats and history_list", async () => {
+    const stats = await call("post_stats", { post_ids: ["post_1"] });
+    assert.ok(JSON.stringify(stats).includes("impressions"));
+
+    const history = await call("history_list", { limit: 2 });
+    assert.equal(history.jobs.length, 2);
+
+    const all = await call("history_list", { all: true });
+    assert.equal(all.jobs.length, harness.api.state.posts.length);
+    assert.equal(all.truncated, false);
+    for (const job of all.jobs) {
+      assert.equal(job.overall_status, (await call("post_status", { post_id: job.post_id })).overall_status);
+    }
+  });
+
+  test("post_delete_on_platform and post_delete", async () => {
+    const onPlatform = await call("post_delete_on_platform", { post_id: postId, network: "twitter" });
+    assert.deepEqual(onPlatform.scope, { network: "twitter" });
+    assert.deepEqual(harness.api.requestsTo(`/posts/${postId}/delete_on_platform`)[0].body, { network: "twitter" });
+
+    const deleted = await call("post_delete", { post_id: postId });
+    assert.equal(deleted.deleted, true);
+    assert.equal(harness.api.state.posts.some((p) => p.id === postId), false);
+  });
+});
+
+describe("queues", () => {
+  let queueId: string;
+  const postsIn = async (id: string) => (await call("queues_get", { queue_id: id })).posts_count;
+
+  test("queues_create, queues_get and queues_list", async () => {
+    const created = await call("queues_create", {
+      profile_group_id: "grp_1",
+      name: "Weekends",
+      timeslots: [{ day: 6, time: "10:00" }],
+    });
+    queueId = created.id;
+    assert.equal(created.name, "Weekends");
+
+    const queue = await call("queues_get", { queue_id: queueId });
+    assert.equal(queue.timeslots.length, 1);
+
+    const list = await call("queues_list", { profile_group_id: "grp_1" });
+    assert.deepEqual(list.queues.map((q: any) => q.id), ["queue_1", queueId]);
+  });
+
+  test("post_update into a queue refreshes the cached queues", async () => {
+    const draft = await call("post_publish", { content: "Someday", profiles: ["twitter"], draft: true });
+    const weekdays = await postsIn("queue_1");
+    assert.equal(await postsIn(queueId), 0);
+
+    await call("post_update", { post_id: draft.post_id, queue_id: "queue_1" });
+    assert.equal(harness.api.requestsTo(`/posts/${draft.post_id}`, "PATCH").at(-1)!.body.queue_id, "queue_1");
+    assert.equal(await postsIn("queue_1"), weekdays + 1);
+
+    // The post fetched for the text checks names the queue it's leaving; no other lookup is made
+    await call("post_update", { post_id: draft.post_id, content: "Some weekend", queue_id: queueId });
+    assert.equal(await postsIn("queue_1"), weekdays);
+    assert.equal(await postsIn(queueId), 1);
+    assert.equal(harness.api.requestsTo(`/posts/${draft.post_id}`, "GET").length, 1);
+  });
+
+  test("publishing or deleting a queued post refreshes the cached queue", async () => {
+    const queueReads = () => harness.api.requestsTo("/post_queues/queue_1", "GET").length;
+    const draft = await call("post_publish", { content: "Queued draft", profiles: ["twitter"], draft: true, queue_id: "queue_1" });
+    const queued = await postsIn("queue_1");
+
+    const reads = queueReads();
+    await call("post_publish_draft", { post_id: draft.post_id });
+    assert.equal(await postsIn("queue_1"), queued);
+    assert.equal(queueReads(), reads + 1);
+
+    await call("post_delete", { post_id: draft.post_id });
+    assert.equal(await postsIn("queue_1"), queued - 1);
+  });
+
+  test("queues_update, queues_next_slot and queues_delete", async () => {
+    const updated = await call("queues_update", { queue_id: queueId, enabled: false });
+    assert.equal(updated.enabled, false);
+
+    const next = await call("queues_next_slot", { queue_id: queueId });
+    assert.equal(new Date(next.next_slot).getUTCDay(), 6);
+
+    await call("queues_delete", { queue_id: queueId });
+    const list = await call("queues_list");
+    assert.deepEqual(list.queues.map((q: any) => q.id), ["queue_1"]);
+  });
+});
+
+describe("comments", () => {
+  const target = { post_id: "post_1", profile_id: "prof_tw" };
+
+  test("comments_list, comments_get and comments_create", async () => {
+    const list = await call("comments_list", target);
+    assert.equal(list.total, 1);
+
+    const comment = await call("comments_get", { ...target, comment_id: "cmt_1" });
+    assert.equal(comment.body, "Congrats!");
+
+    const reply = await call("comments_create", { ...target, text: "Thank you!", parent_id: "ext_cmt_1" });
+    assert.equal(reply.status, "pending");
+    assert.equal((await call("comments_list", { ...target, all: true })).data.length, 2);
+  });
+
+  test("hide, unhide, like, unlike and delete", async () => {
+    const comment = () => harness.api.state.comments.post_1.find((c) => c.id === "cmt_1");
+    await call("comments_hide", { ...target, comment_id: "cmt_1" });
+    assert.equal(comment()?.is_hidden, true);
+    await call("comments_unhide", { ...target, comment_id: "cmt_1" });
+    assert.equal(comment()?.is_hidden, false);
+    await call("comments_like", { ...target, comment_id: "cmt_1" });
+    assert.equal(comment()?.like_count, 1);
+    await call("comments_unlike", { ...target, comment_id: "cmt_1" });
+    assert.equal(comment()?.like_count, 0);
+
+    const reply = harness.api.state.comments.post_1[1];
+    await call("comments_delete", { ...target, comment_id: reply.id });
+    assert.equal(harness.api.state.comments.post_1.length, 1);
+  });
+
+  test("profile comments (Google Business reviews)", async () => {
+    const list = await call("profile_comments_list", { profile_id: "prof_gb", placement_id: "accounts/1/locations/2" });
+    assert.equal(list.data[0].id, "rev_1");
+
+    const review = await call("profile_comments_get", { profile_id: "prof_gb", comment_id: "rev_1" });
+    assert.equal(review.platform_data.star_rating, "FIVE");
+
+    const reply = await call("profile_comments_create", { profile_id: "prof_gb", parent_id: "rev_1", text: "Thanks, Jo!" });
+    assert.equal(reply.parent_external_id, "accounts/1/locations/2/reviews/1");
+
+    await call("profile_comments_delete", { profile_id: "prof_gb", comment_id: reply.id });
+    assert.deepEqual(harness.api.state.profileComments.prof_gb[0].replies, []);
+  });
+});
+
+describe("direct messages", () => {
+  let chatId: string;
+  let messageId: string;
+
+  test("dm_chats_list, dm_chat_create and dm_chat_get", async () => {
+    const list = await call("dm_chats_list", { profile_id: "prof_ig" });
+    assert.deepEqual(list.data.map((c: any) => c.id), ["chat_1"]);
+
+    const chat = await call("dm_chat_create", { profile_id: "prof_ig", participant_external_id: "user_42", participant_username: "newfan" });
+    chatId = chat.id;
+    assert.equal(chat.participant_username, "newfan");
+
+    assert.equal((await call("dm_chat_get", { chat_id: chatId })).platform, "instagram");
+  });
+
+  test("dm_message_send, dm_messages_list and dm_message_get", async () => {
+    const sent = await call("dm_message_send", { chat_id: chatId, body: "Hi there" });
+    messageId = sent.id;
+    assert.equal(sent.direction, "outbound");
+
+    const withMedia = await call("dm_message_send", { chat_id: chatId, media: ["/tmp/photo.jpg"] });
+    assert.equal(withMedia.attachments.length, 1);
+    const multipart = harness.api.requestsTo(`/chats/${chatId}/messages`, "POST").at(-1)!;
+    assert.equal(multipart.files?.[0].name, "photo.jpg");
+
+    const list = await call("dm_messages_list", { chat_id: chatId, direction: "outbound", all: true });
+    assert.equal(list.data.length, 2);
+
+    assert.equal((await call("dm_message_get", { message_id: messageId })).body, "Hi there");
+  });
+
+  test("dm_message_edit, dm_message_react and dm_message_unreact", async () => {
+    assert.equal((await call("dm_message_edit", { message_id: messageId, body: "Hi!" })).body, "Hi!");
+    assert.equal((await call("dm_message_react", { message_id: "msg_1", emoji: "👍" })).reactions[0].emoji, "👍");
+    assert.deepEqual((await call("dm_message_unreact", { message_id: "msg_1" })).reactions, []);
+  });
+
+  test("dm_chat_archive, dm_chat_unarchive and dm_comment_private_reply", async () => {
+    assert.equal((await call("dm_chat_archive", { chat_id: chatId })).archived, true);
+    assert.equal((await call("dm_chat_unarchive", { chat_id: chatId })).archived, false);
+
+    const reply = await call("dm_comment_private_reply", { post_id: "post_1", comment_id: "cmt_1", profile_id: "prof_ig", text: "DMing you" });
+    assert.equal(reply.chat_id, "chat_1");
+    assert.equal(reply.body, "DMing you");
+  });
+});
+
+test("every tool was exercised", () => {
+  const missing = TOOL_DEFINITIONS.map((t) => t.name).filter((name) => !called.has(name));
+  assert.deepEqual(missing, []);
+});
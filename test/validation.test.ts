@@ -0,0 +1,90 @@
+/**
+ * Platform parameter validation: required placements and Google Business cross-field rules
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { z } from "zod";
+import { GoogleBusinessParamsSchema, TelegramParamsSchema } from "../src/utils/validation.js";
+
+const LOCATION = "accounts/123/locations/456";
+
+/**
+ * Issue messages keyed by field path, or [] when the params are valid
+ */
+function issues(schema: z.ZodTypeAny, params: unknown): string[] {
+  const result = schema.safeParse(params);
+  return result.success ? [] : result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+}
+
+test("Telegram needs a non-empty chat_id", () => {
+  assert.deepEqual(issues(TelegramParamsSchema, { chat_id: "-100123", parse_mode: "HTML" }), []);
+  assert.deepEqual(issues(TelegramParamsSchema, {}), [
+    "chat_id: Telegram chat_id is required (get it from profiles_placements)",
+  ]);
+  assert.deepEqual(issues(TelegramParamsSchema, { chat_id: "" }), ["chat_id: Telegram chat_id cannot be empty"]);
+});
+
+test("Google Business needs a full location resource path", () => {
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { location_id: LOCATION }), []);
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, {}), [
+    "location_id: Google Business location_id is required (get it from profiles_placements)",
+  ]);
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { location_id: "456" }), [
+    "location_id: Google Business location_id must be a full resource path 'accounts/X/locations/Y'",
+  ]);
+});
+
+test("Google Business events need a title and a date window in order", () => {
+  const event = {
+    location_id: LOCATION,
+    format: "event",
+    event_title: "Launch party",
+    event_start_date: "2026-11-01",
+    event_end_date: "2026-11-02",
+    event_start_time: "18:00",
+  };
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, event), []);
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { location_id: LOCATION, format: "event" }), [
+    "event_title: Google Business event posts require event_title",
+    "event_start_date: Google Business event posts require event_start_date",
+    "event_end_date: Google Business event posts require event_end_date",
+  ]);
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { ...event, event_end_date: "2026-10-31" }), [
+    "event_end_date: Google Business event_end_date must not be before event_start_date",
+  ]);
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { location_id: LOCATION, event_start_date: "2026-11-01" }), [
+    "event_start_date: Google Business event_start_date is only valid for format 'event' or 'offer'",
+  ]);
+});
+
+test("Google Business offers need a date window and at least one offer detail", () => {
+  const offer = {
+    location_id: LOCATION,
+    format: "offer",
+    event_start_date: "2026-11-01",
+    event_end_date: "2026-11-30",
+    offer_coupon_code: "FALL20",
+  };
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, offer), []);
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { ...offer, offer_coupon_code: undefined }), [
+    "offer_coupon_code: Google Business offer posts require at least one of offer_coupon_code, offer_redeem_url or offer_terms",
+  ]);
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { ...offer, format: "event", event_title: "Sale" }), [
+    "offer_coupon_code: Google Business offer_coupon_code is only valid for format 'offer'",
+  ]);
+});
+
+test("Google Business call-to-action buttons need a URL unless they call", () => {
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { location_id: LOCATION, cta_action_type: "CALL" }), []);
+  assert.deepEqual(
+    issues(GoogleBusinessParamsSchema, { location_id: LOCATION, cta_action_type: "BOOK", cta_url: "https://acme.example/book" }),
+    []
+  );
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { location_id: LOCATION, cta_action_type: "BOOK" }), [
+    "cta_url: Google Business cta_url is required for cta_action_type 'BOOK'",
+  ]);
+  assert.deepEqual(issues(GoogleBusinessParamsSchema, { location_id: LOCATION, cta_url: "https://acme.example" }), [
+    "cta_action_type: Google Business cta_action_type is required when cta_url is set",
+  ]);
+});
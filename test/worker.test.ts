@@ -0,0 +1,86 @@
+/**
+ * Cloudflare Worker JSON-RPC endpoint, with "cloudflare:workers" stubbed and the
+ * Worker's global fetch routed to the fake API
+ */
+
+import { after, before, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { register } from "node:module";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { PostProxyClient } from "../src/api/client.js";
+import { RESOURCE_NOT_FOUND } from "../src/resources/index.js";
+import { FakePostProxyApi, FAKE_API_KEY } from "./fake-api.js";
+
+// Resolve "cloudflare:workers" to a minimal WorkerEntrypoint (typed in cloudflare-workers.d.ts)
+const stub = "export class WorkerEntrypoint { constructor(ctx, env) { this.ctx = ctx; this.env = env; } }";
+register(
+  "data:text/javascript," +
+    encodeURIComponent(
+      `export async function resolve(specifier, context, next) {
+        return specifier === "cloudflare:workers"
+          ? { url: ${JSON.stringify(`data:text/javascript,${encodeURIComponent(stub)}`)}, shortCircuit: true }
+          : next(specifier, context);
+      }`
+    )
+);
+const { default: PostProxyMCP } = await import("../worker/index.js");
+
+const api = new FakePostProxyApi();
+const worker = new PostProxyMCP({}, { POSTPROXY_BASE_URL: api.baseUrl, POSTPROXY_APP_URL: "https://app.example" });
+
+before(() => {
+  mock.method(globalThis, "fetch", api.fetch);
+});
+
+after(() => {
+  mock.restoreAll();
+});
+
+async function rpc(method: string, params: Record<string, unknown> = {}) {
+  const response = await worker.fetch(
+    new Request("https://mcp.example/mcp", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${FAKE_API_KEY}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+    })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+test("resources/list lists the workspace's profiles and queues", async () => {
+  const { status, body } = await rpc("resources/list");
+  assert.equal(status, 200);
+  assert.ok(body.result.resources.some((r: any) => r.uri === "postproxy://profiles/prof_tw"));
+  assert.ok(body.result.resources.some((r: any) => r.uri === "postproxy://queues/queue_1"));
+});
+
+test("a failing resources/list is an internal error, not a parse error", async () => {
+  // Failed listings are already caught inside listResources, so break it with a response it can't iterate
+  const getProfiles = mock.method(PostProxyClient.prototype, "getProfiles", async () => null);
+  try {
+    const { status, body } = await rpc("resources/list");
+    assert.equal(status, 200);
+    assert.equal(body.id, 1);
+    assert.equal(body.error.code, ErrorCode.InternalError);
+    assert.equal(body.error.data.code, "API_ERROR");
+    assert.equal(body.error.message, body.error.data.message);
+  } finally {
+    getProfiles.mock.restore();
+  }
+});
+
+test("protocol errors keep their JSON-RPC code; other failures are internal errors", async () => {
+  const unknownPrompt = await rpc("prompts/get", { name: "nope" });
+  assert.equal(unknownPrompt.body.error.code, ErrorCode.InvalidParams);
+  assert.match(unknownPrompt.body.error.message, /Unknown prompt: nope/);
+
+  const missingResource = await rpc("resources/read", { uri: "postproxy://posts/nope" });
+  assert.equal(missingResource.body.error.code, RESOURCE_NOT_FOUND);
+
+  // No ref: completeArgument fails with a TypeError
+  const { status, body } = await rpc("completion/complete", { argument: { name: "profile_id", value: "" } });
+  assert.equal(status, 200);
+  assert.equal(body.error.code, ErrorCode.InternalError);
+  assert.equal(body.error.data.code, "API_ERROR");
+  assert.equal(body.error.message, body.error.data.message);
+});
@@ -2,15 +2,23 @@
  * PostProxy MCP - Cloudflare Worker Entry Point
  *
  * This worker provides MCP functionality via streamable HTTP transport.
- * It imports shared TOOL_DEFINITIONS (with annotations) from the main MCP server.
+ * It imports shared TOOL_DEFINITIONS (with annotations) from the main MCP server
+ * and dispatches tool calls into the same handlers (src/tools) as the stdio server.
+ * Local file paths are not readable here, so the client is created without file access.
  *
  * API key is passed via Authorization header (Bearer token) from the client.
  */
 
 import { WorkerEntrypoint } from "cloudflare:workers";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { TOOL_DEFINITIONS } from "../src/server.js";
+import { PostProxyClient, PACKAGE_VERSION } from "../src/api/client.js";
+import { callTool, errorResult, type ToolResult } from "../src/tools/index.js";
+import { listResources, readResource, RESOURCE_TEMPLATE_DEFINITIONS } from "../src/resources/index.js";
+import { getPrompt, PROMPT_DEFINITIONS } from "../src/prompts/index.js";
+import { completeArgument } from "../src/completions/index.js";
+import { describeToolError } from "../src/utils/errors.js";
 
-const PACKAGE_VERSION = "1.11.0";
 const USER_AGENT = `postproxy-mcp/${PACKAGE_VERSION} (cloudflare-worker)`;
 
 interface Env {
@@ -18,1097 +26,31 @@ interface Env {
   POSTPROXY_APP_URL: string;
 }
 
-interface ProfileGroup {
-  id: string;
-  name: string;
-  profiles_count: number;
-}
-
-interface Profile {
-  id: string;
-  name: string;
-  platform: string;
-  profile_group_id: string;
-}
-
-interface PlatformErrorDetails {
-  platform_error_code: string | null;
-  platform_error_subcode: string | null;
-  platform_error_message: string | null;
-  postproxy_note: string | null;
-}
-
-interface PlatformOutcome {
-  platform: string;
-  status: "pending" | "processing" | "published" | "failed" | "deleted";
-  url?: string;
-  post_id?: string;
-  error?: string | null;
-  error_details?: PlatformErrorDetails | null;
-  attempted_at: string | null;
-  insights?: any;
-}
-
-interface MediaPlatformError {
-  platform: string;
-  status: string;
-  error: string;
-  error_details?: PlatformErrorDetails | null;
-}
-
-interface MediaAttachment {
-  id: string;
-  status: "pending" | "processed" | "failed";
-  error_message: string | null;
-  content_type: string;
-  source_url: string | null;
-  url: string | null;
-  platforms?: MediaPlatformError[];
-}
-
-interface Post {
-  id: string;
-  body?: string;
-  content?: string;
-  status: "draft" | "pending" | "processing" | "processed" | "scheduled" | "media_processing_failed";
-  draft: boolean;
-  scheduled_at: string | null;
-  created_at: string;
-  media?: MediaAttachment[];
-  platforms: PlatformOutcome[];
-  thread?: Array<{ id: string; body: string; media?: MediaAttachment[] }>;
-}
-
 export default class PostProxyMCP extends WorkerEntrypoint<Env> {
   private apiKey: string | null = null;
 
-  private getApiKey(): string {
-    if (!this.apiKey) {
-      throw new Error("API key not configured. Pass Authorization: Bearer <token> header.");
-    }
-    return this.apiKey;
-  }
-
-  private async apiRequest<T>(
-    method: string,
-    path: string,
-    body?: any,
-    extraHeaders?: Record<string, string>
-  ): Promise<T> {
-    const baseUrl = this.env.POSTPROXY_BASE_URL.replace(/\/$/, "");
-    const url = `${baseUrl}${path}`;
-
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${this.getApiKey()}`,
-      "Content-Type": "application/json",
-      Accept: "application/json",
-      "User-Agent": USER_AGENT,
-    };
-
-    if (extraHeaders) {
-      Object.assign(headers, extraHeaders);
-    }
-
-    const options: RequestInit = { method, headers };
-
-    if (body && (method === "POST" || method === "PUT" || method === "PATCH")) {
-      options.body = JSON.stringify(body);
-    }
-
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      let errorMessage = `API request failed with status ${response.status}`;
-      try {
-        const errorBody = (await response.json()) as any;
-        if (Array.isArray(errorBody.errors)) {
-          errorMessage = errorBody.errors.join("; ");
-        } else if (errorBody.message) {
-          errorMessage = errorBody.message;
-        } else if (errorBody.error) {
-          errorMessage = typeof errorBody.error === "string" ? errorBody.error : errorMessage;
-        }
-      } catch {
-        errorMessage = response.statusText || errorMessage;
-      }
-      throw new Error(errorMessage);
-    }
-
-    const contentType = response.headers.get("content-type");
-    if (contentType && contentType.includes("application/json")) {
-      return (await response.json()) as T;
-    }
-
-    return {} as T;
-  }
-
-  private extractArray<T>(response: any): T[] {
-    if (Array.isArray(response)) return response;
-    if (response && typeof response === "object" && Array.isArray(response.data)) return response.data;
-    return [];
-  }
-
-  private async getAllProfiles(groupId?: string): Promise<Profile[]> {
-    const groupIds: string[] = groupId
-      ? [groupId]
-      : this.extractArray<ProfileGroup>(
-          await this.apiRequest<any>("GET", "/profile_groups/")
-        ).map((g) => g.id);
-
-    const allProfiles: Profile[] = [];
-    for (const id of groupIds) {
-      const profilesResponse = await this.apiRequest<any>(
-        "GET",
-        `/profiles?profile_group_id=${encodeURIComponent(id)}`
-      );
-      const profiles = this.extractArray<Profile>(profilesResponse);
-      allProfiles.push(...profiles);
-    }
-
-    return allProfiles;
-  }
-
-  private getMimeType(filename: string): string {
-    const ext = filename.toLowerCase().split(".").pop();
-    const mimeTypes: Record<string, string> = {
-      jpg: "image/jpeg",
-      jpeg: "image/jpeg",
-      png: "image/png",
-      gif: "image/gif",
-      webp: "image/webp",
-      mp4: "video/mp4",
-      mov: "video/quicktime",
-      avi: "video/x-msvideo",
-      webm: "video/webm",
-    };
-    return mimeTypes[ext || ""] || "application/octet-stream";
-  }
-
-  private async generateIdempotencyKey(
-    content: string,
-    targets: string[],
-    schedule?: string
-  ): Promise<string> {
-    const data = JSON.stringify({
-      content: content.trim(),
-      targets: [...targets].sort(),
-      schedule: schedule || "",
+  private createClient(): PostProxyClient {
+    return new PostProxyClient(this.apiKey ?? "", this.env.POSTPROXY_BASE_URL, {
+      userAgent: USER_AGENT,
     });
-
-    const encoder = new TextEncoder();
-    const hashBuffer = await crypto.subtle.digest("SHA-256", encoder.encode(data));
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
-  }
-
-  private determineOverallStatus(
-    post: Post
-  ): "pending" | "processing" | "complete" | "failed" | "draft" | "media_processing_failed" {
-    if (post.status === "media_processing_failed") return "media_processing_failed";
-    if (post.status === "draft" || post.draft === true) return "draft";
-    if (post.status === "scheduled") return "pending";
-    if (post.status === "processing") return "processing";
-    if (post.status === "processed") {
-      const platforms = post.platforms || [];
-      if (platforms.length === 0) return "pending";
-      const allPublished = platforms.every((p) => p.status === "published");
-      const allFailed = platforms.every((p) => p.status === "failed");
-      const anyPending = platforms.some((p) => p.status === "pending" || p.status === "processing");
-      if (anyPending) return "processing";
-      if (allPublished) return "complete";
-      if (allFailed) return "failed";
-      return "complete";
-    }
-    return "pending";
-  }
-
-  // ─── Tool Handlers ─────────────────────────────────────────────────
-
-  private async handleAuthStatus(): Promise<string> {
-    const hasApiKey = !!this.apiKey;
-    const result: any = {
-      authenticated: hasApiKey,
-      base_url: this.env.POSTPROXY_BASE_URL,
-    };
-
-    if (hasApiKey) {
-      try {
-        const groupsResponse = await this.apiRequest<any>("GET", "/profile_groups/");
-        const groups = this.extractArray<ProfileGroup>(groupsResponse);
-        result.profile_groups_count = groups.length;
-      } catch {
-        // Ignore errors
-      }
-    }
-
-    return JSON.stringify(result, null, 2);
-  }
-
-  private async handleProfilesList(args: any = {}): Promise<string> {
-    this.getApiKey();
-    const profiles = await this.getAllProfiles(args?.profile_group_id);
-    const targets = profiles.map((profile) => ({
-      id: profile.id,
-      name: profile.name,
-      platform: profile.platform,
-      profile_group_id: profile.profile_group_id,
-    }));
-    return JSON.stringify({ targets }, null, 2);
-  }
-
-  private async handleProfileGroupsList(): Promise<string> {
-    this.getApiKey();
-    const response = await this.apiRequest<any>("GET", "/profile_groups/");
-    const profileGroups = this.extractArray<ProfileGroup>(response);
-    return JSON.stringify({ profile_groups: profileGroups }, null, 2);
-  }
-
-  private async handleProfileGroupsInitializeConnection(args: any): Promise<string> {
-    this.getApiKey();
-    const { profile_group_id, platform, identifier, app_password, bot_token } = args || {};
-    if (!profile_group_id) throw new Error("profile_group_id is required");
-    if (!platform) throw new Error("platform is required");
-    if (platform === "bluesky" && (!identifier || !app_password)) {
-      throw new Error("identifier and app_password are required for bluesky");
-    }
-    if (platform === "telegram" && !bot_token) {
-      throw new Error("bot_token is required for telegram");
-    }
-
-    // MCP has no browser to redirect back to, so we never send redirect_url and
-    // always force the API to return a URL the user opens manually.
-    const body: Record<string, unknown> = { platform, force_no_redirect: true };
-    if (identifier) body.identifier = identifier;
-    if (app_password) body.app_password = app_password;
-    if (bot_token) body.bot_token = bot_token;
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/profile_groups/${encodeURIComponent(profile_group_id)}/initialize_connection`,
-      body
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleUploadCreate(): Promise<string> {
-    this.getApiKey();
-    const upload = await this.apiRequest<any>("POST", "/uploads");
-    return JSON.stringify(upload, null, 2);
-  }
-
-  private async handlePostPublish(args: any): Promise<string> {
-    this.getApiKey();
-
-    const content: string = args.content;
-    const profileIds: string[] = args.profiles;
-    const schedule: string | undefined = args.schedule;
-    const mediaUrls: string[] = args.media || [];
-    const idempotencyKey: string | undefined = args.idempotency_key;
-    const requireConfirmation: boolean | undefined = args.require_confirmation;
-    const draft: boolean | undefined = args.draft;
-    const platformParams: Record<string, any> | undefined = args.platforms;
-    const threadChildren: Array<{ body: string; media?: string[] }> | undefined = args.thread;
-    const queueId: string | undefined = args.queue_id;
-    const queuePriority: string | undefined = args.queue_priority;
-
-    if (!content || content.trim() === "") throw new Error("Content cannot be empty");
-    if (!profileIds || profileIds.length === 0) throw new Error("At least one profile is required");
-
-    if (requireConfirmation) {
-      return JSON.stringify(
-        {
-          summary: {
-            profiles: profileIds,
-            content_preview: content.substring(0, 100) + (content.length > 100 ? "..." : ""),
-            media_count: mediaUrls.length,
-            schedule_time: schedule,
-            draft: draft || false,
-            platforms: platformParams || {},
-            thread: threadChildren || [],
-          },
-        },
-        null,
-        2
-      );
-    }
-
-    const finalIdempotencyKey =
-      idempotencyKey || (await this.generateIdempotencyKey(content, profileIds, schedule));
-
-    const apiPayload: any = {
-      post: { body: content },
-      profiles: profileIds,
-      media: mediaUrls,
-    };
-
-    if (schedule) apiPayload.post.scheduled_at = schedule;
-    if (draft !== undefined) apiPayload.post.draft = draft;
-    if (platformParams && Object.keys(platformParams).length > 0) apiPayload.platforms = platformParams;
-    if (threadChildren && threadChildren.length > 0) apiPayload.thread = threadChildren;
-    if (queueId) {
-      apiPayload.queue_id = queueId;
-      if (queuePriority) apiPayload.queue_priority = queuePriority;
-    }
-
-    const extraHeaders: Record<string, string> = { "Idempotency-Key": finalIdempotencyKey };
-    const response = await this.apiRequest<any>("POST", "/posts", apiPayload, extraHeaders);
-
-    const wasDraftRequested = draft === true;
-    const isDraftInResponse = Boolean(response.draft) === true;
-    const wasProcessedImmediately = response.status === "processed" && wasDraftRequested;
-    const draftIgnored = wasDraftRequested && (!isDraftInResponse || wasProcessedImmediately);
-
-    const responseData: any = {
-      post_id: response.id,
-      status: response.status,
-      draft: response.draft,
-      scheduled_at: response.scheduled_at,
-      created_at: response.created_at,
-    };
-
-    if (draftIgnored) {
-      responseData.warning =
-        "Warning: Draft was requested but API returned draft: false. The post may have been processed immediately.";
-    }
-
-    return JSON.stringify(responseData, null, 2);
-  }
-
-  private async handlePostStatus(args: any): Promise<string> {
-    const { post_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-
-    const postDetails = await this.apiRequest<Post>("GET", `/posts/${post_id}`);
-
-    const platforms = (postDetails.platforms || []).map((platform) => ({
-      platform: platform.platform,
-      status: platform.status,
-      url: platform.url,
-      post_id: platform.post_id,
-      error: platform.error || null,
-      error_details: platform.error_details ?? null,
-      attempted_at: platform.attempted_at,
-      insights: platform.insights,
-    }));
-
-    const result: any = {
-      post_id,
-      overall_status: this.determineOverallStatus(postDetails),
-      draft: postDetails.draft || false,
-      status: postDetails.status,
-      platforms,
-    };
-
-    if (postDetails.media && postDetails.media.length > 0) result.media = postDetails.media;
-    if (postDetails.thread && postDetails.thread.length > 0) result.thread = postDetails.thread;
-
-    return JSON.stringify(result, null, 2);
-  }
-
-  private async handlePostPublishDraft(args: any): Promise<string> {
-    const { post_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-
-    const postDetails = await this.apiRequest<Post>("GET", `/posts/${post_id}`);
-    if (!postDetails.draft && postDetails.status !== "draft") {
-      throw new Error(`Post ${post_id} is not a draft and cannot be published using this endpoint`);
-    }
-
-    const publishedPost = await this.apiRequest<Post>("POST", `/posts/${post_id}/publish`);
-    return JSON.stringify(
-      {
-        post_id: publishedPost.id,
-        status: publishedPost.status,
-        draft: publishedPost.draft,
-        scheduled_at: publishedPost.scheduled_at,
-        created_at: publishedPost.created_at,
-        message: "Draft post published successfully",
-      },
-      null,
-      2
-    );
-  }
-
-  private async handlePostUpdate(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-
-    const apiPayload: any = {};
-    const postObj: any = {};
-
-    if (args.content !== undefined) postObj.body = args.content;
-    if (args.schedule !== undefined) postObj.scheduled_at = args.schedule;
-    if (args.draft !== undefined) postObj.draft = args.draft;
-    if (Object.keys(postObj).length > 0) apiPayload.post = postObj;
-
-    if (args.profiles !== undefined) apiPayload.profiles = args.profiles;
-    if (args.platforms !== undefined) apiPayload.platforms = args.platforms;
-    if (args.media !== undefined) apiPayload.media = args.media;
-    if (args.thread !== undefined) apiPayload.thread = args.thread;
-
-    if (args.queue_id !== undefined) {
-      apiPayload.queue_id = args.queue_id;
-      if (args.queue_priority) apiPayload.queue_priority = args.queue_priority;
-    }
-
-    const response = await this.apiRequest<Post>("PATCH", `/posts/${post_id}`, apiPayload);
-
-    return JSON.stringify(
-      {
-        post_id: response.id,
-        status: response.status,
-        draft: response.draft,
-        scheduled_at: response.scheduled_at,
-        created_at: response.created_at,
-        message: "Post updated successfully",
-      },
-      null,
-      2
-    );
-  }
-
-  private async handlePostDelete(args: any): Promise<string> {
-    const { post_id, delete_on_platform } = args;
-    if (!post_id) throw new Error("post_id is required");
-    const query = delete_on_platform ? "?delete_on_platform=true" : "";
-    await this.apiRequest<void>("DELETE", `/posts/${post_id}${query}`);
-    return JSON.stringify(
-      { post_id, deleted: true, delete_on_platform: delete_on_platform || false },
-      null,
-      2
-    );
-  }
-
-  private async handlePostDeleteOnPlatform(args: any): Promise<string> {
-    const { post_id, post_profile_id, profile_id, network } = args;
-    if (!post_id) throw new Error("post_id is required");
-
-    const body: Record<string, string> = {};
-    if (post_profile_id) body.post_profile_id = post_profile_id;
-    if (profile_id) body.profile_id = profile_id;
-    if (network) body.network = network;
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/posts/${post_id}/delete_on_platform`,
-      body
-    );
-
-    const scope = post_profile_id
-      ? { post_profile_id }
-      : profile_id
-        ? { profile_id }
-        : network
-          ? { network }
-          : "all";
-
-    return JSON.stringify({ post_id, scope, accepted: true, response }, null, 2);
-  }
-
-  private async handleHistoryList(args: any): Promise<string> {
-    const limit = args?.limit || 10;
-    const response = await this.apiRequest<any>("GET", `/posts?per_page=${limit}`);
-    const posts = this.extractArray<Post>(response);
-
-    const jobs = posts.map((post) => {
-      const content = post.body || post.content || "";
-      return {
-        post_id: post.id,
-        content_preview: content.substring(0, 100) + (content.length > 100 ? "..." : ""),
-        created_at: post.created_at,
-        overall_status: this.determineOverallStatus(post),
-        draft: post.draft || false,
-        platforms_count: post.platforms?.length || 0,
-      };
-    });
-
-    return JSON.stringify({ jobs }, null, 2);
-  }
-
-  private async handlePostStats(args: any): Promise<string> {
-    const postIds: string[] = args.post_ids;
-    if (!postIds || postIds.length === 0) throw new Error("post_ids is required");
-    if (postIds.length > 50) throw new Error("Maximum 50 post IDs allowed");
-
-    const queryParams = new URLSearchParams();
-    queryParams.append("post_ids", postIds.join(","));
-    if (args.profiles) queryParams.append("profiles", args.profiles);
-    if (args.from) queryParams.append("from", args.from);
-    if (args.to) queryParams.append("to", args.to);
-
-    const response = await this.apiRequest<any>("GET", `/posts/stats?${queryParams.toString()}`);
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleProfilesPlacements(args: any): Promise<string> {
-    const { profile_id } = args;
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const response = await this.apiRequest<any>("GET", `/profiles/${profile_id}/placements`);
-    const placements = this.extractArray<{ id: string | null; name: string }>(response);
-    return JSON.stringify({ placements }, null, 2);
-  }
-
-  private async handleProfilesStats(args: any): Promise<string> {
-    const { profile_id, placement_id, from, to } = args;
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const queryParams = new URLSearchParams();
-    if (placement_id) queryParams.append("placement_id", placement_id);
-    if (from) queryParams.append("from", from);
-    if (to) queryParams.append("to", to);
-
-    const qs = queryParams.toString();
-    const path = `/profiles/${profile_id}/stats${qs ? `?${qs}` : ""}`;
-    const response = await this.apiRequest<any>("GET", path);
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleQueuesList(args: any): Promise<string> {
-    this.getApiKey();
-    const path = args?.profile_group_id
-      ? `/post_queues?profile_group_id=${args.profile_group_id}`
-      : "/post_queues";
-    const response = await this.apiRequest<any>("GET", path);
-    const queues = this.extractArray<any>(response);
-    return JSON.stringify({ queues }, null, 2);
   }
 
-  private async handleQueuesGet(args: any): Promise<string> {
-    const { queue_id } = args;
-    if (!queue_id) throw new Error("queue_id is required");
-    const queue = await this.apiRequest<any>("GET", `/post_queues/${queue_id}`);
-    return JSON.stringify(queue, null, 2);
-  }
-
-  private async handleQueuesCreate(args: any): Promise<string> {
-    this.getApiKey();
-    const { profile_group_id, name } = args;
-    if (!profile_group_id) throw new Error("profile_group_id is required");
-    if (!name) throw new Error("name is required");
-
-    const apiPayload: any = {
-      profile_group_id,
-      post_queue: { name },
-    };
-    if (args.description !== undefined) apiPayload.post_queue.description = args.description;
-    if (args.timezone) apiPayload.post_queue.timezone = args.timezone;
-    if (args.jitter !== undefined) apiPayload.post_queue.jitter = args.jitter;
-    if (args.timeslots && Array.isArray(args.timeslots)) {
-      apiPayload.post_queue.queue_timeslots_attributes = args.timeslots;
-    }
-
-    const queue = await this.apiRequest<any>("POST", "/post_queues", apiPayload);
-    return JSON.stringify({ ...queue, message: "Queue created successfully" }, null, 2);
-  }
-
-  private async handleQueuesUpdate(args: any): Promise<string> {
-    this.getApiKey();
-    const { queue_id } = args;
-    if (!queue_id) throw new Error("queue_id is required");
-
-    const apiPayload: any = { post_queue: {} };
-    if (args.name !== undefined) apiPayload.post_queue.name = args.name;
-    if (args.description !== undefined) apiPayload.post_queue.description = args.description;
-    if (args.timezone !== undefined) apiPayload.post_queue.timezone = args.timezone;
-    if (args.enabled !== undefined) apiPayload.post_queue.enabled = args.enabled;
-    if (args.jitter !== undefined) apiPayload.post_queue.jitter = args.jitter;
-    if (args.timeslots && Array.isArray(args.timeslots)) {
-      apiPayload.post_queue.queue_timeslots_attributes = args.timeslots;
-    }
-
-    const queue = await this.apiRequest<any>("PATCH", `/post_queues/${queue_id}`, apiPayload);
-    return JSON.stringify({ ...queue, message: "Queue updated successfully" }, null, 2);
-  }
-
-  private async handleQueuesDelete(args: any): Promise<string> {
-    this.getApiKey();
-    const { queue_id } = args;
-    if (!queue_id) throw new Error("queue_id is required");
-    await this.apiRequest<void>("DELETE", `/post_queues/${queue_id}`);
-    return JSON.stringify({ queue_id, deleted: true }, null, 2);
-  }
-
-  private async handleQueuesNextSlot(args: any): Promise<string> {
-    this.getApiKey();
-    const { queue_id } = args;
-    if (!queue_id) throw new Error("queue_id is required");
-    const result = await this.apiRequest<any>("GET", `/post_queues/${queue_id}/next_slot`);
-    return JSON.stringify(result, null, 2);
-  }
-
-  private async handleCommentsList(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, profile_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const params = new URLSearchParams();
-    params.append("profile_id", profile_id);
-    if (args.page !== undefined) params.append("page", String(args.page));
-    if (args.per_page !== undefined) params.append("per_page", String(args.per_page));
-
-    const response = await this.apiRequest<any>("GET", `/posts/${post_id}/comments?${params.toString()}`);
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleCommentsGet(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, comment_id, profile_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const response = await this.apiRequest<any>(
-      "GET",
-      `/posts/${post_id}/comments/${comment_id}?profile_id=${profile_id}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleCommentsCreate(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, profile_id, text, parent_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-    if (!text) throw new Error("text is required");
-
-    const body: any = { text };
-    if (parent_id) body.parent_id = parent_id;
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/posts/${post_id}/comments?profile_id=${profile_id}`,
-      body
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleCommentsDelete(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, comment_id, profile_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const response = await this.apiRequest<any>(
-      "DELETE",
-      `/posts/${post_id}/comments/${comment_id}?profile_id=${profile_id}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleCommentsHide(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, comment_id, profile_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/posts/${post_id}/comments/${comment_id}/hide?profile_id=${profile_id}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleCommentsUnhide(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, comment_id, profile_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/posts/${post_id}/comments/${comment_id}/unhide?profile_id=${profile_id}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleCommentsLike(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, comment_id, profile_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/posts/${post_id}/comments/${comment_id}/like?profile_id=${profile_id}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleCommentsUnlike(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, comment_id, profile_id } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/posts/${post_id}/comments/${comment_id}/unlike?profile_id=${profile_id}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleProfileCommentsList(args: any): Promise<string> {
-    this.getApiKey();
-    const { profile_id } = args;
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const params = new URLSearchParams();
-    if (args.placement_id) params.append("placement_id", String(args.placement_id));
-    if (args.page !== undefined) params.append("page", String(args.page));
-    if (args.per_page !== undefined) params.append("per_page", String(args.per_page));
-    const qs = params.toString();
-
-    const response = await this.apiRequest<any>(
-      "GET",
-      `/profiles/${profile_id}/comments${qs ? `?${qs}` : ""}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleProfileCommentsGet(args: any): Promise<string> {
-    this.getApiKey();
-    const { profile_id, comment_id } = args;
-    if (!profile_id) throw new Error("profile_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-
-    const response = await this.apiRequest<any>(
-      "GET",
-      `/profiles/${profile_id}/comments/${encodeURIComponent(comment_id)}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleProfileCommentsCreate(args: any): Promise<string> {
-    this.getApiKey();
-    const { profile_id, parent_id, text } = args;
-    if (!profile_id) throw new Error("profile_id is required");
-    if (!parent_id) throw new Error("parent_id is required");
-    if (!text) throw new Error("text is required");
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/profiles/${profile_id}/comments`,
-      { parent_id, text }
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleProfileCommentsDelete(args: any): Promise<string> {
-    this.getApiKey();
-    const { profile_id, comment_id } = args;
-    if (!profile_id) throw new Error("profile_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-
-    const response = await this.apiRequest<any>(
-      "DELETE",
-      `/profiles/${profile_id}/comments/${encodeURIComponent(comment_id)}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  // ─── Direct Messages ───────────────────────────────────────────────
-
-  private async handleDmChatsList(args: any): Promise<string> {
-    this.getApiKey();
-    const { profile_id } = args;
-    if (!profile_id) throw new Error("profile_id is required");
-
-    const params = new URLSearchParams();
-    if (args.page !== undefined) params.append("page", String(args.page));
-    if (args.per_page !== undefined) params.append("per_page", String(args.per_page));
-    if (args.before) params.append("before", String(args.before));
-    if (args.after) params.append("after", String(args.after));
-    const qs = params.toString();
-
-    const response = await this.apiRequest<any>(
-      "GET",
-      `/profiles/${profile_id}/chats${qs ? `?${qs}` : ""}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmChatCreate(args: any): Promise<string> {
-    this.getApiKey();
-    const { profile_id, participant_external_id, participant_username, participant_name } = args;
-    if (!profile_id) throw new Error("profile_id is required");
-    if (!participant_external_id) throw new Error("participant_external_id is required");
-
-    const body: any = { participant_external_id };
-    if (participant_username) body.participant_username = participant_username;
-    if (participant_name) body.participant_name = participant_name;
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/profiles/${profile_id}/chats`,
-      body
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmChatGet(args: any): Promise<string> {
-    this.getApiKey();
-    const { chat_id } = args;
-    if (!chat_id) throw new Error("chat_id is required");
-
-    const response = await this.apiRequest<any>(
-      "GET",
-      `/chats/${encodeURIComponent(chat_id)}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmMessagesList(args: any): Promise<string> {
-    this.getApiKey();
-    const { chat_id } = args;
-    if (!chat_id) throw new Error("chat_id is required");
-
-    const params = new URLSearchParams();
-    if (args.page !== undefined) params.append("page", String(args.page));
-    if (args.per_page !== undefined) params.append("per_page", String(args.per_page));
-    if (args.direction) params.append("direction", String(args.direction));
-    if (args.status) params.append("status", String(args.status));
-    const qs = params.toString();
-
-    const response = await this.apiRequest<any>(
-      "GET",
-      `/chats/${encodeURIComponent(chat_id)}/messages${qs ? `?${qs}` : ""}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmMessageSend(args: any): Promise<string> {
-    this.getApiKey();
-    const { chat_id } = args;
-    if (!chat_id) throw new Error("chat_id is required");
-
-    const hasBody = typeof args.body === "string" && args.body.length > 0;
-    const hasMedia = Array.isArray(args.media) && args.media.length > 0;
-    if (!hasBody && !hasMedia) throw new Error("body or media is required");
-    if (Array.isArray(args.media) && args.media.length > 1) {
-      throw new Error("Direct messages support one attachment per send");
-    }
-
-    const body: any = {};
-    if (args.body !== undefined) body.body = args.body;
-    if (hasMedia) body.media = args.media; // URL/base64 only — Worker has no filesystem
-    if (args.tag) body.tag = args.tag;
-    if (args.reply_to_external_id) body.reply_to_external_id = args.reply_to_external_id;
-    if (args.reply_markup) body.reply_markup = args.reply_markup;
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/chats/${encodeURIComponent(chat_id)}/messages`,
-      body
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmMessageGet(args: any): Promise<string> {
-    this.getApiKey();
-    const { message_id } = args;
-    if (!message_id) throw new Error("message_id is required");
-
-    const response = await this.apiRequest<any>(
-      "GET",
-      `/messages/${encodeURIComponent(message_id)}`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmMessageEdit(args: any): Promise<string> {
-    this.getApiKey();
-    const { message_id } = args;
-    if (!message_id) throw new Error("message_id is required");
-    if (args.body === undefined && args.reply_markup === undefined) {
-      throw new Error("body or reply_markup is required");
-    }
-
-    const body: any = {};
-    if (args.body !== undefined) body.body = args.body;
-    if (args.reply_markup !== undefined) body.reply_markup = args.reply_markup;
-
-    const response = await this.apiRequest<any>(
-      "PATCH",
-      `/messages/${encodeURIComponent(message_id)}`,
-      body
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmMessageReact(args: any): Promise<string> {
-    this.getApiKey();
-    const { message_id } = args;
-    if (!message_id) throw new Error("message_id is required");
-
-    const body: any = {};
-    if (args.reaction) body.reaction = args.reaction;
-    if (args.emoji) body.emoji = args.emoji;
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/messages/${encodeURIComponent(message_id)}/react`,
-      body
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmMessageUnreact(args: any): Promise<string> {
-    this.getApiKey();
-    const { message_id } = args;
-    if (!message_id) throw new Error("message_id is required");
-
-    const response = await this.apiRequest<any>(
-      "DELETE",
-      `/messages/${encodeURIComponent(message_id)}/unreact`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmChatArchive(args: any): Promise<string> {
-    this.getApiKey();
-    const { chat_id } = args;
-    if (!chat_id) throw new Error("chat_id is required");
-
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/chats/${encodeURIComponent(chat_id)}/archive`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmChatUnarchive(args: any): Promise<string> {
-    this.getApiKey();
-    const { chat_id } = args;
-    if (!chat_id) throw new Error("chat_id is required");
-
-    const response = await this.apiRequest<any>(
-      "DELETE",
-      `/chats/${encodeURIComponent(chat_id)}/archive`
-    );
-    return JSON.stringify(response, null, 2);
-  }
-
-  private async handleDmCommentPrivateReply(args: any): Promise<string> {
-    this.getApiKey();
-    const { post_id, comment_id, profile_id, text } = args;
-    if (!post_id) throw new Error("post_id is required");
-    if (!comment_id) throw new Error("comment_id is required");
-    if (!profile_id) throw new Error("profile_id is required");
-    if (!text) throw new Error("text is required");
+  // ─── MCP JSON-RPC Handler ──────────────────────────────────────────
 
-    const response = await this.apiRequest<any>(
-      "POST",
-      `/posts/${post_id}/comments/${encodeURIComponent(comment_id)}/private_reply?profile_id=${profile_id}`,
-      { text }
-    );
-    return JSON.stringify(response, null, 2);
+  private async handleToolCall(name: string, args: any): Promise<ToolResult> {
+    return callTool(this.createClient(), name, args);
   }
 
-  // ─── MCP JSON-RPC Handler ──────────────────────────────────────────
-
-  private async handleToolCall(name: string, args: any): Promise<string> {
-    switch (name) {
-      case "auth_status":
-        return await this.handleAuthStatus();
-      case "profiles_list":
-        return await this.handleProfilesList(args);
-      case "profile_groups_list":
-        return await this.handleProfileGroupsList();
-      case "profile_groups_initialize_connection":
-        return await this.handleProfileGroupsInitializeConnection(args);
-      case "upload_create":
-        return await this.handleUploadCreate();
-      case "profiles_placements":
-        return await this.handleProfilesPlacements(args);
-      case "profiles_stats":
-        return await this.handleProfilesStats(args);
-      case "post_publish":
-        return await this.handlePostPublish(args);
-      case "post_status":
-        return await this.handlePostStatus(args);
-      case "post_publish_draft":
-        return await this.handlePostPublishDraft(args);
-      case "post_update":
-        return await this.handlePostUpdate(args);
-      case "post_delete":
-        return await this.handlePostDelete(args);
-      case "post_delete_on_platform":
-        return await this.handlePostDeleteOnPlatform(args);
-      case "post_stats":
-        return await this.handlePostStats(args);
-      case "history_list":
-        return await this.handleHistoryList(args);
-      case "queues_list":
-        return await this.handleQueuesList(args);
-      case "queues_get":
-        return await this.handleQueuesGet(args);
-      case "queues_create":
-        return await this.handleQueuesCreate(args);
-      case "queues_update":
-        return await this.handleQueuesUpdate(args);
-      case "queues_delete":
-        return await this.handleQueuesDelete(args);
-      case "queues_next_slot":
-        return await this.handleQueuesNextSlot(args);
-      case "comments_list":
-        return await this.handleCommentsList(args);
-      case "comments_get":
-        return await this.handleCommentsGet(args);
-      case "comments_create":
-        return await this.handleCommentsCreate(args);
-      case "comments_delete":
-        return await this.handleCommentsDelete(args);
-      case "comments_hide":
-        return await this.handleCommentsHide(args);
-      case "comments_unhide":
-        return await this.handleCommentsUnhide(args);
-      case "comments_like":
-        return await this.handleCommentsLike(args);
-      case "comments_unlike":
-        return await this.handleCommentsUnlike(args);
-      case "profile_comments_list":
-        return await this.handleProfileCommentsList(args);
-      case "profile_comments_get":
-        return await this.handleProfileCommentsGet(args);
-      case "profile_comments_create":
-        return await this.handleProfileCommentsCreate(args);
-      case "profile_comments_delete":
-        return await this.handleProfileCommentsDelete(args);
-      case "dm_chats_list":
-        return await this.handleDmChatsList(args);
-      case "dm_chat_create":
-        return await this.handleDmChatCreate(args);
-      case "dm_chat_get":
-        return await this.handleDmChatGet(args);
-      case "dm_messages_list":
-        return await this.handleDmMessagesList(args);
-      case "dm_message_send":
-        return await this.handleDmMessageSend(args);
-      case "dm_message_get":
-        return await this.handleDmMessageGet(args);
-      case "dm_message_edit":
-        return await this.handleDmMessageEdit(args);
-      case "dm_message_react":
-        return await this.handleDmMessageReact(args);
-      case "dm_message_unreact":
-        return await this.handleDmMessageUnreact(args);
-      case "dm_chat_archive":
-        return await this.handleDmChatArchive(args);
-      case "dm_chat_unarchive":
-        return await this.handleDmChatUnarchive(args);
-      case "dm_comment_private_reply":
-        return await this.handleDmCommentPrivateReply(args);
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+  /**
+   * JSON-RPC error for a failed request. Protocol errors keep their code and data;
+   * anything else is an internal error described like a tool error.
+   */
+  private errorResponse(error: unknown, id: unknown) {
+    if (error instanceof McpError) {
+      return { jsonrpc: "2.0", error: { code: error.code, message: error.message, data: error.data }, id };
     }
+    const described = describeToolError(error);
+    return { jsonrpc: "2.0", error: { code: ErrorCode.InternalError, message: described.message, data: described }, id };
   }
 
   private async handleMcpRequest(body: any): Promise<any> {
@@ -1124,7 +66,7 @@ export default class PostProxyMCP extends WorkerEntrypoint<Env> {
           jsonrpc: "2.0",
           result: {
             protocolVersion: "2025-03-26",
-            capabilities: { tools: {} },
+            capabilities: { tools: {}, resources: {}, prompts: {}, completions: {} },
             serverInfo: { name: "postproxy-mcp", version: PACKAGE_VERSION },
           },
           id,
@@ -1144,19 +86,62 @@ export default class PostProxyMCP extends WorkerEntrypoint<Env> {
         const { name, arguments: args } = params || {};
         try {
           const result = await this.handleToolCall(name, args || {});
+          return { jsonrpc: "2.0", result, id };
+        } catch (e) {
+          return { jsonrpc: "2.0", result: errorResult(e), id };
+        }
+      }
+
+      case "resources/list":
+        try {
+          return { jsonrpc: "2.0", result: await listResources(this.createClient()), id };
+        } catch (e) {
+          return this.errorResponse(e, id);
+        }
+
+      case "resources/templates/list":
+        return {
+          jsonrpc: "2.0",
+          result: { resourceTemplates: [...RESOURCE_TEMPLATE_DEFINITIONS] },
+          id,
+        };
+
+      case "resources/read":
+        try {
+          return { jsonrpc: "2.0", result: await readResource(this.createClient(), params?.uri), id };
+        } catch (e) {
+          return this.errorResponse(e, id);
+        }
+
+      case "prompts/list":
+        return { jsonrpc: "2.0", result: { prompts: [...PROMPT_DEFINITIONS] }, id };
+
+      case "prompts/get":
+        try {
           return {
             jsonrpc: "2.0",
-            result: { content: [{ type: "text", text: result }] },
+            result: await getPrompt(this.createClient(), params?.name, params?.arguments),
             id,
           };
-        } catch (e: any) {
+        } catch (e) {
+          return this.errorResponse(e, id);
+        }
+
+      case "completion/complete":
+        try {
           return {
             jsonrpc: "2.0",
-            result: { content: [{ type: "text", text: `Error: ${e.message}` }], isError: true },
+            result: await completeArgument(
+              this.createClient(),
+              params?.ref,
+              params?.argument,
+              params?.context?.arguments
+            ),
             id,
           };
+        } catch (e) {
+          return this.errorResponse(e, id);
         }
-      }
 
       default:
         return {
@@ -1305,7 +290,7 @@ export default class PostProxyMCP extends WorkerEntrypoint<Env> {
         }
 
         return Response.json(result, { headers: this.corsHeaders });
-      } catch (e: any) {
+      } catch {
         return Response.json(
           {
             jsonrpc: "2.0",